@@ -1,16 +1,8 @@
 import { describe, it, expect, vi, beforeEach } from 'vitest'
-import { render, screen, waitFor, fireEvent } from '@testing-library/react'
-import App from '../App'
+import { screen, waitFor, fireEvent } from '@testing-library/react'
+import { renderApp } from './test/renderApp'
 
-vi.mock('../utils/firestore', () => ({
-  loadRoundsFromFirestore: vi.fn(async () => []),
-  saveRoundToFirestore: vi.fn(async () => {}),
-  saveRoundsToFirestore: vi.fn(async () => {}),
-  updateRoundNotesInFirestore: vi.fn(async () => {}),
-  deleteRoundFromFirestore: vi.fn(async () => {}),
-}))
-
-vi.mock('../firebase', () => ({
+vi.mock('./firebase', () => ({
   auth: {},
   googleProvider: {},
   db: {},
@@ -24,21 +16,24 @@ vi.mock('firebase/auth', () => ({
       email: 'test@example.com',
       displayName: 'Test User',
       photoURL: null,
+      providerData: [{ providerId: 'google.com' }],
     })
     return vi.fn() 
   }),
   signInWithPopup: vi.fn(),
+  getRedirectResult: vi.fn(async () => null),
+  isSignInWithEmailLink: vi.fn(() => false),
   signOut: vi.fn(),
 }))
 
-describe('useRoundManagement', () => {
+describe('Changing the number of ends mid-round', () => {
   beforeEach(() => {
     vi.clearAllMocks()
   })
 
   describe('Make sure the app preserves shot data when changing the number of ends in the middle of a round', () => {
     it('make sure it preserves shot data when increasing ends and decreasing rounds', async () => {
-      render(<App />)
+      renderApp()
 
       const recordButton = await screen.findByText('Record New Practice')
       fireEvent.click(recordButton)
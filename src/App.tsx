@@ -1,23 +1,95 @@
-import type { MouseEvent, ReactNode } from 'react'
-import { useEffect, useMemo, useState } from 'react'
+import type { MouseEvent, PointerEvent, ReactNode } from 'react'
+import { useCallback, useEffect, useMemo, useRef, useState } from 'react'
 import './App.css'
-import type { View, Shot, End, Round } from './utils/types'
+import type {
+  View,
+  Shot,
+  Round,
+  RoundDraft,
+  RoundPresetId,
+  RoundSegment,
+  ScoreEntryMode,
+  EquipmentProfile,
+  DistanceUnit,
+  SightMark,
+  SightMarkReading,
+} from './utils/types'
 import type { PracticeCardProps } from './components/home/PracticeCard'
-import { RING_COUNT, SHOTS_PER_END, DEFAULT_ENDS_PER_ROUND, MIN_ENDS, MAX_ENDS } from './utils/constants'
-import { generateEndTemplate, calculateScore, generateRingColors, calculateEndPrecision } from './utils/helpers'
+import {
+  DEFAULT_SHOTS_PER_END,
+  MIN_SHOTS_PER_END,
+  MAX_SHOTS_PER_END,
+  MIN_ENDS,
+  MAX_ENDS,
+  DEFAULT_SHAFT_DIAMETER_MM,
+  MAX_SHAFT_DIAMETER_MM,
+  MAX_ARROW_COUNT,
+  DEFAULT_SIGHT_RADIUS_CM,
+  MAX_SIGHT_RADIUS_CM,
+  DEFAULT_SIGHT_CLICK_MM,
+  MAX_SIGHT_CLICK_MM,
+  DEFAULT_SEGMENT_DISTANCE,
+  DRAFT_SYNC_DELAY_MS,
+} from './utils/constants'
+import { getTargetPosition, scoreShot, calculateEndPrecision, createScoreOnlyShot } from './utils/helpers'
+import { TARGET_FACE_OPTIONS, type ScoreValue } from './utils/targetFaces'
+import { ROUND_PRESET_OPTIONS, getRoundPreset, formatPresetScore } from './utils/roundPresets'
+import { countRoundXsAndTens, formatDistance, getFaceForEnd, getSegmentIndexForEnd } from './utils/segments'
+import {
+  formatSessionDetails,
+  hasSessionDetails,
+  normalizeSessionDetails,
+  updateSessionDetails,
+} from './utils/sessionDetails'
 import { getSubmitButtonConfig } from './utils/submitButton'
 import { StatsView } from './components/StatsView'
 import { HomeHeader } from './components/home/HomeHeader'
 import { PracticeList } from './components/home/PracticeList'
 import { PracticePlaceholder } from './components/home/PracticePlaceholder'
+import { GuestImportPrompt } from './components/home/GuestImportPrompt'
 import { RecordPage } from './components/record/RecordPage'
 import { ProfilePage } from './components/profile/ProfilePage'
 import { SignInView } from './components/auth/SignInView'
 import { BottomNav } from './components/navigation/BottomNav'
-import { auth, googleProvider } from './firebase'
-import { onAuthStateChanged, signInWithPopup, signOut, type User } from 'firebase/auth'
-import { saveRoundToFirestore, loadRoundsFromFirestore, deleteRoundFromFirestore } from './utils/firestore'
-import { useRoundManagement } from './hooks/useRoundManagement'
+import { auth } from './firebase'
+import { onAuthStateChanged, signOut, type User } from 'firebase/auth'
+import {
+  completePendingSignIn,
+  createAccountWithEmail,
+  describeAuthError,
+  getLinkedProviderIds,
+  isAuthCancelled,
+  linkEmailPassword,
+  linkGoogle,
+  sendEmailSignInLink,
+  signInWithEmail,
+  signInWithGoogle,
+  unlinkProvider,
+} from './utils/auth'
+import { getSightMarkKey, recordSightMark, removeSightMarkReading } from './utils/sightMarks'
+import {
+  isOfflineStoreAvailable,
+  queuePendingRound,
+  removePendingRound,
+  saveLocalDraft,
+} from './utils/offlineStore'
+import { clearRoundDraft, hasRecordedShots, loadRoundDraft } from './utils/drafts'
+import { markRoundsSynced, syncPendingRounds } from './utils/syncQueue'
+import { sortNewestFirst, summarizeRound, upsertRounds } from './utils/roundLists'
+import { hasStatsViewState } from './utils/aggregateFilters'
+import { createRecordingState } from './utils/recordingSession'
+import {
+  GUEST_USER_ID,
+  createGuestRoundRepository,
+  importGuestRounds,
+  loadGuestMode,
+  saveGuestMode,
+} from './utils/guest'
+import { useRecordingSession } from './hooks/useRecordingSession'
+import { useShotPlacement } from './hooks/useShotPlacement'
+import { useTargetZoom } from './hooks/useTargetZoom'
+import { usePagedRounds } from './hooks/usePagedRounds'
+import { RoundRepositoryContext, useRoundRepository } from './hooks/useRoundRepository'
 
 const HomeIcon = () => (
   <svg viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round">
@@ -58,47 +130,273 @@ const UndoIcon = () => (
   </svg>
 )
 
+const RedoIcon = () => (
+  <svg viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round">
+    <path d="M21 7v6h-6" />
+    <path d="M3 17a9 9 0 019-9 9 9 0 016 2.3L21 13" />
+  </svg>
+)
+
+const keepRound = (round: Round) => round
+
 const App = () => {
-  const [view, setView] = useState<View>('home')
-  const [endsPerRound, setEndsPerRound] = useState(DEFAULT_ENDS_PER_ROUND)
-  const [endsPerRoundInput, setEndsPerRoundInput] = useState(String(DEFAULT_ENDS_PER_ROUND))
-  const [currentEndIndex, setCurrentEndIndex] = useState(0)
-  const [currentRound, setCurrentRound] = useState<End[]>(() =>
-    Array.from({ length: DEFAULT_ENDS_PER_ROUND }, generateEndTemplate),
-  )
-  const [rounds, setRounds] = useState<Round[]>([])
+  // A shared stats link opens straight onto the stats page
+  const [view, setView] = useState<View>(() => (hasStatsViewState(window.location.search) ? 'stats' : 'home'))
+  // Text being typed into the ends/arrows inputs, shown until the field loses focus
+  const [endsPerRoundInput, setEndsPerRoundInput] = useState<string | null>(null)
+  const [shotsPerEndInput, setShotsPerEndInput] = useState<string | null>(null)
   const [user, setUser] = useState<User | null>(null)
-  const [isLoadingRounds, setIsLoadingRounds] = useState(false)
-  const [practiceNotes, setPracticeNotes] = useState('')
+  const [linkedProviderIds, setLinkedProviderIds] = useState<string[]>([])
+  const [shaftDiameterMm, setShaftDiameterMm] = useState(DEFAULT_SHAFT_DIAMETER_MM)
+  const [arrowCount, setArrowCount] = useState(0)
+  // Guests keep their profiles for this visit only, like their other settings
+  const [equipmentProfiles, setEquipmentProfiles] = useState<EquipmentProfile[]>([])
+  const [sightRadiusCm, setSightRadiusCm] = useState(DEFAULT_SIGHT_RADIUS_CM)
+  const [sightClickMm, setSightClickMm] = useState(DEFAULT_SIGHT_CLICK_MM)
+  const [sightMarks, setSightMarks] = useState<SightMark[]>([])
+  const [entryMode, setEntryMode] = useState<ScoreEntryMode>('target')
+  const [isGuest, setIsGuest] = useState(loadGuestMode)
+  const [guestRounds, setGuestRounds] = useState<Round[]>([])
+  const [isImportingGuestRounds, setIsImportingGuestRounds] = useState(false)
+
+  // Guests read and write rounds in this browser; signed-in archers use the app's repository
+  const accountRepository = useRoundRepository()
+  const [guestRepository] = useState(createGuestRoundRepository)
+  const repository = user || !isGuest ? accountRepository : guestRepository
+  const userId = user?.uid ?? (isGuest ? GUEST_USER_ID : null)
+
+  // The home list only needs summaries; full rounds are kept live while stats are open
+  const {
+    items: roundSummaries,
+    setItems: setRoundSummaries,
+    isLoading: isLoadingRounds,
+    hasMore: hasMoreRoundSummaries,
+    isLoadingMore: isLoadingMoreRoundSummaries,
+    loadMore: loadMoreRoundSummaries,
+  } = usePagedRounds({
+    userId,
+    enabled: true,
+    subscribe: repository.subscribeSummaries,
+    loadPage: repository.listSummaryPage,
+    fromRound: summarizeRound,
+  })
+
+  const {
+    items: rounds,
+    setItems: setRounds,
+    isLoading: isLoadingStatsRounds,
+    hasMore: hasMoreRounds,
+    isLoadingMore: isLoadingMoreRounds,
+    loadMore: loadMoreRounds,
+  } = usePagedRounds({
+    userId,
+    enabled: view === 'stats',
+    subscribe: repository.subscribe,
+    loadPage: repository.listPage,
+    fromRound: keepRound,
+  })
+
+  // Every change to the round being recorded goes through here so it can be undone
+  const {
+    state: recording,
+    dispatch: dispatchRecording,
+    canUndo,
+    canRedo,
+    undoLabel,
+    redoLabel,
+  } = useRecordingSession()
+  // The pending autosave to the account, so signing out can cancel it
+  const draftSyncTimeout = useRef<number | null>(null)
+  const {
+    ends: currentRound,
+    currentEndIndex,
+    notes: practiceNotes,
+    endsPerRound,
+    shotsPerEnd,
+    faceId,
+    presetId,
+    segments,
+    session,
+    equipmentId,
+  } = recording
+
+  const restoreDraft = useCallback(
+    (draft: RoundDraft) => {
+      dispatchRecording({
+        type: 'restore',
+        state: {
+          ends: draft.ends,
+          currentEndIndex: draft.currentEndIndex,
+          notes: draft.notes,
+          endsPerRound: draft.endsPerRound,
+          shotsPerEnd: draft.shotsPerEnd,
+          faceId: draft.faceId,
+          presetId: draft.presetId,
+          segments: draft.segments,
+          session: draft.session,
+          equipmentId: draft.equipmentId,
+        },
+      })
+      setEndsPerRoundInput(null)
+      setShotsPerEndInput(null)
+    },
+    [dispatchRecording],
+  )
 
   useEffect(() => {
     const unsubscribe = onAuthStateChanged(auth, async current => {
       setUser(current)
+      setLinkedProviderIds(getLinkedProviderIds(current))
 
-      // Load rounds from Firestore when user signs in
       if (current) {
-        setIsLoadingRounds(true)
         try {
-          const firestoreRounds = await loadRoundsFromFirestore(current.uid)
-          setRounds(firestoreRounds)
+          const settings = await accountRepository.loadSettings(current.uid)
+          setShaftDiameterMm(settings.arrowShaftDiameterMm)
+          setArrowCount(settings.arrowCount)
+          setSightRadiusCm(settings.sightRadiusCm)
+          setSightClickMm(settings.sightClickMm)
         } catch (error) {
-          console.error('Failed to load rounds from Firestore:', error)
-        } finally {
-          setIsLoadingRounds(false)
+          console.error('Failed to load user settings:', error)
+        }
+
+        try {
+          setEquipmentProfiles(await accountRepository.listEquipment(current.uid))
+        } catch (error) {
+          console.error('Failed to load equipment profiles:', error)
+        }
+
+        try {
+          setSightMarks(await accountRepository.listSightMarks(current.uid))
+        } catch (error) {
+          console.error('Failed to load sight marks:', error)
+        }
+
+        // Pick up a round that was interrupted by a reload or started on another device
+        const draft = await loadRoundDraft(current.uid, accountRepository)
+        if (draft) {
+          restoreDraft(draft)
+        }
+
+        // A guest who signs in is offered to move the rounds they recorded into their account
+        saveGuestMode(false)
+        setIsGuest(false)
+        try {
+          setGuestRounds(await guestRepository.list(GUEST_USER_ID))
+        } catch (error) {
+          console.error('Failed to load guest rounds:', error)
+        }
+      } else if (loadGuestMode()) {
+        const draft = await loadRoundDraft(GUEST_USER_ID, null)
+        if (draft) {
+          restoreDraft(draft)
         }
       } else {
         // Clear rounds when user signs out
         setRounds([])
+        setRoundSummaries([])
+        setShaftDiameterMm(DEFAULT_SHAFT_DIAMETER_MM)
+        setArrowCount(0)
+        setEquipmentProfiles([])
+        setSightRadiusCm(DEFAULT_SIGHT_RADIUS_CM)
+        setSightClickMm(DEFAULT_SIGHT_CLICK_MM)
+        setSightMarks([])
+        // Don't leave the signed-out archer's round on screen, or let it autosave into the next account
+        if (draftSyncTimeout.current !== null) {
+          window.clearTimeout(draftSyncTimeout.current)
+          draftSyncTimeout.current = null
+        }
+        dispatchRecording({ type: 'restore', state: createRecordingState() })
       }
     })
     return () => unsubscribe()
+  }, [setRounds, setRoundSummaries, restoreDraft, dispatchRecording, accountRepository, guestRepository])
+
+  // Upload queued rounds after sign-in and whenever the connection comes back
+  useEffect(() => {
+    if (!userId) return
+
+    const syncRounds = async () => {
+      try {
+        const syncedIds = await syncPendingRounds(userId, repository.save)
+        setRounds(prev => markRoundsSynced(prev, syncedIds))
+        setRoundSummaries(prev => markRoundsSynced(prev, syncedIds))
+      } catch (error) {
+        console.error('Failed to sync pending rounds:', error)
+      }
+    }
+
+    void syncRounds()
+    window.addEventListener('online', syncRounds)
+    return () => window.removeEventListener('online', syncRounds)
+  }, [userId, repository, setRounds, setRoundSummaries])
+
+  // Finish a Google redirect or an emailed sign-in link that brought the archer back to the app
+  useEffect(() => {
+    completePendingSignIn()
+      .then(current => {
+        if (current) {
+          setLinkedProviderIds(getLinkedProviderIds(current))
+        }
+      })
+      .catch(error => {
+        console.error('Failed to complete sign-in:', error)
+        alert(describeAuthError(error))
+      })
   }, [])
 
   const handleSignIn = async () => {
     try {
-      await signInWithPopup(auth, googleProvider)
+      await signInWithGoogle()
     } catch (err) {
+      if (isAuthCancelled(err)) return
       console.error('Sign-in failed', err)
+      alert(describeAuthError(err))
+    }
+  }
+
+  // Linking keeps the same uid, so the archer's rounds stay with the account
+  const handleLinkGoogle = async () => {
+    if (!user) return
+    const updated = await linkGoogle(user)
+    setLinkedProviderIds(getLinkedProviderIds(updated))
+  }
+
+  const handleLinkEmail = async (email: string, password: string) => {
+    if (!user) return
+    const updated = await linkEmailPassword(user, email, password)
+    setLinkedProviderIds(getLinkedProviderIds(updated))
+  }
+
+  const handleUnlinkProvider = async (providerId: string) => {
+    if (!user) return
+    const updated = await unlinkProvider(user, providerId)
+    setLinkedProviderIds(getLinkedProviderIds(updated))
+  }
+
+  const handleContinueAsGuest = async () => {
+    saveGuestMode(true)
+    setIsGuest(true)
+
+    const draft = await loadRoundDraft(GUEST_USER_ID, null)
+    if (draft) {
+      restoreDraft(draft)
+    }
+  }
+
+  const handleImportGuestRounds = async () => {
+    if (!user) return
+
+    setIsImportingGuestRounds(true)
+    try {
+      const imported = await importGuestRounds(user.uid, guestRepository, accountRepository)
+      setRounds(prev => upsertRounds(prev, imported))
+      setRoundSummaries(prev => upsertRounds(prev, imported.map(summarizeRound)))
+      setGuestRounds([])
+    } catch (error) {
+      console.error('Failed to import guest rounds:', error)
+      alert('Failed to add your guest practices to your account. Please try again.')
+    } finally {
+      setIsImportingGuestRounds(false)
     }
   }
 
@@ -113,143 +411,225 @@ const App = () => {
 
   // Note: We save rounds individually when they're created (see handleSaveRound)
 
-  const ringColors = useMemo(() => generateRingColors(RING_COUNT), [])
+  const face = getFaceForEnd({ faceId, segments }, currentEndIndex)
+  const currentSegment = segments.length > 0 ? segments[getSegmentIndexForEnd(segments, currentEndIndex)] : null
+
+  // Touch-and-hold placement and dragging arrows in the current end, committed on release.
+  // A second finger turns the gesture into a pinch-zoom instead.
+  const targetZoom = useTargetZoom()
+  const shotPlacement = useShotPlacement({
+    canPlace: (currentRound[currentEndIndex]?.shots.length ?? shotsPerEnd) < shotsPerEnd,
+    view: targetZoom.view,
+    onPlace: (x, y) => dispatchRecording({ type: 'placeShot', shot: scoreShot(x, y, face, shaftDiameterMm) }),
+    onMove: (shotIndex, x, y) =>
+      dispatchRecording({ type: 'moveShot', shotIndex, shot: scoreShot(x, y, face, shaftDiameterMm) }),
+  })
+  const { placement } = shotPlacement
+  const activeShot = placement ? scoreShot(placement.x, placement.y, face, shaftDiameterMm) : null
+
+  const handleTargetPointerDown = (event: PointerEvent<HTMLDivElement>) => {
+    if (targetZoom.handlePointerDown(event)) {
+      shotPlacement.handlePointerCancel()
+      return
+    }
+    shotPlacement.handlePointerDown(event)
+  }
+
+  const handleShotPointerDown = (shotIndex: number, event: PointerEvent<HTMLDivElement>) => {
+    if (targetZoom.handlePointerDown(event)) {
+      // Keep the wrapper from counting this finger twice
+      event.stopPropagation()
+      shotPlacement.handlePointerCancel()
+      return
+    }
+    shotPlacement.handleShotPointerDown(shotIndex, event)
+  }
+
+  const handleTargetPointerMove = (event: PointerEvent<HTMLDivElement>) => {
+    if (!targetZoom.handlePointerMove(event)) {
+      shotPlacement.handlePointerMove(event)
+    }
+  }
+
+  const handleTargetPointerUp = (event: PointerEvent<HTMLDivElement>) => {
+    if (!targetZoom.handlePointerUp(event)) {
+      shotPlacement.handlePointerUp(event)
+    }
+  }
+
+  const handleTargetPointerCancel = (event: PointerEvent<HTMLDivElement>) => {
+    targetZoom.handlePointerUp(event)
+    shotPlacement.handlePointerCancel()
+  }
 
   const resetRoundState = () => {
-    setCurrentEndIndex(0)
-    setCurrentRound(Array.from({ length: endsPerRound }, generateEndTemplate))
-    setPracticeNotes('')
+    dispatchRecording({ type: 'reset' })
   }
 
-  // Reset round state when entering record view
+  const hasDraft = hasRecordedShots(currentRound)
+
+  const draft = useMemo<RoundDraft>(() => ({ ...recording, updatedAt: new Date().toISOString() }), [recording])
+
+  // Autosave every arrow on this device straight away, and to the account once recording pauses
   useEffect(() => {
-    if (view === 'record') {
-      resetRoundState()
-    }
-  }, [view])
+    if (!userId || !hasDraft) return
 
-  // Use custom hook to manage round adjustments when endsPerRound changes
-  useRoundManagement({
-    view,
-    endsPerRound,
-    setCurrentRound,
-    setCurrentEndIndex,
-  })
+    saveLocalDraft(userId, draft).catch(error => console.error('Failed to autosave draft locally:', error))
+    // Guests have no account to sync the draft to
+    if (!user) return
 
-  const updateEndWithShot = (shot: Shot) => {
-    setCurrentRound(prev => {
-      const updated = [...prev]
-      const end = updated[currentEndIndex]
-      if (!end) return prev
-
-      const shots = [...end.shots, shot].slice(0, SHOTS_PER_END)
-      const endScore = shots.reduce((total, s) => total + s.score, 0)
-      const precision = calculateEndPrecision(shots)
-      updated[currentEndIndex] = { shots, endScore, precision }
-      return updated
-    })
+    const timeout = window.setTimeout(() => {
+      draftSyncTimeout.current = null
+      accountRepository.saveDraft(user.uid, draft).catch(error => console.error('Failed to autosave draft:', error))
+    }, DRAFT_SYNC_DELAY_MS)
+    draftSyncTimeout.current = timeout
+    return () => window.clearTimeout(timeout)
+  }, [user, userId, hasDraft, draft, accountRepository])
+
+  const handleDiscardDraft = () => {
+    if (!window.confirm('Discard the practice in progress? Arrows you have shot will be lost.')) {
+      return
+    }
+
+    resetRoundState()
+    if (userId) {
+      void clearRoundDraft(userId, user ? accountRepository : null)
+    }
   }
 
   const handleTargetClick = (event: MouseEvent<HTMLDivElement>) => {
+    if (shotPlacement.shouldIgnoreClick()) {
+      return
+    }
+
     const currentEnd = currentRound[currentEndIndex]
-    if (!currentEnd || currentEnd.shots.length >= SHOTS_PER_END) {
+    if (!currentEnd || currentEnd.shots.length >= shotsPerEnd) {
       return
     }
-    const wrapper = event.currentTarget
-    const rect = wrapper.getBoundingClientRect()
-    const centerX = rect.left + rect.width / 2
-    const centerY = rect.top + rect.height / 2
-    const clickX = event.clientX - centerX
-    const clickY = event.clientY - centerY
+    const { x, y } = getTargetPosition(
+      event.clientX,
+      event.clientY,
+      event.currentTarget.getBoundingClientRect(),
+      targetZoom.view,
+    )
 
-    // Use wrapper size for radius calculation
-    // Since target is 70% of wrapper, we need to adjust normalization
-    const wrapperRadius = rect.width / 2
-    const targetRadius = wrapperRadius * 0.7 // target is 70% of wrapper
+    // Allow shots outside the target; they score the face's miss value unless the shaft cuts the outer line
+    const shot: Shot = scoreShot(x, y, face, shaftDiameterMm)
 
-    // Normalize to target size (values > 1 or < -1 are outside target)
-    const normalizedX = clickX / targetRadius
-    const normalizedY = clickY / targetRadius
-    const distance = Math.sqrt(normalizedX ** 2 + normalizedY ** 2)
+    // Immediately add the shot without confirmation
+    dispatchRecording({ type: 'placeShot', shot })
+  }
 
-    // Allow shots outside the target, but they score 0
-    const score = distance > 1 ? 0 : calculateScore(normalizedX, normalizedY)
-    const shot: Shot = {
-      x: normalizedX,
-      y: normalizedY,
-      score,
-    }
+  // Score-only entry from the keypad; the shot has no position on the face
+  const handleScoreEntry = useCallback(
+    (value: ScoreValue) => {
+      dispatchRecording({ type: 'placeShot', shot: createScoreOnlyShot(value.score, value.isX) })
+    },
+    [dispatchRecording],
+  )
 
-    // Immediately add the shot without confirmation
-    updateEndWithShot(shot)
+  // Undo and redo step through every recorded change, so the ends/arrows inputs show the state again
+  const handleUndo = () => {
+    dispatchRecording({ type: 'undo' })
+    setEndsPerRoundInput(null)
+    setShotsPerEndInput(null)
   }
 
-  const handleUndoShot = () => {
-    const currentEnd = currentRound[currentEndIndex]
-    if (!currentEnd || currentEnd.shots.length === 0) return
-
-    setCurrentRound(prev => {
-      const updated = [...prev]
-      const end = updated[currentEndIndex]
-      if (!end) return prev
-
-      const shots = end.shots.slice(0, -1) // Remove last shot
-      const endScore = shots.reduce((total, s) => total + s.score, 0)
-      const precision = calculateEndPrecision(shots)
-      updated[currentEndIndex] = { shots, endScore, precision }
-      return updated
-    })
+  const handleRedo = () => {
+    dispatchRecording({ type: 'redo' })
+    setEndsPerRoundInput(null)
+    setShotsPerEndInput(null)
   }
 
   const handleConfirmEnd = () => {
-    const end = currentRound[currentEndIndex]
-    if (!end || end.shots.length !== SHOTS_PER_END) return
-
-    // Move to next incomplete end or next end
-    const nextIncompleteIndex = currentRound.findIndex((e, index) => index > currentEndIndex && e.shots.length < SHOTS_PER_END)
-    if (nextIncompleteIndex !== -1) {
-      setCurrentEndIndex(nextIncompleteIndex)
-    } else if (currentEndIndex < endsPerRound - 1) {
-      setCurrentEndIndex(currentEndIndex + 1)
-    }
+    dispatchRecording({ type: 'confirmEnd' })
   }
 
   const currentEnd = currentRound[currentEndIndex]
   const shotsInCurrentEnd = currentEnd?.shots ?? []
 
-  const isEndComplete = shotsInCurrentEnd.length === SHOTS_PER_END
+  const isEndComplete = shotsInCurrentEnd.length === shotsPerEnd
   const isLastEnd = currentEndIndex === endsPerRound - 1
   const canConfirmEnd = isEndComplete && !isLastEnd
-  const canUndoShot = shotsInCurrentEnd.length > 0
-  const isRoundComplete = currentRound.length === endsPerRound && currentRound.every(end => end.shots.length === SHOTS_PER_END)
+  // Face and arrows per end are locked once the first arrow is placed
+  const canChangeRoundSetup = currentRound.every(end => end.shots.length === 0)
+  const isRoundComplete = currentRound.length === endsPerRound && currentRound.every(end => end.shots.length === shotsPerEnd)
 
   const handleSaveRound = async () => {
-    if (!isRoundComplete || !user) return
+    if (!isRoundComplete || !userId) return
     const normalizedEnds = currentRound.map(end => ({
-      shots: end.shots.slice(0, SHOTS_PER_END),
-      endScore: end.shots.slice(0, SHOTS_PER_END).reduce((total, shot) => total + shot.score, 0),
-      precision: calculateEndPrecision(end.shots.slice(0, SHOTS_PER_END)),
+      shots: end.shots.slice(0, shotsPerEnd),
+      endScore: end.shots.slice(0, shotsPerEnd).reduce((total, shot) => total + shot.score, 0),
+      precision: calculateEndPrecision(end.shots.slice(0, shotsPerEnd)),
     }))
     const totalScore = normalizedEnds.reduce((total, end) => total + end.endScore, 0)
+    const { xCount, tenCount } = countRoundXsAndTens({ ends: normalizedEnds, faceId, segments })
+    const sessionDetails = normalizeSessionDetails(session)
+    if (segments.length > 0) {
+      // Each segment records its own distance
+      delete sessionDetails.distance
+      delete sessionDetails.distanceUnit
+    }
     const round: Round = {
       id: crypto.randomUUID(),
       createdAt: new Date().toISOString(),
       ends: normalizedEnds,
       totalScore,
+      faceId,
+      ...(presetId && { presetId }),
+      ...(segments.length > 0 && { segments }),
+      shotsPerEnd,
+      shaftDiameterMm,
+      xCount,
+      tenCount,
       notes: practiceNotes || undefined,
+      ...(hasSessionDetails(sessionDetails) && { session: sessionDetails }),
+      ...(equipmentId && equipmentProfiles.some(profile => profile.id === equipmentId) && { equipmentId }),
     }
 
-    // Save to Firestore first
-    try {
-      await saveRoundToFirestore(user.uid, round)
-      // Only update local state after successful save
-      setRounds(prev => [round, ...prev])
+    const finishRound = (savedRound: Round) => {
+      setRounds(prev => upsertRounds(prev, [savedRound]))
+      setRoundSummaries(prev => upsertRounds(prev, [summarizeRound(savedRound)]))
       resetRoundState()
-      setEndsPerRoundInput(String(endsPerRound))
+      void clearRoundDraft(userId, user ? accountRepository : null)
+      setEndsPerRoundInput(null)
+      setShotsPerEndInput(null)
       setView('home')
+    }
+
+    const saveWithoutQueue = async () => {
+      try {
+        await repository.save(userId, round)
+        finishRound(round)
+      } catch (saveError) {
+        console.error('Failed to save round:', saveError)
+        alert('Failed to save your practice session. Please try again.')
+      }
+    }
+
+    // Without IndexedDB there is nowhere to queue the round on this device
+    if (!isOfflineStoreAvailable()) {
+      await saveWithoutQueue()
+      return
+    }
+
+    // Keep the round on this device first so a dead connection can't lose it
+    try {
+      await queuePendingRound(userId, round)
+    } catch (error) {
+      console.error('Failed to store round locally:', error)
+      await saveWithoutQueue()
+      return
+    }
+
+    finishRound({ ...round, pendingSync: true })
+    // The round is queued, so a failed upload is retried when the connection comes back
+    try {
+      const syncedIds = await syncPendingRounds(userId, repository.save)
+      setRounds(prev => markRoundsSynced(prev, syncedIds))
+      setRoundSummaries(prev => markRoundsSynced(prev, syncedIds))
     } catch (error) {
-      console.error('Failed to save round:', error)
-      alert('Failed to save your practice session. Please try again.')
+      console.error('Failed to sync pending rounds:', error)
     }
   }
 
@@ -265,19 +645,30 @@ const App = () => {
   const handlePrimaryActionClick = submitButtonConfig.onClick
 
   const handleDeleteRound = async (roundId: string) => {
-    if (!user) {
+    if (!userId) {
       throw new Error('User not authenticated')
     }
 
     try {
-      await deleteRoundFromFirestore(user.uid, roundId)
+      const round = roundSummaries.find(entry => entry.id === roundId) ?? rounds.find(entry => entry.id === roundId)
+      if (round?.pendingSync) {
+        await removePendingRound(userId, roundId)
+      } else {
+        await repository.delete(userId, roundId)
+      }
       setRounds(prev => prev.filter(round => round.id !== roundId))
+      setRoundSummaries(prev => prev.filter(round => round.id !== roundId))
     } catch (error) {
       console.error('Failed to delete round:', error)
       throw error instanceof Error ? error : new Error('Failed to delete round')
     }
   }
 
+  const handleRoundUpdated = (round: Round) => {
+    setRounds(prev => upsertRounds(prev, [round]))
+    setRoundSummaries(prev => upsertRounds(prev, [summarizeRound(round)]))
+  }
+
   const formatDate = (isoString: string) => {
     const date = new Date(isoString)
     const now = new Date()
@@ -314,25 +705,169 @@ const App = () => {
       return
     }
 
-    const clamped = clampEndsPerRound(parsed)
-    setEndsPerRound(clamped)
+    dispatchRecording({ type: 'setEndsPerRound', endsPerRound: clampEndsPerRound(parsed) })
   }
 
   const handleEndsPerRoundInputBlur = () => {
-    if (endsPerRoundInput === '') {
-      setEndsPerRoundInput(String(endsPerRound))
+    const parsed = Number(endsPerRoundInput)
+    if (endsPerRoundInput !== null && endsPerRoundInput !== '' && !Number.isNaN(parsed)) {
+      dispatchRecording({ type: 'setEndsPerRound', endsPerRound: clampEndsPerRound(parsed) })
+    }
+    setEndsPerRoundInput(null)
+  }
+
+  const handlePresetChange = (nextPresetId: RoundPresetId | null) => {
+    dispatchRecording({ type: 'setPreset', presetId: nextPresetId })
+    setEndsPerRoundInput(null)
+    setShotsPerEndInput(null)
+  }
+
+  const handleSegmentsChange = (nextSegments: RoundSegment[]) => {
+    dispatchRecording({ type: 'setSegments', segments: nextSegments })
+    setEndsPerRoundInput(null)
+  }
+
+  const handleAddSegment = () => {
+    const previous = segments[segments.length - 1]
+    const nextSegment: RoundSegment = previous
+      ? { ...previous }
+      : { distance: DEFAULT_SEGMENT_DISTANCE, distanceUnit: 'm', faceId, endCount: endsPerRound }
+    handleSegmentsChange([...segments, nextSegment])
+  }
+
+  const clampShotsPerEnd = (value: number) => Math.min(MAX_SHOTS_PER_END, Math.max(MIN_SHOTS_PER_END, Math.floor(value)))
+
+  const handleShotsPerEndInputChange = (value: string) => {
+    setShotsPerEndInput(value)
+    if (value === '') {
       return
     }
 
-    const parsed = Number(endsPerRoundInput)
+    const parsed = Number(value)
     if (Number.isNaN(parsed)) {
-      setEndsPerRoundInput(String(endsPerRound))
       return
     }
 
-    const clamped = clampEndsPerRound(parsed)
-    setEndsPerRound(clamped)
-    setEndsPerRoundInput(String(clamped))
+    dispatchRecording({ type: 'setShotsPerEnd', shotsPerEnd: clampShotsPerEnd(parsed) })
+  }
+
+  const handleShotsPerEndInputBlur = () => {
+    const parsed = Number(shotsPerEndInput)
+    if (shotsPerEndInput !== null && shotsPerEndInput !== '' && !Number.isNaN(parsed)) {
+      dispatchRecording({ type: 'setShotsPerEnd', shotsPerEnd: clampShotsPerEnd(parsed) })
+    }
+    setShotsPerEndInput(null)
+  }
+
+  const handleShaftDiameterChange = async (value: number) => {
+    const clamped = Math.min(MAX_SHAFT_DIAMETER_MM, Math.max(0, value))
+    setShaftDiameterMm(clamped)
+    if (!user) return
+
+    try {
+      await accountRepository.saveSettings(user.uid, { arrowShaftDiameterMm: clamped, arrowCount })
+    } catch (error) {
+      console.error('Failed to save arrow shaft diameter:', error)
+    }
+  }
+
+  const handleArrowCountChange = async (value: number) => {
+    const clamped = Math.min(MAX_ARROW_COUNT, Math.max(0, Math.floor(value)))
+    setArrowCount(clamped)
+    if (!user) return
+
+    try {
+      await accountRepository.saveSettings(user.uid, { arrowShaftDiameterMm: shaftDiameterMm, arrowCount: clamped })
+    } catch (error) {
+      console.error('Failed to save arrow count:', error)
+    }
+  }
+
+  const handleSightRadiusChange = async (value: number) => {
+    const clamped = Math.min(MAX_SIGHT_RADIUS_CM, Math.max(0, value))
+    setSightRadiusCm(clamped)
+    if (!user) return
+
+    try {
+      await accountRepository.saveSettings(user.uid, { sightRadiusCm: clamped })
+    } catch (error) {
+      console.error('Failed to save sight radius:', error)
+    }
+  }
+
+  const handleSightClickChange = async (value: number) => {
+    const clamped = Math.min(MAX_SIGHT_CLICK_MM, Math.max(0, value))
+    setSightClickMm(clamped)
+    if (!user) return
+
+    try {
+      await accountRepository.saveSettings(user.uid, { sightClickMm: clamped })
+    } catch (error) {
+      console.error('Failed to save sight click size:', error)
+    }
+  }
+
+  const handleRecordSightMark = async (
+    distance: number,
+    distanceUnit: DistanceUnit,
+    reading: Omit<SightMarkReading, 'id'>,
+  ) => {
+    const nextMarks = recordSightMark(sightMarks, distance, distanceUnit, reading)
+    setSightMarks(nextMarks)
+    const mark = nextMarks.find(entry => getSightMarkKey(entry) === getSightMarkKey({ distance, distanceUnit }))
+    if (!user || !mark) return
+
+    try {
+      await accountRepository.saveSightMark(user.uid, mark)
+    } catch (error) {
+      console.error('Failed to save sight mark:', error)
+    }
+  }
+
+  const handleRemoveSightMarkReading = async (key: string, readingId: string) => {
+    const nextMarks = removeSightMarkReading(sightMarks, key, readingId)
+    setSightMarks(nextMarks)
+    if (!user) return
+
+    const mark = nextMarks.find(entry => getSightMarkKey(entry) === key)
+    try {
+      await (mark ? accountRepository.saveSightMark(user.uid, mark) : accountRepository.deleteSightMark(user.uid, key))
+    } catch (error) {
+      console.error('Failed to remove sight mark reading:', error)
+    }
+  }
+
+  const handleSaveEquipment = async (profile: EquipmentProfile) => {
+    setEquipmentProfiles(prev =>
+      prev.some(entry => entry.id === profile.id)
+        ? prev.map(entry => (entry.id === profile.id ? profile : entry))
+        : [...prev, profile],
+    )
+    if (!user) return
+
+    try {
+      await accountRepository.saveEquipment(user.uid, profile)
+    } catch (error) {
+      console.error('Failed to save equipment profile:', error)
+    }
+  }
+
+  const handleDeleteEquipment = async (profileId: string) => {
+    if (!window.confirm('Delete this equipment profile? Practices shot with it will show as unassigned.')) {
+      return
+    }
+
+    setEquipmentProfiles(prev => prev.filter(profile => profile.id !== profileId))
+    if (equipmentId === profileId) {
+      dispatchRecording({ type: 'setEquipment', equipmentId: null })
+    }
+    if (!user) return
+
+    try {
+      await accountRepository.deleteEquipment(user.uid, profileId)
+    } catch (error) {
+      console.error('Failed to delete equipment profile:', error)
+    }
   }
 
   const userInitials = useMemo(() => {
@@ -351,88 +886,181 @@ const App = () => {
     return 'AR'
   }, [user])
 
-  const userDisplayName = user?.displayName || user?.email || 'Archer'
+  const userDisplayName = user?.displayName || user?.email || (isGuest ? 'Guest' : 'Archer')
 
-  const orderedRounds = useMemo(
-    () =>
-      [...rounds].sort(
-        (first, second) => new Date(second.createdAt).getTime() - new Date(first.createdAt).getTime(),
-      ),
-    [rounds],
-  )
+  const orderedRounds = useMemo(() => sortNewestFirst(roundSummaries), [roundSummaries])
   const practiceOrderMap = useMemo(() => {
-    const chronological = [...rounds].sort(
-      (first, second) => new Date(first.createdAt).getTime() - new Date(second.createdAt).getTime(),
-    )
+    const chronological = [...orderedRounds].reverse()
     return new Map(chronological.map((round, index) => [round.id, index + 1]))
-  }, [rounds])
+  }, [orderedRounds])
 
   const practiceCards = useMemo<PracticeCardProps[]>(() => {
     return orderedRounds.map((round, index) => {
-      const endCount = Math.max(round.ends.length, 1)
-      const bestEnd = round.ends.length > 0 ? Math.max(...round.ends.map(end => end.endScore)) : 0
+      const endCount = Math.max(round.endScores.length, 1)
+      const bestEnd = round.endScores.length > 0 ? Math.max(...round.endScores) : 0
       const averagePerEnd = (round.totalScore / endCount).toFixed(1)
       const practiceNumber = practiceOrderMap.get(round.id) ?? orderedRounds.length - index
       const relativeLabel = formatDate(round.createdAt)
       const practiceLabel = relativeLabel === 'Today' ? `Practice #${practiceNumber}` : relativeLabel
       const endsLabel = endCount === 1 ? '1 end' : `${endCount} ends`
+      const arrowsLabel = `${round.shotsPerEnd ?? DEFAULT_SHOTS_PER_END} arrows/end`
+
+      const preset = getRoundPreset(round.presetId)
 
       return {
         id: round.id,
+        roundLabel: preset ? formatPresetScore(preset, round.totalScore) : undefined,
         date: formatFullDate(round.createdAt),
-        details: `${practiceLabel} · ${formatTime(round.createdAt)} · ${endsLabel}`,
+        details: `${practiceLabel} · ${formatTime(round.createdAt)} · ${endsLabel} · ${arrowsLabel}`,
         totalScore: round.totalScore,
         averagePerEnd,
         bestEnd,
+        xCount: round.xCount ?? 0,
+        tenCount: round.tenCount ?? 0,
         notes: round.notes,
+        sessionTags: formatSessionDetails(round.session),
+        isPendingSync: round.pendingSync === true,
       }
     })
   }, [orderedRounds, practiceOrderMap])
 
+  // Personal best for the standard round shot most recently
+  const personalBestLabel = useMemo(() => {
+    const latestPreset = getRoundPreset(orderedRounds.find(round => getRoundPreset(round.presetId))?.presetId)
+    if (!latestPreset) return undefined
+
+    const bestScore = Math.max(
+      ...orderedRounds.filter(round => round.presetId === latestPreset.id).map(round => round.totalScore),
+    )
+    return formatPresetScore(latestPreset, bestScore)
+  }, [orderedRounds])
+
+  const draftSummary = hasDraft
+    ? `In progress · End ${currentEndIndex + 1} of ${currentRound.length} · ${currentRound.reduce(
+        (total, end) => total + end.endScore,
+        0,
+      )} pts`
+    : undefined
+
   const homeView = (
     <div className="home-page">
-      <HomeHeader onRecordNewPractice={() => setView('record')} />
+      <HomeHeader
+        onRecordNewPractice={() => setView('record')}
+        buttonLabel={hasDraft ? 'Resume Practice' : undefined}
+        draftSummary={draftSummary}
+        onDiscardDraft={hasDraft ? handleDiscardDraft : undefined}
+        personalBest={personalBestLabel}
+      />
+
+      {user && guestRounds.length > 0 ? (
+        <GuestImportPrompt
+          roundCount={guestRounds.length}
+          isImporting={isImportingGuestRounds}
+          onImport={handleImportGuestRounds}
+          onDismiss={() => setGuestRounds([])}
+        />
+      ) : null}
 
       {isLoadingRounds ? (
         <PracticePlaceholder title="Loading your sessions…" />
       ) : practiceCards.length === 0 ? (
         <PracticePlaceholder title="No practice sessions yet" subtitle={'Tap "Record New Practice" to get started.'} />
       ) : (
-        <PracticeList cards={practiceCards} />
+        <PracticeList
+          cards={practiceCards}
+          hasMore={hasMoreRoundSummaries}
+          isLoadingMore={isLoadingMoreRoundSummaries}
+          onLoadMore={loadMoreRoundSummaries}
+        />
       )}
     </div>
   )
 
   const recordView = (
     <RecordPage
-      endsPerRoundInput={endsPerRoundInput}
+      presetId={presetId}
+      presetOptions={ROUND_PRESET_OPTIONS}
+      onPresetChange={handlePresetChange}
+      segments={segments}
+      onSegmentsChange={handleSegmentsChange}
+      onAddSegment={handleAddSegment}
+      currentSegmentLabel={
+        currentSegment ? `${formatDistance(currentSegment.distance, currentSegment.distanceUnit)} · ${face.name}` : undefined
+      }
+      endsPerRoundInput={endsPerRoundInput ?? String(endsPerRound)}
       minEnds={MIN_ENDS}
       maxEnds={MAX_ENDS}
       onEndsPerRoundInputChange={handleEndsPerRoundInputChange}
       onEndsPerRoundInputBlur={handleEndsPerRoundInputBlur}
-      canUndoShot={canUndoShot}
-      onUndoShot={handleUndoShot}
+      shotsPerEndInput={shotsPerEndInput ?? String(shotsPerEnd)}
+      minShotsPerEnd={MIN_SHOTS_PER_END}
+      maxShotsPerEnd={MAX_SHOTS_PER_END}
+      onShotsPerEndInputChange={handleShotsPerEndInputChange}
+      onShotsPerEndInputBlur={handleShotsPerEndInputBlur}
+      face={face}
+      faceOptions={TARGET_FACE_OPTIONS}
+      onFaceChange={nextFaceId => dispatchRecording({ type: 'setFace', faceId: nextFaceId })}
+      canChangeRoundSetup={canChangeRoundSetup}
+      canUndo={canUndo}
+      onUndo={handleUndo}
+      undoLabel={undoLabel}
       undoIcon={UndoIcon}
-      ringColors={ringColors}
+      canRedo={canRedo}
+      onRedo={handleRedo}
+      redoLabel={redoLabel}
+      redoIcon={RedoIcon}
       currentRound={currentRound}
       currentEndIndex={currentEndIndex}
       onTargetClick={handleTargetClick}
-      ringCount={RING_COUNT}
+      activeShot={activeShot}
+      draggingShotIndex={placement?.shotIndex ?? null}
+      onTargetPointerDown={handleTargetPointerDown}
+      onShotPointerDown={handleShotPointerDown}
+      onTargetPointerMove={handleTargetPointerMove}
+      onTargetPointerUp={handleTargetPointerUp}
+      onTargetPointerCancel={handleTargetPointerCancel}
+      targetView={targetZoom.view}
+      onResetZoom={targetZoom.resetZoom}
+      entryMode={entryMode}
+      onEntryModeChange={setEntryMode}
+      onScoreEntry={handleScoreEntry}
+      arrowCount={arrowCount}
+      onTagShot={(shotIndex, arrowNumber) => dispatchRecording({ type: 'setShotArrow', shotIndex, arrowNumber })}
       endsPerRound={endsPerRound}
       shotsInCurrentEnd={shotsInCurrentEnd}
-      shotsPerEnd={SHOTS_PER_END}
+      shotsPerEnd={shotsPerEnd}
       onPrimaryActionClick={handlePrimaryActionClick}
       primaryActionDisabled={primaryActionDisabled}
       primaryActionLabel={primaryActionLabel}
       practiceNotes={practiceNotes}
-      onPracticeNotesChange={setPracticeNotes}
-      onSelectEnd={setCurrentEndIndex}
+      onPracticeNotesChange={notes => dispatchRecording({ type: 'setNotes', notes })}
+      equipmentProfiles={equipmentProfiles}
+      equipmentId={equipmentId}
+      onEquipmentChange={nextEquipmentId => dispatchRecording({ type: 'setEquipment', equipmentId: nextEquipmentId })}
+      session={session}
+      onSessionChange={changes =>
+        dispatchRecording({ type: 'setSession', session: updateSessionDetails(session, changes) })
+      }
+      onSelectEnd={endIndex => dispatchRecording({ type: 'selectEnd', endIndex })}
     />
   )
 
   const statsView = (
     <div className="stats-page">
-      <StatsView rounds={rounds} userId={user?.uid ?? ''} onDeleteRound={handleDeleteRound} />
+      <StatsView
+        rounds={rounds}
+        equipmentProfiles={equipmentProfiles}
+        sightRadiusCm={sightRadiusCm}
+        sightClickMm={sightClickMm}
+        sightMarks={sightMarks}
+        userId={userId ?? ''}
+        onDeleteRound={handleDeleteRound}
+        onRoundUpdated={handleRoundUpdated}
+        isLoading={isLoadingStatsRounds}
+        hasMoreRounds={hasMoreRounds}
+        isLoadingMoreRounds={isLoadingMoreRounds}
+        onLoadMoreRounds={loadMoreRounds}
+      />
     </div>
   )
 
@@ -441,7 +1069,31 @@ const App = () => {
       initials={userInitials}
       displayName={userDisplayName}
       email={user?.email}
+      shaftDiameterMm={shaftDiameterMm}
+      maxShaftDiameterMm={MAX_SHAFT_DIAMETER_MM}
+      onShaftDiameterChange={handleShaftDiameterChange}
+      arrowCount={arrowCount}
+      maxArrowCount={MAX_ARROW_COUNT}
+      onArrowCountChange={handleArrowCountChange}
+      equipmentProfiles={equipmentProfiles}
+      onSaveEquipment={handleSaveEquipment}
+      onDeleteEquipment={handleDeleteEquipment}
+      sightRadiusCm={sightRadiusCm}
+      maxSightRadiusCm={MAX_SIGHT_RADIUS_CM}
+      onSightRadiusChange={handleSightRadiusChange}
+      sightClickMm={sightClickMm}
+      maxSightClickMm={MAX_SIGHT_CLICK_MM}
+      onSightClickChange={handleSightClickChange}
+      sightMarks={sightMarks}
+      onRecordSightMark={handleRecordSightMark}
+      onRemoveSightMarkReading={handleRemoveSightMarkReading}
       onSignOut={handleSignOut}
+      linkedProviderIds={linkedProviderIds}
+      onLinkGoogle={handleLinkGoogle}
+      onLinkEmail={handleLinkEmail}
+      onSendSignInLink={sendEmailSignInLink}
+      onUnlinkProvider={handleUnlinkProvider}
+      onSignIn={user ? undefined : handleSignIn}
     />
   )
 
@@ -460,9 +1112,17 @@ const App = () => {
     }
   }
 
-  const signInView = <SignInView onSignIn={handleSignIn} />
+  const signInView = (
+    <SignInView
+      onSignIn={handleSignIn}
+      onEmailSignIn={signInWithEmail}
+      onCreateAccount={createAccountWithEmail}
+      onSendSignInLink={sendEmailSignInLink}
+      onContinueAsGuest={handleContinueAsGuest}
+    />
+  )
 
-  if (!user) {
+  if (!user && !isGuest) {
     return signInView
   }
 
@@ -474,16 +1134,18 @@ const App = () => {
   ]
 
   return (
-    <div className="app-shell app-shell--authenticated">
-      <header className="brand-header">
-        <h1 className="brand-logo">Artemis</h1>
-        <div className="brand-underline" aria-hidden="true" />
-      </header>
-      <main className="app-main">
-        {renderActiveView()}
-      </main>
-      <BottomNav items={navItems} activeKey={view} onSelect={setView} />
-    </div>
+    <RoundRepositoryContext.Provider value={repository}>
+      <div className="app-shell app-shell--authenticated">
+        <header className="brand-header">
+          <h1 className="brand-logo">Artemis</h1>
+          <div className="brand-underline" aria-hidden="true" />
+        </header>
+        <main className="app-main">
+          {renderActiveView()}
+        </main>
+        <BottomNav items={navItems} activeKey={view} onSelect={setView} />
+      </div>
+    </RoundRepositoryContext.Provider>
   )
 }
 
@@ -1,4 +1,5 @@
 import type { End } from '../utils/types'
+import { formatShotValue } from '../utils/helpers'
 
 interface EndSummaryProps {
   currentRound: End[]
@@ -24,6 +25,9 @@ export const EndSummary = ({ currentRound, currentEndIndex, onEndClick }: EndSum
         >
           <span className="end-summary__label">End {index + 1}</span>
           <span className="end-summary__score">{end.endScore}</span>
+          {end.shots.length > 0 && (
+            <span className="end-summary__shots">{end.shots.map(formatShotValue).join(' ')}</span>
+          )}
         </div>
       ))}
     </div>
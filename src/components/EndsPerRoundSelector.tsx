@@ -4,6 +4,7 @@ interface EndsPerRoundSelectorProps {
   maxEnds: number
   onChange: (value: string) => void
   onBlur: () => void
+  disabled?: boolean
 }
 
 export const EndsPerRoundSelector = ({
@@ -12,6 +13,7 @@ export const EndsPerRoundSelector = ({
   maxEnds,
   onChange,
   onBlur,
+  disabled = false,
 }: EndsPerRoundSelectorProps) => {
   return (
     <div className="ends-selector">
@@ -24,6 +26,7 @@ export const EndsPerRoundSelector = ({
         value={value}
         onChange={event => onChange(event.target.value)}
         onBlur={onBlur}
+        disabled={disabled}
         aria-label="Number of ends per round"
       />
       {/* <span className="ends-selector__hint">{minEnds}-{maxEnds}</span> */}
@@ -1,15 +1,6 @@
 import { describe, it, expect, vi } from 'vitest'
-import { render, screen, fireEvent, waitFor } from '@testing-library/react'
-import App from '../App'
-
-// Mock Firestore utilities
-vi.mock('../utils/firestore', () => ({
-  loadRoundsFromFirestore: vi.fn(async () => []),
-  saveRoundToFirestore: vi.fn(async () => {}),
-  saveRoundsToFirestore: vi.fn(async () => {}),
-  updateRoundNotesInFirestore: vi.fn(async () => {}),
-  deleteRoundFromFirestore: vi.fn(async () => {}),
-}))
+import { screen, fireEvent, waitFor } from '@testing-library/react'
+import { renderApp } from '../test/renderApp'
 
 // Mock Firebase
 vi.mock('../firebase', () => ({
@@ -27,16 +18,19 @@ vi.mock('firebase/auth', () => ({
       email: 'test@example.com',
       displayName: 'Test User',
       photoURL: null,
+      providerData: [{ providerId: 'google.com' }],
     })
     return vi.fn() // Return unsubscribe function
   }),
   signInWithPopup: vi.fn(),
+  getRedirectResult: vi.fn(async () => null),
+  isSignInWithEmailLink: vi.fn(() => false),
   signOut: vi.fn(),
 }))
 
 describe('Ends per round input matches end cards displayed', () => {
   it('displays 8 end cards when user enters 8 in ends per round', async () => {
-    render(<App />)
+    renderApp()
 
     const addPracticeButton = await screen.findByText('Record New Practice')
     fireEvent.click(addPracticeButton)
@@ -56,7 +50,7 @@ describe('Ends per round input matches end cards displayed', () => {
   })
 
   it('displays 3 end cards when user enters 3 in ends per round', async () => {
-    render(<App />)
+    renderApp()
 
     const addPracticeButton = await screen.findByText('Record New Practice')
     fireEvent.click(addPracticeButton)
@@ -75,7 +69,7 @@ describe('Ends per round input matches end cards displayed', () => {
   })
 
   it('displays 12 end cards when user enters maximum in the ends per round', async () => {
-    render(<App />)
+    renderApp()
 
     const addPracticeButton = await screen.findByText('Record New Practice')
     fireEvent.click(addPracticeButton)
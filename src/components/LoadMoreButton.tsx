@@ -0,0 +1,18 @@
+import type { FC } from 'react'
+
+interface LoadMoreButtonProps {
+  onLoadMore: () => void
+  isLoading: boolean
+}
+
+export const LoadMoreButton: FC<LoadMoreButtonProps> = ({ onLoadMore, isLoading }) => (
+  <button
+    type="button"
+    className="load-more-button"
+    onClick={onLoadMore}
+    disabled={isLoading}
+    aria-label="Load older practices"
+  >
+    {isLoading ? 'Loading…' : 'Load More'}
+  </button>
+)
@@ -0,0 +1,21 @@
+import type { FC } from 'react'
+
+interface RedoButtonProps {
+  canRedo: boolean
+  onRedo: () => void
+  icon: FC
+  // What will be redone, e.g. "last shot"
+  label?: string
+}
+
+export const RedoButton: FC<RedoButtonProps> = ({ canRedo, onRedo, icon: Icon, label = 'last undo' }) => (
+  <button
+    className="undo-button"
+    onClick={onRedo}
+    disabled={!canRedo}
+    aria-label={`Redo ${label}`}
+  >
+    <Icon />
+    <span>Redo</span>
+  </button>
+)
@@ -0,0 +1,34 @@
+import type { RoundPreset, RoundPresetId } from '../utils/types'
+
+interface RoundPresetSelectorProps {
+  value: RoundPresetId | null
+  presets: RoundPreset[]
+  onChange: (presetId: RoundPresetId | null) => void
+  disabled?: boolean
+}
+
+const CUSTOM_VALUE = 'custom'
+
+export const RoundPresetSelector = ({ value, presets, onChange, disabled = false }: RoundPresetSelectorProps) => {
+  return (
+    <div className="ends-selector">
+      <span className="ends-selector__label">Round</span>
+      <select
+        className="number-input face-selector__select"
+        value={value ?? CUSTOM_VALUE}
+        onChange={event =>
+          onChange(event.target.value === CUSTOM_VALUE ? null : (event.target.value as RoundPresetId))
+        }
+        disabled={disabled}
+        aria-label="Round type"
+      >
+        <option value={CUSTOM_VALUE}>Custom</option>
+        {presets.map(preset => (
+          <option key={preset.id} value={preset.id}>
+            {preset.name} ({preset.ends * preset.shotsPerEnd} arrows, {preset.distance}{preset.distanceUnit})
+          </option>
+        ))}
+      </select>
+    </div>
+  )
+}
@@ -0,0 +1,74 @@
+import { describe, it, expect, vi } from 'vitest'
+import { screen, fireEvent, waitFor } from '@testing-library/react'
+import { renderApp } from '../test/renderApp'
+
+// Mock Firebase
+vi.mock('../firebase', () => ({
+  auth: {},
+  googleProvider: {},
+  db: {},
+  app: {},
+}))
+
+vi.mock('firebase/auth', () => ({
+  onAuthStateChanged: vi.fn((_auth, callback) => {
+    // Call callback synchronously with test user
+    callback({
+      uid: 'test-user-id',
+      email: 'test@example.com',
+      displayName: 'Test User',
+      photoURL: null,
+      providerData: [{ providerId: 'google.com' }],
+    })
+    return vi.fn() // Return unsubscribe function
+  }),
+  signInWithPopup: vi.fn(),
+  getRedirectResult: vi.fn(async () => null),
+  isSignInWithEmailLink: vi.fn(() => false),
+  signOut: vi.fn(),
+}))
+
+describe('Arrows per end input', () => {
+  it('uses the entered arrow count for the current end', async () => {
+    renderApp()
+
+    fireEvent.click(await screen.findByText('Record New Practice'))
+
+    const input = await screen.findByLabelText('Number of arrows per end')
+    fireEvent.change(input, { target: { value: '6' } })
+    fireEvent.blur(input)
+
+    await waitFor(() => {
+      expect(screen.getByText(/Shots taken: 0 \/ 6/i)).toBeDefined()
+    })
+  })
+
+  it('clamps the arrow count to the allowed range', async () => {
+    renderApp()
+
+    fireEvent.click(await screen.findByText('Record New Practice'))
+
+    const input = await screen.findByLabelText('Number of arrows per end')
+    fireEvent.change(input, { target: { value: '40' } })
+    fireEvent.blur(input)
+
+    await waitFor(() => {
+      expect((input as HTMLInputElement).value).toBe('12')
+      expect(screen.getByText(/Shots taken: 0 \/ 12/i)).toBeDefined()
+    })
+  })
+
+  it('locks the arrow count once a shot is placed', async () => {
+    renderApp()
+
+    fireEvent.click(await screen.findByText('Record New Practice'))
+
+    const targetWrapper = document.querySelector('.target-wrapper')!
+    fireEvent.click(targetWrapper, { clientX: 0, clientY: 0 })
+
+    await waitFor(() => {
+      const input = screen.getByLabelText('Number of arrows per end') as HTMLInputElement
+      expect(input.disabled).toBe(true)
+    })
+  })
+})
@@ -0,0 +1,34 @@
+interface ShotsPerEndSelectorProps {
+  value: string
+  minShots: number
+  maxShots: number
+  onChange: (value: string) => void
+  onBlur: () => void
+  disabled?: boolean
+}
+
+export const ShotsPerEndSelector = ({
+  value,
+  minShots,
+  maxShots,
+  onChange,
+  onBlur,
+  disabled = false,
+}: ShotsPerEndSelectorProps) => {
+  return (
+    <div className="ends-selector">
+      <span className="ends-selector__label">Arrows per end</span>
+      <input
+        className="number-input ends-selector__input"
+        type="number"
+        min={minShots}
+        max={maxShots}
+        value={value}
+        onChange={event => onChange(event.target.value)}
+        onBlur={onBlur}
+        disabled={disabled}
+        aria-label="Number of arrows per end"
+      />
+    </div>
+  )
+}
@@ -1,20 +1,56 @@
 import { useEffect, useMemo, useState } from 'react'
-import type { Round } from '../utils/types'
-import { calculateAverage, calculateDistanceFromCenter } from '../utils/helpers'
+import type { EquipmentProfile, Round, SightMark } from '../utils/types'
+import { calculateAverage, calculateDistanceFromCenter, getPositionedShots } from '../utils/helpers'
 import { computeAggregateStats } from '../utils/aggregateStats'
-import { updateRoundNotesInFirestore } from '../utils/firestore'
+import { filterRoundsByDistance, getRoundDistances, getRoundFaceIds } from '../utils/segments'
+import {
+  filterRoundsBySession,
+  formatSessionDetails,
+  getSessionLocations,
+  hasSessionDetails,
+  type SessionFilters,
+} from '../utils/sessionDetails'
+import {
+  applyAggregateFilters,
+  getFilterCandidates,
+  readStatsViewState,
+  removeStatsViewState,
+  writeStatsViewState,
+  type AggregateFilters,
+} from '../utils/aggregateFilters'
+import { queuePendingRound } from '../utils/offlineStore'
+import { DEFAULT_SIGHT_CLICK_MM, DEFAULT_SIGHT_RADIUS_CM } from '../utils/constants'
 import { StatsTabs, type StatsTab } from './stats/StatsTabs'
 import { AggregateControls } from './stats/AggregateControls'
+import { AggregateFilterPanel } from './stats/AggregateFilterPanel'
+import { SessionFilterBar } from './stats/SessionFilterBar'
 import { AggregateTarget } from './stats/AggregateTarget'
+import { ArrowStats } from './stats/ArrowStats'
+import { FatigueChart } from './stats/FatigueChart'
+import { EquipmentComparison } from './stats/EquipmentComparison'
+import { SightAdjustment } from './stats/SightAdjustment'
 import { AggregateSummary } from './stats/AggregateSummary'
 import { HistoryChart, type MetricKey } from './stats/HistoryChart'
 import { PracticeList, type PracticeEntry } from './stats/PracticeList'
 import { DeletePracticeModal } from './stats/DeletePracticeModal'
+import { LoadMoreButton } from './LoadMoreButton'
+import { useRoundRepository } from '../hooks/useRoundRepository'
 
 interface StatsViewProps {
   rounds: Round[]
+  equipmentProfiles?: EquipmentProfile[]
+  // The archer's sight, for turning the group centre into sight clicks
+  sightRadiusCm?: number
+  sightClickMm?: number
+  sightMarks?: SightMark[]
   userId: string
   onDeleteRound: (roundId: string) => Promise<void>
+  // Called with a corrected round once it is stored, so lists can show it straight away
+  onRoundUpdated?: (round: Round) => void
+  isLoading?: boolean
+  hasMoreRounds?: boolean
+  isLoadingMoreRounds?: boolean
+  onLoadMoreRounds?: () => void
 }
 
 const formatDate = (timestamp: string): string => {
@@ -50,6 +86,8 @@ const exportToCSV = (rounds: Round[]) => {
     'Number of Ends',
     'Average Score per End',
     'Best End',
+    '10 Count',
+    'X Count',
     'Average Precision',
     'Notes',
   ]
@@ -73,6 +111,8 @@ const exportToCSV = (rounds: Round[]) => {
       numberOfEnds,
       averagePerEnd,
       bestEnd,
+      round.tenCount ?? 0,
+      round.xCount ?? 0,
       averagePrecision,
       rawNotes ? `"${escapedNotes}"` : '',
     ].join(',')
@@ -102,15 +142,27 @@ type ChartDatum = {
   avgPrecision: number
   totalScore: number
   date: string
+  session?: string
 }
 
-const prepareChartData = (rounds: Round[]): ChartDatum[] => {
+const NO_EQUIPMENT: EquipmentProfile[] = []
+const NO_SIGHT_MARKS: SightMark[] = []
+
+const SHAREABLE_TABS: StatsTab[] = ['aggregate', 'fatigue', 'arrows', 'equipment']
+
+const getInitialViewState = () => {
+  const state = readStatsViewState(window.location.search)
+  const tab = SHAREABLE_TABS.find(option => option === state.tab) ?? 'history'
+  return { ...state, tab }
+}
+
+const prepareChartData = (rounds: Round[], practiceNumbers: Map<string, number>): ChartDatum[] => {
   const clampPerformanceScore = (value: number): number => Math.max(0, Math.min(10, value))
 
   return rounds.map((round, index) => {
     const shots = round.ends.flatMap(end => end.shots)
     const averageScore = calculateAverage(shots.map(shot => shot.score))
-    const averageDistance = calculateAverage(shots.map(shot => calculateDistanceFromCenter(shot)))
+    const averageDistance = calculateAverage(getPositionedShots(shots).map(shot => calculateDistanceFromCenter(shot)))
     const precisions = round.ends.map(end => end.precision).filter(value => value > 0)
     const averagePrecision = calculateAverage(precisions)
 
@@ -118,22 +170,44 @@ const prepareChartData = (rounds: Round[]): ChartDatum[] => {
     const averageDistanceScore = clampPerformanceScore(10 - Number(averageDistance.toFixed(2)))
     const averagePrecisionScore = clampPerformanceScore(10 - Number(averagePrecision.toFixed(2)))
 
+    // Filtered practices keep the numbers they have in the full history
+    const practiceNumber = practiceNumbers.get(round.id) ?? rounds.length - index
+    const sessionTags = formatSessionDetails(round.session)
+
     return {
-      practice: `#${rounds.length - index}`,
-      practiceNumber: rounds.length - index,
+      practice: `#${practiceNumber}`,
+      practiceNumber,
       avgScore: averageScoreRounded,
       avgDistance: averageDistanceScore,
       avgPrecision: averagePrecisionScore,
       totalScore: round.totalScore,
       date: formatDate(round.createdAt),
+      ...(sessionTags.length > 0 && { session: sessionTags.join(' · ') }),
     }
   })
 }
 
-export const StatsView = ({ rounds, userId, onDeleteRound }: StatsViewProps) => {
-  const [activeTab, setActiveTab] = useState<StatsTab>('history')
-  const [range, setRange] = useState(5)
-  const [rangeInput, setRangeInput] = useState('5')
+export const StatsView = ({
+  rounds,
+  equipmentProfiles = NO_EQUIPMENT,
+  sightRadiusCm = DEFAULT_SIGHT_RADIUS_CM,
+  sightClickMm = DEFAULT_SIGHT_CLICK_MM,
+  sightMarks = NO_SIGHT_MARKS,
+  userId,
+  onDeleteRound,
+  onRoundUpdated,
+  isLoading = false,
+  hasMoreRounds = false,
+  isLoadingMoreRounds = false,
+  onLoadMoreRounds,
+}: StatsViewProps) => {
+  const repository = useRoundRepository()
+  // A shared link opens on the view it was copied from
+  const [initialViewState] = useState(getInitialViewState)
+  const [activeTab, setActiveTab] = useState<StatsTab>(initialViewState.tab)
+  const [aggregateFilters, setAggregateFilters] = useState<AggregateFilters>(initialViewState.filters)
+  const [rangeInput, setRangeInput] = useState(String(initialViewState.filters.range))
+  const [sessionFilters, setSessionFilters] = useState<SessionFilters>(initialViewState.session)
   const [highlightedMetrics, setHighlightedMetrics] = useState<Set<MetricKey>>(new Set())
   const [showMetricsInfo, setShowMetricsInfo] = useState(false)
   const [pendingDeleteId, setPendingDeleteId] = useState<string | null>(null)
@@ -168,13 +242,37 @@ export const StatsView = ({ rounds, userId, onDeleteRound }: StatsViewProps) =>
     [rounds],
   )
 
+  const range = aggregateFilters.range
+  const setRange = (value: number) => setAggregateFilters(previous => ({ ...previous, range: value }))
+
   useEffect(() => {
+    // Only clamp once the whole history is known, so a shared range survives paging
+    if (hasMoreRounds || isLoading) {
+      return
+    }
     const maxRange = Math.max(1, sortedRounds.length || 1)
     if (range > maxRange) {
-      setRange(maxRange)
+      setAggregateFilters(previous => ({ ...previous, range: maxRange }))
       setRangeInput(String(maxRange))
     }
-  }, [range, sortedRounds.length])
+  }, [range, sortedRounds.length, hasMoreRounds, isLoading])
+
+  useEffect(() => {
+    const query = writeStatsViewState(window.location.search, {
+      tab: activeTab === 'history' ? null : activeTab,
+      filters: aggregateFilters,
+      session: sessionFilters,
+    })
+    window.history.replaceState(window.history.state, '', `${window.location.pathname}${query}${window.location.hash}`)
+  }, [activeTab, aggregateFilters, sessionFilters])
+
+  useEffect(
+    () => () => {
+      const query = removeStatsViewState(window.location.search)
+      window.history.replaceState(window.history.state, '', `${window.location.pathname}${query}${window.location.hash}`)
+    },
+    [],
+  )
 
   const clampRange = (value: number) => Math.max(1, Math.floor(value))
 
@@ -211,15 +309,33 @@ export const StatsView = ({ rounds, userId, onDeleteRound }: StatsViewProps) =>
     setRangeInput(String(clamped))
   }
 
-  const effectiveRange = Math.max(1, Math.min(range, sortedRounds.length || 1))
+  const hasSessionData = useMemo(() => sortedRounds.some(round => hasSessionDetails(round.session)), [sortedRounds])
+  const sessionLocations = useMemo(() => getSessionLocations(sortedRounds), [sortedRounds])
+  const filteredRounds = useMemo(() => filterRoundsBySession(sortedRounds, sessionFilters), [sortedRounds, sessionFilters])
 
   const selectedRounds = useMemo(
-    () => sortedRounds.slice(0, activeTab === 'aggregate' ? effectiveRange : sortedRounds.length),
-    [sortedRounds, activeTab, effectiveRange],
+    () => (activeTab === 'history' ? filteredRounds : applyAggregateFilters(filteredRounds, aggregateFilters)),
+    [filteredRounds, activeTab, aggregateFilters],
+  )
+  const selectedRoundIds = useMemo(() => new Set(selectedRounds.map(round => round.id)), [selectedRounds])
+
+  const distanceOptions = useMemo(() => getRoundDistances(sortedRounds), [sortedRounds])
+  const distanceFilter = aggregateFilters.distance
+  const activeDistanceFilter = distanceFilter && distanceOptions.includes(distanceFilter) ? distanceFilter : null
+  const faceOptions = useMemo(
+    () => [...new Set(sortedRounds.flatMap(round => getRoundFaceIds(round)))],
+    [sortedRounds],
+  )
+
+  const aggregateRounds = useMemo(
+    () => (activeDistanceFilter ? filterRoundsByDistance(selectedRounds, activeDistanceFilter) : selectedRounds),
+    [selectedRounds, activeDistanceFilter],
   )
 
-  const aggregateStats = useMemo(() => computeAggregateStats(selectedRounds), [selectedRounds])
-  const chartData = useMemo(() => prepareChartData(sortedRounds).reverse(), [sortedRounds])
+  const aggregateStats = useMemo(
+    () => computeAggregateStats(selectedRounds, activeDistanceFilter ?? undefined),
+    [selectedRounds, activeDistanceFilter],
+  )
 
   const practiceNumberLookup = useMemo(() => {
     const lookup = new Map<string, number>()
@@ -229,6 +345,20 @@ export const StatsView = ({ rounds, userId, onDeleteRound }: StatsViewProps) =>
     return lookup
   }, [sortedRounds])
 
+  const chartData = useMemo(
+    () => prepareChartData(filteredRounds, practiceNumberLookup).reverse(),
+    [filteredRounds, practiceNumberLookup],
+  )
+
+  const filterCandidates: PracticeEntry[] = useMemo(
+    () => getFilterCandidates(filteredRounds, aggregateFilters).map(round => ({
+      round,
+      practiceNumber: practiceNumberLookup.get(round.id) ?? 0,
+      formattedDate: formatDate(round.createdAt),
+    })),
+    [filteredRounds, aggregateFilters, practiceNumberLookup],
+  )
+
   const historyEntries: PracticeEntry[] = useMemo(
     () => selectedRounds.map((round, index) => ({
       round,
@@ -293,8 +423,40 @@ export const StatsView = ({ rounds, userId, onDeleteRound }: StatsViewProps) =>
     }
   }
 
+  // Only a page of history is loaded, so the export fetches everything first
+  const handleExport = async () => {
+    if (!hasMoreRounds) {
+      exportToCSV(rounds)
+      return
+    }
+
+    try {
+      exportToCSV(await repository.list(userId))
+    } catch (error) {
+      console.error('Failed to load full history for export:', error)
+      exportToCSV(rounds)
+    }
+  }
+
   const handleSaveNotes = async (roundId: string, notes: string) => {
-    await updateRoundNotesInFirestore(userId, roundId, notes)
+    // Rounds still waiting to upload carry their notes in the local queue
+    const round = sortedRounds.find(entry => entry.id === roundId)
+    if (round?.pendingSync) {
+      await queuePendingRound(userId, { ...round, notes })
+      return
+    }
+
+    await repository.updateNotes(userId, roundId, notes)
+  }
+
+  const handleSaveRound = async (round: Round) => {
+    // Rounds still waiting to upload are corrected in the local queue and uploaded with the fix
+    if (round.pendingSync) {
+      await queuePendingRound(userId, round)
+    } else {
+      await repository.save(userId, round)
+    }
+    onRoundUpdated?.(round)
   }
 
   const pendingDeleteRound = useMemo(
@@ -315,6 +477,14 @@ export const StatsView = ({ rounds, userId, onDeleteRound }: StatsViewProps) =>
     return sortedRounds.length - roundIndex
   }, [pendingDeleteRound, sortedRounds])
 
+  if (rounds.length === 0 && isLoading) {
+    return (
+      <div className="stats-container">
+        <div className="stats-empty">Loading your practices…</div>
+      </div>
+    )
+  }
+
   if (rounds.length === 0) {
     return (
       <div className="stats-container">
@@ -329,17 +499,56 @@ export const StatsView = ({ rounds, userId, onDeleteRound }: StatsViewProps) =>
         <StatsTabs activeTab={activeTab} onTabChange={handleTabChange} />
       </div>
 
-      {activeTab === 'aggregate' ? (
+      {hasSessionData && (
+        <SessionFilterBar filters={sessionFilters} locations={sessionLocations} onChange={setSessionFilters} />
+      )}
+
+      {filteredRounds.length === 0 ? (
+        <div className="stats-empty">No practices match these filters.</div>
+      ) : activeTab !== 'history' ? (
         <div className="stats-aggregate">
           <AggregateControls
             rangeInput={rangeInput}
             onRangeInputChange={handleRangeInputChange}
             onRangeInputBlur={handleRangeInputBlur}
+            distanceOptions={distanceOptions}
+            distanceFilter={activeDistanceFilter}
+            onDistanceFilterChange={distance =>
+              setAggregateFilters(previous => ({ ...previous, distance: distance ?? undefined }))
+            }
           />
 
-          <AggregateTarget rounds={selectedRounds} />
+          <AggregateFilterPanel
+            filters={aggregateFilters}
+            onChange={setAggregateFilters}
+            practices={filterCandidates}
+            selectedIds={selectedRoundIds}
+            faceOptions={faceOptions}
+          />
 
-          <AggregateSummary roundCount={selectedRounds.length} aggregateStats={aggregateStats} />
+          {selectedRounds.length === 0 ? (
+            <div className="stats-empty">No practices match these filters.</div>
+          ) : activeTab === 'fatigue' ? (
+            <FatigueChart rounds={aggregateRounds} isMobile={isMobile} />
+          ) : activeTab === 'arrows' ? (
+            <ArrowStats rounds={aggregateRounds} />
+          ) : activeTab === 'equipment' ? (
+            <EquipmentComparison rounds={aggregateRounds} profiles={equipmentProfiles} />
+          ) : (
+            <>
+              <AggregateTarget rounds={aggregateRounds} />
+
+              <SightAdjustment
+                rounds={aggregateRounds}
+                distanceFilter={activeDistanceFilter}
+                sightRadiusCm={sightRadiusCm}
+                sightClickMm={sightClickMm}
+                sightMarks={sightMarks}
+              />
+
+              <AggregateSummary roundCount={aggregateRounds.length} aggregateStats={aggregateStats} />
+            </>
+          )}
         </div>
       ) : (
         <div className="stats-history">
@@ -356,7 +565,7 @@ export const StatsView = ({ rounds, userId, onDeleteRound }: StatsViewProps) =>
           <div className="stats-chart__actions">
             <button
               className="stats-export-button"
-              onClick={() => exportToCSV(rounds)}
+              onClick={handleExport}
               type="button"
               disabled={rounds.length === 0}
               aria-label="Export statistics to CSV"
@@ -384,9 +593,14 @@ export const StatsView = ({ rounds, userId, onDeleteRound }: StatsViewProps) =>
             entries={historyEntries}
             onRequestDelete={handleRequestDelete}
             onSaveNotes={handleSaveNotes}
+            onSaveRound={handleSaveRound}
             pendingDeleteId={pendingDeleteId}
             isDeleting={isDeleting}
           />
+
+          {hasMoreRounds && onLoadMoreRounds ? (
+            <LoadMoreButton onLoadMore={onLoadMoreRounds} isLoading={isLoadingMoreRounds} />
+          ) : null}
         </div>
       )}
 
@@ -1,63 +1,190 @@
-import type { MouseEvent } from 'react'
-import type { Shot, End } from '../utils/types'
+import type { CSSProperties, MouseEvent, PointerEvent } from 'react'
+import type { Shot, End, TargetFace, TargetView } from '../utils/types'
+import { TARGET_FACE_FRACTION } from '../utils/constants'
+import { DEFAULT_TARGET_VIEW } from '../utils/targetZoom'
+import { getPositionedShots } from '../utils/helpers'
 
 interface TargetProps {
-  ringColors: string[]
+  face: TargetFace
   currentRound: End[]
   currentEndIndex: number
+  // The arrow being placed or dragged; shown with a magnifying loupe above the finger
   activeShot: Shot | null
   onTargetClick: (event: MouseEvent<HTMLDivElement>) => void
-  ringCount: number
+  onPointerDown?: (event: PointerEvent<HTMLDivElement>) => void
+  // When set, arrows in the current end can be dragged
+  onShotPointerDown?: (shotIndex: number, event: PointerEvent<HTMLDivElement>) => void
+  onPointerMove?: (event: PointerEvent<HTMLDivElement>) => void
+  onPointerUp?: (event: PointerEvent<HTMLDivElement>) => void
+  onPointerCancel?: (event: PointerEvent<HTMLDivElement>) => void
+  draggingShotIndex?: number | null
+  // Pinch-zoom and pan applied to the face
+  view?: TargetView
+}
+
+const LOUPE_ZOOM = 3
+// Loupe diameter as a fraction of the face
+const LOUPE_SIZE = 0.45
+
+const isMissPosition = (shot: Shot) => Math.sqrt(shot.x ** 2 + shot.y ** 2) > 1
+
+const getDotPosition = (shot: Shot) => ({
+  left: `${(shot.x + 1) * 50}%`,
+  top: `${(shot.y + 1) * 50}%`,
+})
+
+const TargetRings = ({ face }: { face: TargetFace }) => (
+  <>
+    {face.rings.map(ring => (
+      <div
+        key={ring.score}
+        className="target-ring"
+        style={{
+          backgroundColor: ring.color,
+          width: `${ring.radius * 100}%`,
+          height: `${ring.radius * 100}%`,
+        }}
+      />
+    ))}
+    <div
+      className="target-ring target-ring--x"
+      style={{
+        width: `${face.xRingRadius * 100}%`,
+        height: `${face.xRingRadius * 100}%`,
+      }}
+    />
+  </>
+)
+
+interface TargetLoupeProps {
+  face: TargetFace
+  shots: Shot[]
+  activeShot: Shot
+  view: TargetView
+}
+
+// The loupe sits outside the zoomed face so it keeps its size, and magnifies whatever is on screen
+const TargetLoupe = ({ face, shots, activeShot, view }: TargetLoupeProps) => {
+  // The magnified face, as a percentage of the loupe, shifted so the arrow sits in the middle
+  const faceSize = ((LOUPE_ZOOM * view.scale) / LOUPE_SIZE) * 100
+  const loupeSize = LOUPE_SIZE * TARGET_FACE_FRACTION * 100
+  const toWrapperPercent = (value: number, offset: number) =>
+    `${50 + (offset + value * view.scale) * TARGET_FACE_FRACTION * 50}%`
+  return (
+    <div
+      className="target-loupe"
+      style={{
+        left: toWrapperPercent(activeShot.x, view.x),
+        top: toWrapperPercent(activeShot.y, view.y),
+        width: `${loupeSize}%`,
+        height: `${loupeSize}%`,
+      }}
+      aria-hidden="true"
+    >
+      <div
+        className="target-loupe__face"
+        style={{
+          width: `${faceSize}%`,
+          height: `${faceSize}%`,
+          left: `${50 - ((activeShot.x + 1) / 2) * faceSize}%`,
+          top: `${50 - ((activeShot.y + 1) / 2) * faceSize}%`,
+        }}
+      >
+        <TargetRings face={face} />
+        {shots.map((shot, shotIndex) => (
+          <div
+            key={shotIndex}
+            className={`shot-dot shot-dot--previous ${isMissPosition(shot) ? 'shot-dot--miss' : ''}`}
+            style={getDotPosition(shot)}
+          />
+        ))}
+        <div
+          className={`shot-dot shot-dot--preview ${isMissPosition(activeShot) ? 'shot-dot--miss' : ''}`}
+          style={getDotPosition(activeShot)}
+        />
+      </div>
+    </div>
+  )
 }
 
 export const Target = ({
-  ringColors,
+  face,
   currentRound,
   currentEndIndex,
   activeShot,
   onTargetClick,
-  ringCount,
+  onPointerDown,
+  onShotPointerDown,
+  onPointerMove,
+  onPointerUp,
+  onPointerCancel = onPointerUp,
+  draggingShotIndex = null,
+  view = DEFAULT_TARGET_VIEW,
 }: TargetProps) => {
+  const currentShots = currentRound[currentEndIndex]?.shots ?? []
+
   return (
-    <div className="target-wrapper" onClick={onTargetClick} role="presentation">
-      <div className="target">
-        {ringColors.map((color, index) => (
-          <div
-            key={index}
-            className="target-ring"
-            style={{
-              backgroundColor: color,
-              width: `${100 - (index / ringCount) * 100}%`,
-              height: `${100 - (index / ringCount) * 100}%`,
-            }}
-          />
-        ))}
-        {currentRound.flatMap((end, endIndex) =>
-          end.shots.map((shot, shotIndex) => {
-            const distance = Math.sqrt(shot.x ** 2 + shot.y ** 2)
-            const isMiss = distance > 1
-            return (
-              <div
-                key={`${endIndex}-${shotIndex}`}
-                className={`shot-dot ${endIndex === currentEndIndex ? 'shot-dot--current' : 'shot-dot--previous'} ${isMiss ? 'shot-dot--miss' : ''}`}
-                style={{
-                  left: `${(shot.x + 1) * 50}%`,
-                  top: `${(shot.y + 1) * 50}%`,
-                }}
-              />
-            )
-          }),
-        )}
-        {activeShot && (
-          <div
-            className={`shot-dot shot-dot--preview ${Math.sqrt(activeShot.x ** 2 + activeShot.y ** 2) > 1 ? 'shot-dot--miss' : ''}`}
-            style={{
-              left: `${(activeShot.x + 1) * 50}%`,
-              top: `${(activeShot.y + 1) * 50}%`,
-            }}
-          />
-        )}
+    <div
+      className="target-wrapper"
+      onClick={onTargetClick}
+      onPointerDown={onPointerDown}
+      onPointerMove={onPointerMove}
+      onPointerUp={onPointerUp}
+      onPointerCancel={onPointerCancel}
+      role="presentation"
+    >
+      <div className="target-viewport">
+        <div
+          className="target"
+          style={
+            {
+              transform: `translate(${view.x * 50}%, ${view.y * 50}%) scale(${view.scale})`,
+              // Arrow dots keep their size while the face is zoomed
+              '--target-zoom': view.scale,
+            } as CSSProperties
+          }
+        >
+          <TargetRings face={face} />
+          {currentRound.flatMap((end, endIndex) =>
+            end.shots.map((shot, shotIndex) => {
+              // Score-only arrows have nowhere to be drawn
+              if (shot.isPositionless) {
+                return null
+              }
+
+              const isDraggable = Boolean(onShotPointerDown) && endIndex === currentEndIndex
+              const isDragging = isDraggable && shotIndex === draggingShotIndex
+              // While an arrow is dragged to a new spot, the preview stands in for it
+              if (isDragging && activeShot) {
+                return null
+              }
+
+              return (
+                <div
+                  key={`${endIndex}-${shotIndex}`}
+                  className={`shot-dot ${endIndex === currentEndIndex ? 'shot-dot--current' : 'shot-dot--previous'} ${isMissPosition(shot) ? 'shot-dot--miss' : ''} ${isDraggable ? 'shot-dot--draggable' : ''} ${isDragging ? 'shot-dot--dragging' : ''}`}
+                  style={getDotPosition(shot)}
+                  onPointerDown={isDraggable ? event => onShotPointerDown?.(shotIndex, event) : undefined}
+                />
+              )
+            }),
+          )}
+          {activeShot && (
+            <div
+              className={`shot-dot shot-dot--preview ${isMissPosition(activeShot) ? 'shot-dot--miss' : ''}`}
+              style={getDotPosition(activeShot)}
+            />
+          )}
+        </div>
       </div>
+      {activeShot && (
+        <TargetLoupe
+          face={face}
+          shots={getPositionedShots(currentShots.filter((_, shotIndex) => shotIndex !== draggingShotIndex))}
+          activeShot={activeShot}
+          view={view}
+        />
+      )}
     </div>
   )
 }
@@ -2,6 +2,7 @@ import { describe, it, expect, vi } from 'vitest'
 import { render } from '@testing-library/react'
 import { Target } from './Target'
 import type { End, Shot } from '../utils/types'
+import { DEFAULT_TARGET_FACE } from '../utils/targetFaces'
 
 /**
  * Target Component Description:
@@ -31,8 +32,7 @@ import type { End, Shot } from '../utils/types'
 
 describe('Target Component - Dot Color Tests', () => {
   const mockOnTargetClick = vi.fn()
-  const ringColors = ['#e6d100', '#e4442c', '#23a0d6', '#484239', '#d3c5b3']
-  const ringCount = 10
+  const face = DEFAULT_TARGET_FACE
 
   describe('On-target shots (green dots)', () => {
     it('applies shot-dot--current class for current end shots on target (center shot)', () => {
@@ -44,12 +44,11 @@ describe('Target Component - Dot Color Tests', () => {
 
       const { container } = render(
         <Target
-          ringColors={ringColors}
+          face={face}
           currentRound={[currentEnd]}
           currentEndIndex={0}
           activeShot={null}
           onTargetClick={mockOnTargetClick}
-          ringCount={ringCount}
         />
       )
 
@@ -68,12 +67,11 @@ describe('Target Component - Dot Color Tests', () => {
 
       const { container } = render(
         <Target
-          ringColors={ringColors}
+          face={face}
           currentRound={[currentEnd]}
           currentEndIndex={0}
           activeShot={null}
           onTargetClick={mockOnTargetClick}
-          ringCount={ringCount}
         />
       )
 
@@ -92,12 +90,11 @@ describe('Target Component - Dot Color Tests', () => {
 
       const { container } = render(
         <Target
-          ringColors={ringColors}
+          face={face}
           currentRound={[currentEnd]}
           currentEndIndex={0}
           activeShot={null}
           onTargetClick={mockOnTargetClick}
-          ringCount={ringCount}
         />
       )
 
@@ -121,12 +118,11 @@ describe('Target Component - Dot Color Tests', () => {
 
       const { container } = render(
         <Target
-          ringColors={ringColors}
+          face={face}
           currentRound={[previousEnd, currentEnd]}
           currentEndIndex={1}
           activeShot={null}
           onTargetClick={mockOnTargetClick}
-          ringCount={ringCount}
         />
       )
 
@@ -140,12 +136,11 @@ describe('Target Component - Dot Color Tests', () => {
 
       const { container } = render(
         <Target
-          ringColors={ringColors}
+          face={face}
           currentRound={[{ shots: [], endScore: 0, precision: 0 }]}
           currentEndIndex={0}
           activeShot={activeShot}
           onTargetClick={mockOnTargetClick}
-          ringCount={ringCount}
         />
       )
 
@@ -166,12 +161,11 @@ describe('Target Component - Dot Color Tests', () => {
 
       const { container } = render(
         <Target
-          ringColors={ringColors}
+          face={face}
           currentRound={[currentEnd]}
           currentEndIndex={0}
           activeShot={null}
           onTargetClick={mockOnTargetClick}
-          ringCount={ringCount}
         />
       )
 
@@ -190,12 +184,11 @@ describe('Target Component - Dot Color Tests', () => {
 
       const { container } = render(
         <Target
-          ringColors={ringColors}
+          face={face}
           currentRound={[currentEnd]}
           currentEndIndex={0}
           activeShot={null}
           onTargetClick={mockOnTargetClick}
-          ringCount={ringCount}
         />
       )
 
@@ -219,12 +212,11 @@ describe('Target Component - Dot Color Tests', () => {
 
       const { container } = render(
         <Target
-          ringColors={ringColors}
+          face={face}
           currentRound={[previousEnd, currentEnd]}
           currentEndIndex={1}
           activeShot={null}
           onTargetClick={mockOnTargetClick}
-          ringCount={ringCount}
         />
       )
 
@@ -239,12 +231,11 @@ describe('Target Component - Dot Color Tests', () => {
 
       const { container } = render(
         <Target
-          ringColors={ringColors}
+          face={face}
           currentRound={[{ shots: [], endScore: 0, precision: 0 }]}
           currentEndIndex={0}
           activeShot={activeShot}
           onTargetClick={mockOnTargetClick}
-          ringCount={ringCount}
         />
       )
 
@@ -263,12 +254,11 @@ describe('Target Component - Dot Color Tests', () => {
 
       const { container } = render(
         <Target
-          ringColors={ringColors}
+          face={face}
           currentRound={[currentEnd]}
           currentEndIndex={0}
           activeShot={null}
           onTargetClick={mockOnTargetClick}
-          ringCount={ringCount}
         />
       )
 
@@ -292,12 +282,11 @@ describe('Target Component - Dot Color Tests', () => {
 
       const { container } = render(
         <Target
-          ringColors={ringColors}
+          face={face}
           currentRound={[currentEnd]}
           currentEndIndex={0}
           activeShot={null}
           onTargetClick={mockOnTargetClick}
-          ringCount={ringCount}
         />
       )
 
@@ -330,12 +319,11 @@ describe('Target Component - Dot Color Tests', () => {
 
       const { container } = render(
         <Target
-          ringColors={ringColors}
+          face={face}
           currentRound={ends}
           currentEndIndex={1}
           activeShot={null}
           onTargetClick={mockOnTargetClick}
-          ringCount={ringCount}
         />
       )
 
@@ -359,12 +347,11 @@ describe('Target Component - Dot Color Tests', () => {
 
       const { container } = render(
         <Target
-          ringColors={ringColors}
+          face={face}
           currentRound={[emptyEnd]}
           currentEndIndex={0}
           activeShot={null}
           onTargetClick={mockOnTargetClick}
-          ringCount={ringCount}
         />
       )
 
@@ -382,12 +369,11 @@ describe('Target Component - Dot Color Tests', () => {
       expect(() => {
         render(
           <Target
-            ringColors={ringColors}
+            face={face}
             currentRound={[currentEnd]}
             currentEndIndex={0}
             activeShot={null}
             onTargetClick={mockOnTargetClick}
-            ringCount={ringCount}
           />
         )
       }).not.toThrow()
@@ -403,12 +389,11 @@ describe('Target Component - Dot Color Tests', () => {
 
       const { container } = render(
         <Target
-          ringColors={ringColors}
+          face={face}
           currentRound={[currentEnd]}
           currentEndIndex={0}
           activeShot={null}
           onTargetClick={mockOnTargetClick}
-          ringCount={ringCount}
         />
       )
 
@@ -427,12 +412,11 @@ describe('Target Component - Dot Color Tests', () => {
 
       const { container } = render(
         <Target
-          ringColors={ringColors}
+          face={face}
           currentRound={[currentEnd]}
           currentEndIndex={0}
           activeShot={null}
           onTargetClick={mockOnTargetClick}
-          ringCount={ringCount}
         />
       )
 
@@ -451,12 +435,11 @@ describe('Target Component - Dot Color Tests', () => {
 
       const { container } = render(
         <Target
-          ringColors={ringColors}
+          face={face}
           currentRound={[currentEnd]}
           currentEndIndex={0}
           activeShot={null}
           onTargetClick={mockOnTargetClick}
-          ringCount={ringCount}
         />
       )
 
@@ -475,12 +458,11 @@ describe('Target Component - Dot Color Tests', () => {
 
       const { container } = render(
         <Target
-          ringColors={ringColors}
+          face={face}
           currentRound={[currentEnd]}
           currentEndIndex={0}
           activeShot={null}
           onTargetClick={mockOnTargetClick}
-          ringCount={ringCount}
         />
       )
 
@@ -499,12 +481,11 @@ describe('Target Component - Dot Color Tests', () => {
 
       const { container } = render(
         <Target
-          ringColors={ringColors}
+          face={face}
           currentRound={[currentEnd]}
           currentEndIndex={0}
           activeShot={null}
           onTargetClick={mockOnTargetClick}
-          ringCount={ringCount}
         />
       )
 
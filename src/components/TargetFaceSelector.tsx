@@ -0,0 +1,29 @@
+import type { TargetFace, TargetFaceId } from '../utils/types'
+
+interface TargetFaceSelectorProps {
+  value: TargetFaceId
+  faces: TargetFace[]
+  onChange: (faceId: TargetFaceId) => void
+  disabled?: boolean
+}
+
+export const TargetFaceSelector = ({ value, faces, onChange, disabled = false }: TargetFaceSelectorProps) => {
+  return (
+    <div className="ends-selector">
+      <span className="ends-selector__label">Target face</span>
+      <select
+        className="number-input face-selector__select"
+        value={value}
+        onChange={event => onChange(event.target.value as TargetFaceId)}
+        disabled={disabled}
+        aria-label="Target face"
+      >
+        {faces.map(face => (
+          <option key={face.id} value={face.id}>
+            {face.name}
+          </option>
+        ))}
+      </select>
+    </div>
+  )
+}
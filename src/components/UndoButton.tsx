@@ -4,16 +4,18 @@ interface UndoButtonProps {
   canUndo: boolean
   onUndo: () => void
   icon: FC
+  // What will be undone, e.g. "last shot"
+  label?: string
 }
 
-export const UndoButton: FC<UndoButtonProps> = ({ canUndo, onUndo, icon: Icon }) => (
+export const UndoButton: FC<UndoButtonProps> = ({ canUndo, onUndo, icon: Icon, label = 'last shot' }) => (
   <button
     className="undo-button"
     onClick={onUndo}
     disabled={!canUndo}
-    aria-label="Undo last shot"
+    aria-label={`Undo ${label}`}
   >
     <Icon />
-    <span>Undo Shot</span>
+    <span>Undo</span>
   </button>
 )
@@ -1,15 +1,6 @@
 import { describe, it, expect, vi, beforeEach } from 'vitest'
-import { render, screen, waitFor, fireEvent } from '@testing-library/react'
-import App from '../App'
-
-// Mock Firestore utilities
-vi.mock('../utils/firestore', () => ({
-  loadRoundsFromFirestore: vi.fn(async () => []),
-  saveRoundToFirestore: vi.fn(async () => {}),
-  saveRoundsToFirestore: vi.fn(async () => {}),
-  updateRoundNotesInFirestore: vi.fn(async () => {}),
-  deleteRoundFromFirestore: vi.fn(async () => {}),
-}))
+import { screen, waitFor, fireEvent } from '@testing-library/react'
+import { renderApp } from '../test/renderApp'
 
 // Mock Firebase
 vi.mock('../firebase', () => ({
@@ -27,10 +18,13 @@ vi.mock('firebase/auth', () => ({
       email: 'test@example.com',
       displayName: 'Test User',
       photoURL: null,
+      providerData: [{ providerId: 'google.com' }],
     })
     return vi.fn() // Return unsubscribe function
   }),
   signInWithPopup: vi.fn(),
+  getRedirectResult: vi.fn(async () => null),
+  isSignInWithEmailLink: vi.fn(() => false),
   signOut: vi.fn(),
 }))
 
@@ -41,7 +35,7 @@ describe('Undo button functionality', () => {
 
   it('removes the last shot and decreases the score of the current end when undo button is pressed', async () => {
 
-    render(<App />)
+    renderApp()
 
     const recordButton = await screen.findByText('Record New Practice')
     fireEvent.click(recordButton)
@@ -80,7 +74,7 @@ describe('Undo button functionality', () => {
   })
 
   it('allows user to enter a new shot after undoing at position 2/3 of a current end', async () => {
-    render(<App />)
+    renderApp()
 
     const recordButton = await screen.findByText('Record New Practice')
     fireEvent.click(recordButton)
@@ -0,0 +1,86 @@
+import { useState, type FC, type FormEvent } from 'react'
+import { describeAuthError } from '../../utils/auth'
+
+interface EmailSignInFormProps {
+  onSignIn: (email: string, password: string) => Promise<void>
+  onCreateAccount: (email: string, password: string) => Promise<void>
+  onSendSignInLink: (email: string) => Promise<void>
+}
+
+export const EmailSignInForm: FC<EmailSignInFormProps> = ({ onSignIn, onCreateAccount, onSendSignInLink }) => {
+  const [email, setEmail] = useState('')
+  const [password, setPassword] = useState('')
+  const [message, setMessage] = useState<string | null>(null)
+  const [isSubmitting, setIsSubmitting] = useState(false)
+
+  const run = async (action: () => Promise<void>, successMessage?: string) => {
+    setIsSubmitting(true)
+    setMessage(null)
+    try {
+      await action()
+      if (successMessage) {
+        setMessage(successMessage)
+      }
+    } catch (error) {
+      console.error('Email sign-in failed', error)
+      setMessage(describeAuthError(error))
+    } finally {
+      setIsSubmitting(false)
+    }
+  }
+
+  const handleSubmit = (event: FormEvent<HTMLFormElement>) => {
+    event.preventDefault()
+    void run(() => onSignIn(email, password))
+  }
+
+  return (
+    <form className="email-sign-in" onSubmit={handleSubmit}>
+      <input
+        className="email-sign-in__input"
+        type="email"
+        autoComplete="email"
+        placeholder="Email"
+        aria-label="Email"
+        value={email}
+        onChange={event => setEmail(event.target.value)}
+        required
+      />
+      <input
+        className="email-sign-in__input"
+        type="password"
+        autoComplete="current-password"
+        placeholder="Password"
+        aria-label="Password"
+        value={password}
+        onChange={event => setPassword(event.target.value)}
+      />
+      <div className="email-sign-in__actions">
+        <button type="submit" className="email-sign-in__button" disabled={isSubmitting}>
+          Sign in
+        </button>
+        <button
+          type="button"
+          className="email-sign-in__button email-sign-in__button--secondary"
+          disabled={isSubmitting}
+          onClick={() => void run(() => onCreateAccount(email, password))}
+        >
+          Create account
+        </button>
+      </div>
+      <button
+        type="button"
+        className="email-sign-in__link"
+        disabled={isSubmitting || email.trim() === ''}
+        onClick={() => void run(() => onSendSignInLink(email), `Check ${email.trim()} for a sign-in link.`)}
+      >
+        Email me a sign-in link instead
+      </button>
+      {message ? (
+        <p className="email-sign-in__message" role="status">
+          {message}
+        </p>
+      ) : null}
+    </form>
+  )
+}
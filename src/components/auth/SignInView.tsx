@@ -1,10 +1,21 @@
 import type { FC } from 'react'
+import { EmailSignInForm } from './EmailSignInForm'
 
 interface SignInViewProps {
   onSignIn: () => void
+  onEmailSignIn: (email: string, password: string) => Promise<void>
+  onCreateAccount: (email: string, password: string) => Promise<void>
+  onSendSignInLink: (email: string) => Promise<void>
+  onContinueAsGuest?: () => void
 }
 
-export const SignInView: FC<SignInViewProps> = ({ onSignIn }) => (
+export const SignInView: FC<SignInViewProps> = ({
+  onSignIn,
+  onEmailSignIn,
+  onCreateAccount,
+  onSendSignInLink,
+  onContinueAsGuest,
+}) => (
   <div className="sign-in-shell">
     <div className="sign-in-content">
       <div>
@@ -15,6 +26,17 @@ export const SignInView: FC<SignInViewProps> = ({ onSignIn }) => (
       <button className="sign-in-button" onClick={onSignIn}>
         Sign in With Google
       </button>
+      <p className="sign-in-divider">or use your email</p>
+      <EmailSignInForm
+        onSignIn={onEmailSignIn}
+        onCreateAccount={onCreateAccount}
+        onSendSignInLink={onSendSignInLink}
+      />
+      {onContinueAsGuest ? (
+        <button className="sign-in-guest-button" onClick={onContinueAsGuest}>
+          Try without an account
+        </button>
+      ) : null}
     </div>
   </div>
 )
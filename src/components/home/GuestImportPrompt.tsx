@@ -0,0 +1,30 @@
+import type { FC } from 'react'
+
+interface GuestImportPromptProps {
+  roundCount: number
+  isImporting: boolean
+  onImport: () => void
+  onDismiss: () => void
+}
+
+export const GuestImportPrompt: FC<GuestImportPromptProps> = ({ roundCount, isImporting, onImport, onDismiss }) => (
+  <div className="guest-import">
+    <p className="guest-import__message">
+      {roundCount === 1 ? '1 practice' : `${roundCount} practices`} recorded as a guest{' '}
+      {roundCount === 1 ? 'is' : 'are'} saved on this device.
+    </p>
+    <div className="guest-import__actions">
+      <button type="button" className="guest-import__button" onClick={onImport} disabled={isImporting}>
+        {isImporting ? 'Adding…' : 'Add to my account'}
+      </button>
+      <button
+        type="button"
+        className="guest-import__button guest-import__button--secondary"
+        onClick={onDismiss}
+        disabled={isImporting}
+      >
+        Not now
+      </button>
+    </div>
+  </div>
+)
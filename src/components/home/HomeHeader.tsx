@@ -3,13 +3,33 @@ import type { FC } from 'react'
 interface HomeHeaderProps {
   onRecordNewPractice: () => void
   buttonLabel?: string
+  personalBest?: string
+  draftSummary?: string
+  onDiscardDraft?: () => void
 }
 
-export const HomeHeader: FC<HomeHeaderProps> = ({ onRecordNewPractice, buttonLabel = 'Record New Practice' }) => (
+export const HomeHeader: FC<HomeHeaderProps> = ({
+  onRecordNewPractice,
+  buttonLabel = 'Record New Practice',
+  personalBest,
+  draftSummary,
+  onDiscardDraft,
+}) => (
   <div className="home-page__header">
-    <h2 className="home-section-title">Your Recent Practices</h2>
-    <button type="button" className="home-record-button" onClick={onRecordNewPractice}>
-      {buttonLabel}
-    </button>
+    <div className="home-page__heading">
+      <h2 className="home-section-title">Your Recent Practices</h2>
+      {personalBest ? <p className="home-page__personal-best">Personal best · {personalBest}</p> : null}
+      {draftSummary ? <p className="home-page__draft">{draftSummary}</p> : null}
+    </div>
+    <div className="home-page__actions">
+      <button type="button" className="home-record-button" onClick={onRecordNewPractice}>
+        {buttonLabel}
+      </button>
+      {onDiscardDraft ? (
+        <button type="button" className="home-discard-button" onClick={onDiscardDraft}>
+          Discard
+        </button>
+      ) : null}
+    </div>
   </div>
 )
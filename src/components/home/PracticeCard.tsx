@@ -2,28 +2,53 @@ import type { FC } from 'react'
 
 export interface PracticeCardProps {
   id: string
+  roundLabel?: string
   date: string
   details: string
   totalScore: number
   averagePerEnd: string
   bestEnd: number
+  xCount: number
+  tenCount: number
   notes?: string
+  // Distance, venue, bow class and conditions, already formatted
+  sessionTags?: string[]
+  isPendingSync?: boolean
 }
 
 export const PracticeCard: FC<PracticeCardProps> = ({
+  roundLabel,
   date,
   details,
   totalScore,
   averagePerEnd,
   bestEnd,
+  xCount,
+  tenCount,
   notes,
+  sessionTags = [],
+  isPendingSync = false,
 }) => (
   <article className="home-card">
     <header className="home-card__header">
       <div className="home-card__meta">
+        {roundLabel ? <span className="home-card__round">{roundLabel}</span> : null}
         <span className="home-card__date">{date}</span>
         <span className="home-card__details">{details}</span>
+        {sessionTags.length > 0 ? (
+          <ul className="home-card__tags" aria-label="Session details">
+            {sessionTags.map(tag => (
+              <li key={tag} className="home-card__tag">{tag}</li>
+            ))}
+          </ul>
+        ) : null}
       </div>
+      <span
+        className={`home-card__sync ${isPendingSync ? 'home-card__sync--pending' : 'home-card__sync--synced'}`}
+        title={isPendingSync ? 'Saved on this device and will upload when you are back online' : 'Saved to your account'}
+      >
+        {isPendingSync ? 'Waiting to sync' : 'Synced'}
+      </span>
     </header>
     <div className="home-card__metrics">
       <div className="home-card__metric">
@@ -38,6 +63,10 @@ export const PracticeCard: FC<PracticeCardProps> = ({
         <span className="home-card__metric-label">Best End</span>
         <span className="home-card__metric-value">{bestEnd}</span>
       </div>
+      <div className="home-card__metric">
+        <span className="home-card__metric-label">10s / X</span>
+        <span className="home-card__metric-value">{tenCount} / {xCount}</span>
+      </div>
     </div>
     {notes ? (
       <div className="home-card__notes">
@@ -1,14 +1,19 @@
 import type { FC } from 'react'
 import { PracticeCard, type PracticeCardProps } from './PracticeCard'
+import { LoadMoreButton } from '../LoadMoreButton'
 
 interface PracticeListProps {
   cards: PracticeCardProps[]
+  hasMore?: boolean
+  isLoadingMore?: boolean
+  onLoadMore?: () => void
 }
 
-export const PracticeList: FC<PracticeListProps> = ({ cards }) => (
+export const PracticeList: FC<PracticeListProps> = ({ cards, hasMore = false, isLoadingMore = false, onLoadMore }) => (
   <div className="practice-list">
     {cards.map(card => (
       <PracticeCard key={card.id} {...card} />
     ))}
+    {hasMore && onLoadMore ? <LoadMoreButton onLoadMore={onLoadMore} isLoading={isLoadingMore} /> : null}
   </div>
 )
@@ -0,0 +1,44 @@
+import { useState, type FC } from 'react'
+
+interface ArrowSettingsProps {
+  arrowCount: number
+  maxArrowCount: number
+  onArrowCountChange: (value: number) => void
+}
+
+export const ArrowSettings: FC<ArrowSettingsProps> = ({ arrowCount, maxArrowCount, onArrowCountChange }) => {
+  const [input, setInput] = useState<string | null>(null)
+
+  const handleBlur = () => {
+    const parsed = Number(input)
+    if (input !== null && input !== '' && !Number.isNaN(parsed)) {
+      onArrowCountChange(parsed)
+    }
+    setInput(null)
+  }
+
+  return (
+    <div className="profile-settings">
+      <h3 className="profile-settings__title">Arrows</h3>
+      <label className="ends-selector" htmlFor="arrow-count">
+        <span className="ends-selector__label">Numbered arrows</span>
+        <input
+          id="arrow-count"
+          className="number-input ends-selector__input"
+          type="number"
+          min={0}
+          max={maxArrowCount}
+          step={1}
+          value={input ?? String(arrowCount)}
+          onChange={event => setInput(event.target.value)}
+          onBlur={handleBlur}
+          aria-label="Number of numbered arrows"
+        />
+      </label>
+      <p className="profile-settings__hint">
+        Number your arrows 1 to {arrowCount || 'N'} to tag shots while recording and compare each arrow in Stats. Set
+        to 0 to turn tagging off.
+      </p>
+    </div>
+  )
+}
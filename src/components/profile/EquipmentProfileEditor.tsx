@@ -0,0 +1,131 @@
+import { useState } from 'react'
+import type { BowClass, EquipmentProfile } from '../../utils/types'
+import { BOW_CLASSES } from '../../utils/sessionDetails'
+import {
+  addTuningChange,
+  normalizeEquipmentProfile,
+  removeTuningChange,
+  updateEquipmentProfile,
+} from '../../utils/equipment'
+import { TuningLog } from './TuningLog'
+
+interface EquipmentProfileEditorProps {
+  profile: EquipmentProfile
+  onSave: (profile: EquipmentProfile) => void
+  onDelete: (profileId: string) => void
+}
+
+type ProfileForm = {
+  name: string
+  bowClass: BowClass | ''
+  bow: string
+  arrows: string
+  drawWeightLbs: string
+  braceHeightMm: string
+}
+
+const toForm = (profile: EquipmentProfile): ProfileForm => ({
+  name: profile.name,
+  bowClass: profile.bowClass ?? '',
+  bow: profile.bow ?? '',
+  arrows: profile.arrows ?? '',
+  drawWeightLbs: profile.drawWeightLbs === undefined ? '' : String(profile.drawWeightLbs),
+  braceHeightMm: profile.braceHeightMm === undefined ? '' : String(profile.braceHeightMm),
+})
+
+const parseNumber = (value: string): number | undefined => (value === '' ? undefined : Number(value))
+
+export const EquipmentProfileEditor = ({ profile, onSave, onDelete }: EquipmentProfileEditorProps) => {
+  const [form, setForm] = useState(() => toForm(profile))
+
+  const edited = updateEquipmentProfile(profile, {
+    name: form.name,
+    bowClass: form.bowClass || undefined,
+    bow: form.bow,
+    arrows: form.arrows,
+    drawWeightLbs: parseNumber(form.drawWeightLbs),
+    braceHeightMm: parseNumber(form.braceHeightMm),
+  })
+  const hasChanges = JSON.stringify(edited) !== JSON.stringify(normalizeEquipmentProfile(profile, profile.id))
+
+  const updateForm = (changes: Partial<ProfileForm>) => setForm(previous => ({ ...previous, ...changes }))
+
+  return (
+    <div className="equipment-profile">
+      <div className="equipment-profile__fields">
+        <input
+          className="number-input equipment-profile__name"
+          type="text"
+          value={form.name}
+          onChange={event => updateForm({ name: event.target.value })}
+          aria-label="Profile name"
+        />
+        <select
+          className="number-input"
+          value={form.bowClass}
+          onChange={event => updateForm({ bowClass: event.target.value as BowClass | '' })}
+          aria-label={`${profile.name} bow class`}
+        >
+          <option value="">Bow class</option>
+          {BOW_CLASSES.map(option => (
+            <option key={option.value} value={option.value}>{option.label}</option>
+          ))}
+        </select>
+        <input
+          className="number-input"
+          type="text"
+          placeholder="Bow (riser, limbs, sight)"
+          value={form.bow}
+          onChange={event => updateForm({ bow: event.target.value })}
+          aria-label={`${profile.name} bow`}
+        />
+        <input
+          className="number-input"
+          type="text"
+          placeholder="Arrows (shaft, spine, points)"
+          value={form.arrows}
+          onChange={event => updateForm({ arrows: event.target.value })}
+          aria-label={`${profile.name} arrows`}
+        />
+        <div className="equipment-profile__row">
+          <input
+            className="number-input"
+            type="number"
+            min={0}
+            step={0.5}
+            placeholder="Draw weight (lbs)"
+            value={form.drawWeightLbs}
+            onChange={event => updateForm({ drawWeightLbs: event.target.value })}
+            aria-label={`${profile.name} draw weight in pounds`}
+          />
+          <input
+            className="number-input"
+            type="number"
+            min={0}
+            step={0.5}
+            placeholder="Brace height (mm)"
+            value={form.braceHeightMm}
+            onChange={event => updateForm({ braceHeightMm: event.target.value })}
+            aria-label={`${profile.name} brace height in millimetres`}
+          />
+        </div>
+      </div>
+
+      <div className="equipment-profile__actions">
+        <button type="button" className="equipment-profile__save" onClick={() => onSave(edited)} disabled={!hasChanges}>
+          Save
+        </button>
+        <button type="button" className="equipment-profile__delete" onClick={() => onDelete(profile.id)}>
+          Delete
+        </button>
+      </div>
+
+      <TuningLog
+        profileName={profile.name}
+        changes={profile.tuningLog}
+        onAddChange={(date, description) => onSave(addTuningChange(profile, date, description))}
+        onRemoveChange={changeId => onSave(removeTuningChange(profile, changeId))}
+      />
+    </div>
+  )
+}
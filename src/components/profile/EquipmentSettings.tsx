@@ -0,0 +1,50 @@
+import { useState, type FC } from 'react'
+import type { EquipmentProfile } from '../../utils/types'
+import { createEquipmentProfile } from '../../utils/equipment'
+import { EquipmentProfileEditor } from './EquipmentProfileEditor'
+
+interface EquipmentSettingsProps {
+  profiles: EquipmentProfile[]
+  onSaveProfile: (profile: EquipmentProfile) => void
+  onDeleteProfile: (profileId: string) => void
+}
+
+export const EquipmentSettings: FC<EquipmentSettingsProps> = ({ profiles, onSaveProfile, onDeleteProfile }) => {
+  const [newName, setNewName] = useState('')
+
+  const handleAdd = () => {
+    onSaveProfile(createEquipmentProfile(newName))
+    setNewName('')
+  }
+
+  return (
+    <div className="profile-settings">
+      <h3 className="profile-settings__title">Equipment</h3>
+      {profiles.map(profile => (
+        <EquipmentProfileEditor
+          key={profile.id}
+          profile={profile}
+          onSave={onSaveProfile}
+          onDelete={onDeleteProfile}
+        />
+      ))}
+      <div className="equipment-profile__row">
+        <input
+          className="number-input equipment-profile__name"
+          type="text"
+          placeholder="e.g. Indoor recurve"
+          value={newName}
+          onChange={event => setNewName(event.target.value)}
+          aria-label="New equipment profile name"
+        />
+        <button type="button" className="equipment-profile__save" onClick={handleAdd}>
+          Add profile
+        </button>
+      </div>
+      <p className="profile-settings__hint">
+        Pick a profile while recording to compare your scores across setups in Stats. Log tuning changes to see how
+        you've shot since.
+      </p>
+    </div>
+  )
+}
@@ -0,0 +1,131 @@
+import { useState, type FC, type FormEvent } from 'react'
+import { GOOGLE_PROVIDER_ID, PASSWORD_PROVIDER_ID, describeAuthError } from '../../utils/auth'
+
+interface LinkedAccountsProps {
+  linkedProviderIds: string[]
+  onLinkGoogle: () => Promise<void>
+  onLinkEmail: (email: string, password: string) => Promise<void>
+  onSendSignInLink: (email: string) => Promise<void>
+  onUnlink: (providerId: string) => Promise<void>
+}
+
+const PROVIDER_LABELS: Record<string, string> = {
+  [GOOGLE_PROVIDER_ID]: 'Google',
+  [PASSWORD_PROVIDER_ID]: 'Email',
+}
+
+export const LinkedAccounts: FC<LinkedAccountsProps> = ({
+  linkedProviderIds,
+  onLinkGoogle,
+  onLinkEmail,
+  onSendSignInLink,
+  onUnlink,
+}) => {
+  const [email, setEmail] = useState('')
+  const [password, setPassword] = useState('')
+  const [message, setMessage] = useState<string | null>(null)
+  const [isWorking, setIsWorking] = useState(false)
+
+  const hasGoogle = linkedProviderIds.includes(GOOGLE_PROVIDER_ID)
+  const hasEmail = linkedProviderIds.includes(PASSWORD_PROVIDER_ID)
+  // Keep at least one way back into the account
+  const canUnlink = linkedProviderIds.length > 1
+
+  const run = async (action: () => Promise<void>, successMessage: string) => {
+    setIsWorking(true)
+    setMessage(null)
+    try {
+      await action()
+      setMessage(successMessage)
+    } catch (error) {
+      console.error('Failed to update sign-in methods', error)
+      setMessage(describeAuthError(error))
+    } finally {
+      setIsWorking(false)
+    }
+  }
+
+  const handleLinkEmail = (event: FormEvent<HTMLFormElement>) => {
+    event.preventDefault()
+    void run(async () => {
+      await onLinkEmail(email, password)
+      setPassword('')
+    }, 'Email sign-in added.')
+  }
+
+  return (
+    <div className="profile-settings">
+      <h3 className="profile-settings__title">Sign-in methods</h3>
+      <ul className="linked-accounts">
+        {linkedProviderIds.map(providerId => (
+          <li key={providerId} className="linked-accounts__item">
+            <span>{PROVIDER_LABELS[providerId] ?? providerId}</span>
+            {canUnlink ? (
+              <button
+                type="button"
+                className="linked-accounts__button linked-accounts__button--secondary"
+                disabled={isWorking}
+                onClick={() => void run(() => onUnlink(providerId), 'Sign-in method removed.')}
+              >
+                Remove
+              </button>
+            ) : null}
+          </li>
+        ))}
+      </ul>
+      {hasGoogle ? null : (
+        <button
+          type="button"
+          className="linked-accounts__button"
+          disabled={isWorking}
+          onClick={() => void run(onLinkGoogle, 'Google sign-in added.')}
+        >
+          Connect Google
+        </button>
+      )}
+      {hasEmail ? null : (
+        <form className="linked-accounts__form" onSubmit={handleLinkEmail}>
+          <input
+            className="email-sign-in__input"
+            type="email"
+            autoComplete="email"
+            placeholder="Email"
+            aria-label="Email to link"
+            value={email}
+            onChange={event => setEmail(event.target.value)}
+            required
+          />
+          <input
+            className="email-sign-in__input"
+            type="password"
+            autoComplete="new-password"
+            placeholder="Password"
+            aria-label="Password to link"
+            value={password}
+            onChange={event => setPassword(event.target.value)}
+          />
+          <div className="email-sign-in__actions">
+            <button type="submit" className="linked-accounts__button" disabled={isWorking}>
+              Add email
+            </button>
+            <button
+              type="button"
+              className="linked-accounts__button linked-accounts__button--secondary"
+              disabled={isWorking || email.trim() === ''}
+              onClick={() =>
+                void run(() => onSendSignInLink(email), `Open the link sent to ${email.trim()} on this device.`)
+              }
+            >
+              Send link
+            </button>
+          </div>
+        </form>
+      )}
+      {message ? (
+        <p className="profile-settings__hint" role="status">
+          {message}
+        </p>
+      ) : null}
+    </div>
+  )
+}
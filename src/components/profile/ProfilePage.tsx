@@ -1,21 +1,122 @@
 import type { FC } from 'react'
+import type { DistanceUnit, EquipmentProfile, SightMark, SightMarkReading } from '../../utils/types'
+import { ScoringSettings } from './ScoringSettings'
+import { LinkedAccounts } from './LinkedAccounts'
+import { ArrowSettings } from './ArrowSettings'
+import { EquipmentSettings } from './EquipmentSettings'
+import { SightSettings } from './SightSettings'
+import { SightMarkTable } from './SightMarkTable'
 
 interface ProfilePageProps {
   initials: string
   displayName: string
   email?: string | null
+  shaftDiameterMm: number
+  maxShaftDiameterMm: number
+  onShaftDiameterChange: (value: number) => void
+  arrowCount: number
+  maxArrowCount: number
+  onArrowCountChange: (value: number) => void
+  equipmentProfiles: EquipmentProfile[]
+  onSaveEquipment: (profile: EquipmentProfile) => void
+  onDeleteEquipment: (profileId: string) => void
+  sightRadiusCm: number
+  maxSightRadiusCm: number
+  onSightRadiusChange: (value: number) => void
+  sightClickMm: number
+  maxSightClickMm: number
+  onSightClickChange: (value: number) => void
+  sightMarks: SightMark[]
+  onRecordSightMark: (distance: number, distanceUnit: DistanceUnit, reading: Omit<SightMarkReading, 'id'>) => void
+  onRemoveSightMarkReading: (key: string, readingId: string) => void
+  linkedProviderIds: string[]
+  onLinkGoogle: () => Promise<void>
+  onLinkEmail: (email: string, password: string) => Promise<void>
+  onSendSignInLink: (email: string) => Promise<void>
+  onUnlinkProvider: (providerId: string) => Promise<void>
   onSignOut: () => void
+  // Shown instead of signing out while practicing as a guest
+  onSignIn?: () => void
 }
 
-export const ProfilePage: FC<ProfilePageProps> = ({ initials, displayName, email, onSignOut }) => (
+export const ProfilePage: FC<ProfilePageProps> = ({
+  initials,
+  displayName,
+  email,
+  shaftDiameterMm,
+  maxShaftDiameterMm,
+  onShaftDiameterChange,
+  arrowCount,
+  maxArrowCount,
+  onArrowCountChange,
+  equipmentProfiles,
+  onSaveEquipment,
+  onDeleteEquipment,
+  sightRadiusCm,
+  maxSightRadiusCm,
+  onSightRadiusChange,
+  sightClickMm,
+  maxSightClickMm,
+  onSightClickChange,
+  sightMarks,
+  onRecordSightMark,
+  onRemoveSightMarkReading,
+  linkedProviderIds,
+  onLinkGoogle,
+  onLinkEmail,
+  onSendSignInLink,
+  onUnlinkProvider,
+  onSignOut,
+  onSignIn,
+}) => (
   <div className="profile-page">
     <div className="profile-card">
       <div className="profile-card__avatar" aria-hidden="true">{initials}</div>
       <h2 className="profile-card__name">{displayName}</h2>
       {email ? <p className="profile-card__email">{email}</p> : null}
     </div>
-    <button type="button" className="profile-signout-button" onClick={onSignOut}>
-      Sign Out
-    </button>
+    <ScoringSettings
+      shaftDiameterMm={shaftDiameterMm}
+      maxShaftDiameterMm={maxShaftDiameterMm}
+      onShaftDiameterChange={onShaftDiameterChange}
+    />
+    <ArrowSettings arrowCount={arrowCount} maxArrowCount={maxArrowCount} onArrowCountChange={onArrowCountChange} />
+    <EquipmentSettings
+      profiles={equipmentProfiles}
+      onSaveProfile={onSaveEquipment}
+      onDeleteProfile={onDeleteEquipment}
+    />
+    <SightSettings
+      sightRadiusCm={sightRadiusCm}
+      maxSightRadiusCm={maxSightRadiusCm}
+      onSightRadiusChange={onSightRadiusChange}
+      sightClickMm={sightClickMm}
+      maxSightClickMm={maxSightClickMm}
+      onSightClickChange={onSightClickChange}
+    />
+    <SightMarkTable marks={sightMarks} onRecordMark={onRecordSightMark} onRemoveReading={onRemoveSightMarkReading} />
+    {onSignIn ? null : (
+      <LinkedAccounts
+        linkedProviderIds={linkedProviderIds}
+        onLinkGoogle={onLinkGoogle}
+        onLinkEmail={onLinkEmail}
+        onSendSignInLink={onSendSignInLink}
+        onUnlink={onUnlinkProvider}
+      />
+    )}
+    {onSignIn ? (
+      <>
+        <p className="profile-guest-note">
+          Practices are saved on this device only. Sign in to keep them in your account.
+        </p>
+        <button type="button" className="profile-signout-button" onClick={onSignIn}>
+          Sign in With Google
+        </button>
+      </>
+    ) : (
+      <button type="button" className="profile-signout-button" onClick={onSignOut}>
+        Sign Out
+      </button>
+    )}
   </div>
 )
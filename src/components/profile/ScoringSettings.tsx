@@ -0,0 +1,47 @@
+import { useState, type FC } from 'react'
+
+interface ScoringSettingsProps {
+  shaftDiameterMm: number
+  maxShaftDiameterMm: number
+  onShaftDiameterChange: (value: number) => void
+}
+
+export const ScoringSettings: FC<ScoringSettingsProps> = ({
+  shaftDiameterMm,
+  maxShaftDiameterMm,
+  onShaftDiameterChange,
+}) => {
+  const [input, setInput] = useState<string | null>(null)
+
+  const handleBlur = () => {
+    const parsed = Number(input)
+    if (input !== null && input !== '' && !Number.isNaN(parsed)) {
+      onShaftDiameterChange(parsed)
+    }
+    setInput(null)
+  }
+
+  return (
+    <div className="profile-settings">
+      <h3 className="profile-settings__title">Scoring</h3>
+      <label className="ends-selector" htmlFor="shaft-diameter">
+        <span className="ends-selector__label">Arrow shaft (mm)</span>
+        <input
+          id="shaft-diameter"
+          className="number-input ends-selector__input"
+          type="number"
+          min={0}
+          max={maxShaftDiameterMm}
+          step={0.1}
+          value={input ?? String(shaftDiameterMm)}
+          onChange={event => setInput(event.target.value)}
+          onBlur={handleBlur}
+          aria-label="Arrow shaft diameter in millimetres"
+        />
+      </label>
+      <p className="profile-settings__hint">
+        Shots whose shaft touches a ring line score the higher ring. Set to 0 to score the exact tap point.
+      </p>
+    </div>
+  )
+}
@@ -0,0 +1,170 @@
+import { useState, type FC } from 'react'
+import type { DistanceUnit, SightMark, SightMarkReading } from '../../utils/types'
+import { getCurrentSightMark, getSightMarkKey } from '../../utils/sightMarks'
+import { toLocalDateKey } from '../../utils/helpers'
+
+interface SightMarkTableProps {
+  marks: SightMark[]
+  onRecordMark: (distance: number, distanceUnit: DistanceUnit, reading: Omit<SightMarkReading, 'id'>) => void
+  onRemoveReading: (key: string, readingId: string) => void
+}
+
+const DISTANCE_UNITS: DistanceUnit[] = ['m', 'yd']
+
+type MarkForm = {
+  distance: string
+  distanceUnit: DistanceUnit
+  elevation: string
+  windage: string
+  note: string
+}
+
+const EMPTY_FORM: MarkForm = { distance: '', distanceUnit: 'm', elevation: '', windage: '0', note: '' }
+
+const parseNumber = (value: string): number | null => {
+  const parsed = Number(value)
+  return value.trim() === '' || Number.isNaN(parsed) ? null : parsed
+}
+
+export const SightMarkTable: FC<SightMarkTableProps> = ({ marks, onRecordMark, onRemoveReading }) => {
+  const [form, setForm] = useState<MarkForm>(EMPTY_FORM)
+  const [expandedKey, setExpandedKey] = useState<string | null>(null)
+
+  const distance = parseNumber(form.distance)
+  const elevation = parseNumber(form.elevation)
+  const windage = parseNumber(form.windage)
+  const canRecord = distance !== null && distance > 0 && elevation !== null && windage !== null
+
+  const handleRecord = () => {
+    if (!canRecord) {
+      return
+    }
+    onRecordMark(distance, form.distanceUnit, {
+      date: toLocalDateKey(new Date().toISOString()),
+      elevation,
+      windage,
+      note: form.note,
+    })
+    setForm({ ...EMPTY_FORM, distanceUnit: form.distanceUnit })
+  }
+
+  const updateForm = (changes: Partial<MarkForm>) => setForm(previous => ({ ...previous, ...changes }))
+
+  return (
+    <div className="profile-settings">
+      <h3 className="profile-settings__title">Sight Marks</h3>
+      {marks.length > 0 ? (
+        <table className="sight-marks">
+          <thead>
+            <tr>
+              <th scope="col">Distance</th>
+              <th scope="col">Elevation</th>
+              <th scope="col">Windage</th>
+              <th scope="col">Set</th>
+            </tr>
+          </thead>
+          <tbody>
+            {marks.map(mark => {
+              const key = getSightMarkKey(mark)
+              const current = getCurrentSightMark(mark)
+              const isExpanded = expandedKey === key
+              return [
+                <tr key={key} className="sight-marks__row">
+                  <th scope="row">
+                    <button
+                      type="button"
+                      className="sight-marks__toggle"
+                      onClick={() => setExpandedKey(isExpanded ? null : key)}
+                      aria-expanded={isExpanded}
+                    >
+                      {key}
+                    </button>
+                  </th>
+                  <td>{current?.elevation}</td>
+                  <td>{current?.windage}</td>
+                  <td>{current?.date}</td>
+                </tr>,
+                ...(isExpanded
+                  ? [...mark.history].reverse().map(reading => (
+                      <tr key={reading.id} className="sight-marks__history">
+                        <td>{reading.note ?? ''}</td>
+                        <td>{reading.elevation}</td>
+                        <td>{reading.windage}</td>
+                        <td>
+                          {reading.date}
+                          <button
+                            type="button"
+                            className="sight-marks__remove"
+                            onClick={() => onRemoveReading(key, reading.id)}
+                            aria-label={`Remove ${key} sight mark from ${reading.date}`}
+                          >
+                            ×
+                          </button>
+                        </td>
+                      </tr>
+                    ))
+                  : []),
+              ]
+            })}
+          </tbody>
+        </table>
+      ) : null}
+
+      <div className="sight-marks__form">
+        <input
+          className="number-input sight-marks__distance"
+          type="number"
+          min={1}
+          placeholder="Distance"
+          value={form.distance}
+          onChange={event => updateForm({ distance: event.target.value })}
+          aria-label="Sight mark distance"
+        />
+        <select
+          className="number-input sight-marks__unit"
+          value={form.distanceUnit}
+          onChange={event => updateForm({ distanceUnit: event.target.value as DistanceUnit })}
+          aria-label="Sight mark distance unit"
+        >
+          {DISTANCE_UNITS.map(unit => (
+            <option key={unit} value={unit}>{unit}</option>
+          ))}
+        </select>
+        <input
+          className="number-input"
+          type="number"
+          step={0.1}
+          placeholder="Elevation"
+          value={form.elevation}
+          onChange={event => updateForm({ elevation: event.target.value })}
+          aria-label="Elevation reading"
+        />
+        <input
+          className="number-input"
+          type="number"
+          step={0.1}
+          placeholder="Windage"
+          value={form.windage}
+          onChange={event => updateForm({ windage: event.target.value })}
+          aria-label="Windage reading"
+        />
+      </div>
+      <div className="sight-marks__form">
+        <input
+          className="number-input sight-marks__note"
+          type="text"
+          placeholder="Note (optional)"
+          value={form.note}
+          onChange={event => updateForm({ note: event.target.value })}
+          aria-label="Sight mark note"
+        />
+        <button type="button" className="equipment-profile__save" onClick={handleRecord} disabled={!canRecord}>
+          Record mark
+        </button>
+      </div>
+      <p className="profile-settings__hint">
+        Record the readings from your sight's scale. Tap a distance to see its earlier marks.
+      </p>
+    </div>
+  )
+}
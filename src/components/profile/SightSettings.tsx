@@ -0,0 +1,75 @@
+import { useState, type FC } from 'react'
+
+interface SightSettingsProps {
+  sightRadiusCm: number
+  maxSightRadiusCm: number
+  onSightRadiusChange: (value: number) => void
+  sightClickMm: number
+  maxSightClickMm: number
+  onSightClickChange: (value: number) => void
+}
+
+export const SightSettings: FC<SightSettingsProps> = ({
+  sightRadiusCm,
+  maxSightRadiusCm,
+  onSightRadiusChange,
+  sightClickMm,
+  maxSightClickMm,
+  onSightClickChange,
+}) => {
+  const [radiusInput, setRadiusInput] = useState<string | null>(null)
+  const [clickInput, setClickInput] = useState<string | null>(null)
+
+  const commit = (input: string | null, onChange: (value: number) => void) => {
+    const parsed = Number(input)
+    if (input !== null && input !== '' && !Number.isNaN(parsed)) {
+      onChange(parsed)
+    }
+  }
+
+  return (
+    <div className="profile-settings">
+      <h3 className="profile-settings__title">Sight</h3>
+      <label className="ends-selector" htmlFor="sight-radius">
+        <span className="ends-selector__label">Sight radius (cm)</span>
+        <input
+          id="sight-radius"
+          className="number-input ends-selector__input"
+          type="number"
+          min={0}
+          max={maxSightRadiusCm}
+          step={1}
+          value={radiusInput ?? String(sightRadiusCm)}
+          onChange={event => setRadiusInput(event.target.value)}
+          onBlur={() => {
+            commit(radiusInput, onSightRadiusChange)
+            setRadiusInput(null)
+          }}
+          aria-label="Distance from eye to sight aperture in centimetres"
+        />
+      </label>
+      <label className="ends-selector" htmlFor="sight-click">
+        <span className="ends-selector__label">Click size (mm)</span>
+        <input
+          id="sight-click"
+          className="number-input ends-selector__input"
+          type="number"
+          min={0}
+          max={maxSightClickMm}
+          step={0.05}
+          value={clickInput ?? String(sightClickMm)}
+          onChange={event => setClickInput(event.target.value)}
+          onBlur={() => {
+            commit(clickInput, onSightClickChange)
+            setClickInput(null)
+          }}
+          aria-label="Aperture travel per sight click in millimetres"
+        />
+      </label>
+      <p className="profile-settings__hint">
+        Measure the sight radius from your eye to the aperture at full draw. Stats uses both to turn your group's
+        offset into sight clicks.
+      </p>
+    </div>
+  )
+}
@@ -0,0 +1,77 @@
+import { useState } from 'react'
+import type { TuningChange } from '../../utils/types'
+import { toLocalDateKey } from '../../utils/helpers'
+
+interface TuningLogProps {
+  profileName: string
+  changes: TuningChange[]
+  onAddChange: (date: string, description: string) => void
+  onRemoveChange: (changeId: string) => void
+}
+
+export const TuningLog = ({ profileName, changes, onAddChange, onRemoveChange }: TuningLogProps) => {
+  const [date, setDate] = useState(() => toLocalDateKey(new Date().toISOString()))
+  const [description, setDescription] = useState('')
+
+  const handleAdd = () => {
+    if (!date || description.trim() === '') {
+      return
+    }
+    onAddChange(date, description)
+    setDescription('')
+  }
+
+  return (
+    <div className="tuning-log">
+      <span className="ends-selector__label">Tuning log</span>
+      <div className="tuning-log__form">
+        <input
+          className="number-input tuning-log__date"
+          type="date"
+          value={date}
+          onChange={event => setDate(event.target.value)}
+          aria-label={`Date of ${profileName} tuning change`}
+        />
+        <input
+          className="number-input tuning-log__description"
+          type="text"
+          placeholder="e.g. Brace height to 22.5cm"
+          value={description}
+          onChange={event => setDescription(event.target.value)}
+          onKeyDown={event => {
+            if (event.key === 'Enter') {
+              handleAdd()
+            }
+          }}
+          aria-label={`${profileName} tuning change`}
+        />
+        <button
+          type="button"
+          className="tuning-log__add"
+          onClick={handleAdd}
+          disabled={!date || description.trim() === ''}
+        >
+          Log
+        </button>
+      </div>
+      {changes.length > 0 ? (
+        <ul className="tuning-log__list">
+          {[...changes].reverse().map(change => (
+            <li key={change.id} className="tuning-log__entry">
+              <span className="tuning-log__entry-date">{change.date}</span>
+              <span className="tuning-log__entry-text">{change.description}</span>
+              <button
+                type="button"
+                className="tuning-log__remove"
+                onClick={() => onRemoveChange(change.id)}
+                aria-label={`Remove tuning change from ${change.date}`}
+              >
+                ×
+              </button>
+            </li>
+          ))}
+        </ul>
+      ) : null}
+    </div>
+  )
+}
@@ -0,0 +1,39 @@
+import type { Shot } from '../../utils/types'
+import { formatShotValue } from '../../utils/helpers'
+
+interface ArrowTaggerProps {
+  shots: Shot[]
+  arrowCount: number
+  onTagShot: (shotIndex: number, arrowNumber: number | null) => void
+}
+
+/**
+ * Lets the archer note which numbered arrow made each shot in the current end. Tagging is optional.
+ */
+export const ArrowTagger = ({ shots, arrowCount, onTagShot }: ArrowTaggerProps) => (
+  <div className="arrow-tagger">
+    <p className="arrow-tagger__title">Arrow numbers</p>
+    <ul className="arrow-tagger__list">
+      {shots.map((shot, shotIndex) => (
+        <li key={shotIndex} className="arrow-tagger__row">
+          <span className="arrow-tagger__shot">
+            Shot {shotIndex + 1} · {formatShotValue(shot)}
+          </span>
+          <select
+            className="number-input arrow-tagger__select"
+            value={shot.arrowNumber ?? ''}
+            onChange={event => onTagShot(shotIndex, event.target.value ? Number(event.target.value) : null)}
+            aria-label={`Arrow number for shot ${shotIndex + 1}`}
+          >
+            <option value="">No arrow</option>
+            {Array.from({ length: arrowCount }, (_, index) => (
+              <option key={index + 1} value={index + 1}>
+                Arrow {index + 1}
+              </option>
+            ))}
+          </select>
+        </li>
+      ))}
+    </ul>
+  </div>
+)
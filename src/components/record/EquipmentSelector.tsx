@@ -0,0 +1,26 @@
+import type { EquipmentProfile } from '../../utils/types'
+
+interface EquipmentSelectorProps {
+  profiles: EquipmentProfile[]
+  value: string | null
+  onChange: (profileId: string | null) => void
+}
+
+export const EquipmentSelector = ({ profiles, value, onChange }: EquipmentSelectorProps) => (
+  <div className="ends-selector">
+    <span className="ends-selector__label">Equipment</span>
+    <select
+      className="number-input face-selector__select"
+      value={value && profiles.some(profile => profile.id === value) ? value : ''}
+      onChange={event => onChange(event.target.value || null)}
+      aria-label="Equipment profile"
+    >
+      <option value="">No profile</option>
+      {profiles.map(profile => (
+        <option key={profile.id} value={profile.id}>
+          {profile.name}
+        </option>
+      ))}
+    </select>
+  </div>
+)
@@ -1,24 +1,80 @@
-import type { FC, MouseEvent } from 'react'
-import type { End, Shot } from '../../utils/types'
+import type { FC, MouseEvent, PointerEvent } from 'react'
+import type {
+  End,
+  EquipmentProfile,
+  RoundPreset,
+  RoundPresetId,
+  RoundSegment,
+  ScoreEntryMode,
+  SessionDetails,
+  Shot,
+  TargetFace,
+  TargetFaceId,
+  TargetView,
+} from '../../utils/types'
+import { RoundPresetSelector } from '../RoundPresetSelector'
 import { EndsPerRoundSelector } from '../EndsPerRoundSelector'
+import { ShotsPerEndSelector } from '../ShotsPerEndSelector'
+import { TargetFaceSelector } from '../TargetFaceSelector'
 import { Target } from '../Target'
 import { EndSummary } from '../EndSummary'
 import { UndoButton } from '../UndoButton'
+import { RedoButton } from '../RedoButton'
+import { RoundSegmentsEditor } from './RoundSegmentsEditor'
+import { ScoreKeypad } from './ScoreKeypad'
+import { ArrowTagger } from './ArrowTagger'
+import { SessionDetailsForm } from './SessionDetailsForm'
+import { EquipmentSelector } from './EquipmentSelector'
+import type { ScoreValue } from '../../utils/targetFaces'
 
 interface RecordPageProps {
+  presetId: RoundPresetId | null
+  presetOptions: RoundPreset[]
+  onPresetChange: (presetId: RoundPresetId | null) => void
+  segments: RoundSegment[]
+  onSegmentsChange: (segments: RoundSegment[]) => void
+  onAddSegment: () => void
+  currentSegmentLabel?: string
   endsPerRoundInput: string
   minEnds: number
   maxEnds: number
   onEndsPerRoundInputChange: (value: string) => void
   onEndsPerRoundInputBlur: () => void
-  canUndoShot: boolean
-  onUndoShot: () => void
+  shotsPerEndInput: string
+  minShotsPerEnd: number
+  maxShotsPerEnd: number
+  onShotsPerEndInputChange: (value: string) => void
+  onShotsPerEndInputBlur: () => void
+  face: TargetFace
+  faceOptions: TargetFace[]
+  onFaceChange: (faceId: TargetFaceId) => void
+  canChangeRoundSetup: boolean
+  canUndo: boolean
+  onUndo: () => void
+  undoLabel?: string
   undoIcon: FC
-  ringColors: string[]
+  canRedo: boolean
+  onRedo: () => void
+  redoLabel?: string
+  redoIcon: FC
   currentRound: End[]
   currentEndIndex: number
   onTargetClick: (event: MouseEvent<HTMLDivElement>) => void
-  ringCount: number
+  activeShot: Shot | null
+  draggingShotIndex: number | null
+  onTargetPointerDown: (event: PointerEvent<HTMLDivElement>) => void
+  onShotPointerDown: (shotIndex: number, event: PointerEvent<HTMLDivElement>) => void
+  onTargetPointerMove: (event: PointerEvent<HTMLDivElement>) => void
+  onTargetPointerUp: (event: PointerEvent<HTMLDivElement>) => void
+  onTargetPointerCancel: (event: PointerEvent<HTMLDivElement>) => void
+  targetView: TargetView
+  onResetZoom: () => void
+  entryMode: ScoreEntryMode
+  onEntryModeChange: (mode: ScoreEntryMode) => void
+  onScoreEntry: (value: ScoreValue) => void
+  // Numbered arrows the archer can tag shots with; 0 hides tagging
+  arrowCount: number
+  onTagShot: (shotIndex: number, arrowNumber: number | null) => void
   endsPerRound: number
   shotsInCurrentEnd: Shot[]
   shotsPerEnd: number
@@ -27,23 +83,62 @@ interface RecordPageProps {
   primaryActionLabel: string
   practiceNotes: string
   onPracticeNotesChange: (value: string) => void
+  // The bow and arrow setup the round is shot with
+  equipmentProfiles: EquipmentProfile[]
+  equipmentId: string | null
+  onEquipmentChange: (profileId: string | null) => void
+  session: SessionDetails
+  onSessionChange: (changes: Partial<SessionDetails>) => void
   onSelectEnd: (index: number) => void
 }
 
 export const RecordPage: FC<RecordPageProps> = ({
+  presetId,
+  presetOptions,
+  onPresetChange,
+  segments,
+  onSegmentsChange,
+  onAddSegment,
+  currentSegmentLabel,
   endsPerRoundInput,
   minEnds,
   maxEnds,
   onEndsPerRoundInputChange,
   onEndsPerRoundInputBlur,
-  canUndoShot,
-  onUndoShot,
+  shotsPerEndInput,
+  minShotsPerEnd,
+  maxShotsPerEnd,
+  onShotsPerEndInputChange,
+  onShotsPerEndInputBlur,
+  face,
+  faceOptions,
+  onFaceChange,
+  canChangeRoundSetup,
+  canUndo,
+  onUndo,
+  undoLabel,
   undoIcon: UndoIcon,
-  ringColors,
+  canRedo,
+  onRedo,
+  redoLabel,
+  redoIcon: RedoIcon,
   currentRound,
   currentEndIndex,
   onTargetClick,
-  ringCount,
+  activeShot,
+  draggingShotIndex,
+  onTargetPointerDown,
+  onShotPointerDown,
+  onTargetPointerMove,
+  onTargetPointerUp,
+  onTargetPointerCancel,
+  targetView,
+  onResetZoom,
+  entryMode,
+  onEntryModeChange,
+  onScoreEntry,
+  arrowCount,
+  onTagShot,
   endsPerRound,
   shotsInCurrentEnd,
   shotsPerEnd,
@@ -52,36 +147,128 @@ export const RecordPage: FC<RecordPageProps> = ({
   primaryActionLabel,
   practiceNotes,
   onPracticeNotesChange,
+  equipmentProfiles,
+  equipmentId,
+  onEquipmentChange,
+  session,
+  onSessionChange,
   onSelectEnd,
 }) => (
   <div className="record-page">
     <div className="record-panel">
+      <RoundPresetSelector
+        value={presetId}
+        presets={presetOptions}
+        onChange={onPresetChange}
+        disabled={!canChangeRoundSetup}
+      />
+
       <EndsPerRoundSelector
         value={endsPerRoundInput}
         minEnds={minEnds}
         maxEnds={maxEnds}
         onChange={onEndsPerRoundInputChange}
         onBlur={onEndsPerRoundInputBlur}
+        disabled={segments.length > 0}
       />
 
-      <UndoButton canUndo={canUndoShot} onUndo={onUndoShot} icon={UndoIcon} />
+      <ShotsPerEndSelector
+        value={shotsPerEndInput}
+        minShots={minShotsPerEnd}
+        maxShots={maxShotsPerEnd}
+        onChange={onShotsPerEndInputChange}
+        onBlur={onShotsPerEndInputBlur}
+        disabled={presetId !== null || !canChangeRoundSetup}
+      />
 
-      <p className="record-instructions">Tap the target to place your shot. Tap outside to record a miss. </p>
+      <TargetFaceSelector
+        value={face.id}
+        faces={faceOptions}
+        onChange={onFaceChange}
+        disabled={segments.length > 0 || !canChangeRoundSetup}
+      />
 
-      <Target
-        ringColors={ringColors}
-        currentRound={currentRound}
-        currentEndIndex={currentEndIndex}
-        activeShot={null}
-        onTargetClick={onTargetClick}
-        ringCount={ringCount}
+      <RoundSegmentsEditor
+        segments={segments}
+        faces={faceOptions}
+        minEnds={minEnds}
+        maxEnds={maxEnds}
+        onChange={onSegmentsChange}
+        onAddSegment={onAddSegment}
+        disabled={presetId !== null || !canChangeRoundSetup}
       />
 
+      {equipmentProfiles.length > 0 && (
+        <EquipmentSelector profiles={equipmentProfiles} value={equipmentId} onChange={onEquipmentChange} />
+      )}
+
+      <div className="undo-controls">
+        <UndoButton canUndo={canUndo} onUndo={onUndo} icon={UndoIcon} label={undoLabel} />
+        <RedoButton canRedo={canRedo} onRedo={onRedo} icon={RedoIcon} label={redoLabel} />
+      </div>
+
+      <div className="entry-mode-toggle" role="group" aria-label="Score entry">
+        {(['target', 'keypad'] as const).map(mode => (
+          <button
+            key={mode}
+            type="button"
+            className={`entry-mode-toggle__button ${entryMode === mode ? 'entry-mode-toggle__button--active' : ''}`}
+            aria-pressed={entryMode === mode}
+            onClick={() => onEntryModeChange(mode)}
+          >
+            {mode === 'target' ? 'Target' : 'Score only'}
+          </button>
+        ))}
+      </div>
+
+      {entryMode === 'keypad' ? (
+        <>
+          <p className="record-instructions">
+            Enter each arrow's score, or type it: X, 1–9, 0 for 10 and M for a miss. Score-only arrows aren't plotted
+            on targets or counted in distance and precision stats.
+          </p>
+          <ScoreKeypad face={face} onScore={onScoreEntry} disabled={shotsInCurrentEnd.length >= shotsPerEnd} />
+        </>
+      ) : (
+        <>
+          <p className="record-instructions">
+            Tap the target to place your shot. Tap outside to record a miss. Touch and hold to aim with the magnifier,
+            and drag an arrow from this end to correct it. Pinch with two fingers to zoom and pan.
+          </p>
+
+          {targetView.scale > 1 && (
+            <button type="button" className="secondary-button target-zoom-reset" onClick={onResetZoom}>
+              Reset zoom
+            </button>
+          )}
+
+          <Target
+            face={face}
+            currentRound={currentRound}
+            currentEndIndex={currentEndIndex}
+            activeShot={activeShot}
+            onTargetClick={onTargetClick}
+            onPointerDown={onTargetPointerDown}
+            onShotPointerDown={onShotPointerDown}
+            onPointerMove={onTargetPointerMove}
+            onPointerUp={onTargetPointerUp}
+            onPointerCancel={onTargetPointerCancel}
+            draggingShotIndex={draggingShotIndex}
+            view={targetView}
+          />
+        </>
+      )}
+
       <div className="record-summary">
         <p className="record-summary__title">End {currentEndIndex + 1} of {endsPerRound}</p>
+        {currentSegmentLabel ? <p className="record-summary__text">{currentSegmentLabel}</p> : null}
         <p className="record-summary__text">Shots taken: {shotsInCurrentEnd.length} / {shotsPerEnd}</p>
       </div>
 
+      {arrowCount > 0 && shotsInCurrentEnd.length > 0 && (
+        <ArrowTagger shots={shotsInCurrentEnd} arrowCount={arrowCount} onTagShot={onTagShot} />
+      )}
+
       <EndSummary currentRound={currentRound} currentEndIndex={currentEndIndex} onEndClick={onSelectEnd} />
 
       <div className="record-panel__actions">
@@ -90,6 +277,8 @@ export const RecordPage: FC<RecordPageProps> = ({
         </button>
       </div>
 
+      <SessionDetailsForm details={session} onChange={onSessionChange} showDistance={segments.length === 0} />
+
       <div className="record-notes">
         <label htmlFor="practice-notes" className="record-notes__label">
           Practice Notes (Optional)
@@ -0,0 +1,105 @@
+import type { FC } from 'react'
+import type { DistanceUnit, RoundSegment, TargetFace, TargetFaceId } from '../../utils/types'
+
+interface RoundSegmentsEditorProps {
+  segments: RoundSegment[]
+  faces: TargetFace[]
+  minEnds: number
+  maxEnds: number
+  onChange: (segments: RoundSegment[]) => void
+  onAddSegment: () => void
+  disabled: boolean
+}
+
+const DISTANCE_UNITS: DistanceUnit[] = ['m', 'yd']
+
+export const RoundSegmentsEditor: FC<RoundSegmentsEditorProps> = ({
+  segments,
+  faces,
+  minEnds,
+  maxEnds,
+  onChange,
+  onAddSegment,
+  disabled,
+}) => {
+  // Presets can exceed the custom limit, so always offer the current count
+  const getEndOptions = (current: number): number[] => {
+    const upper = Math.max(maxEnds, current)
+    return Array.from({ length: upper - minEnds + 1 }, (_, index) => minEnds + index)
+  }
+
+  const updateSegment = (segmentIndex: number, changes: Partial<RoundSegment>) => {
+    onChange(segments.map((segment, index) => (index === segmentIndex ? { ...segment, ...changes } : segment)))
+  }
+
+  const handleDistanceChange = (segmentIndex: number, value: string) => {
+    const parsed = Number(value)
+    if (value === '' || Number.isNaN(parsed) || parsed <= 0) {
+      return
+    }
+    updateSegment(segmentIndex, { distance: parsed })
+  }
+
+  return (
+    <div className="segments-editor">
+      {segments.map((segment, segmentIndex) => (
+        <div key={segmentIndex} className="segments-editor__row">
+          <input
+            className="number-input segments-editor__distance"
+            type="number"
+            min={1}
+            value={segment.distance}
+            onChange={event => handleDistanceChange(segmentIndex, event.target.value)}
+            disabled={disabled}
+            aria-label={`Distance ${segmentIndex + 1}`}
+          />
+          <select
+            className="number-input segments-editor__unit"
+            value={segment.distanceUnit}
+            onChange={event => updateSegment(segmentIndex, { distanceUnit: event.target.value as DistanceUnit })}
+            disabled={disabled}
+            aria-label={`Distance ${segmentIndex + 1} unit`}
+          >
+            {DISTANCE_UNITS.map(unit => (
+              <option key={unit} value={unit}>{unit}</option>
+            ))}
+          </select>
+          <select
+            className="number-input segments-editor__face"
+            value={segment.faceId}
+            onChange={event => updateSegment(segmentIndex, { faceId: event.target.value as TargetFaceId })}
+            disabled={disabled}
+            aria-label={`Distance ${segmentIndex + 1} target face`}
+          >
+            {faces.map(face => (
+              <option key={face.id} value={face.id}>{face.name}</option>
+            ))}
+          </select>
+          <select
+            className="number-input segments-editor__ends"
+            value={segment.endCount}
+            onChange={event => updateSegment(segmentIndex, { endCount: Number(event.target.value) })}
+            disabled={disabled}
+            aria-label={`Distance ${segmentIndex + 1} ends`}
+          >
+            {getEndOptions(segment.endCount).map(count => (
+              <option key={count} value={count}>{count} {count === 1 ? 'end' : 'ends'}</option>
+            ))}
+          </select>
+          <button
+            type="button"
+            className="segments-editor__remove"
+            onClick={() => onChange(segments.filter((_, index) => index !== segmentIndex))}
+            disabled={disabled}
+            aria-label={`Remove distance ${segmentIndex + 1}`}
+          >
+            ×
+          </button>
+        </div>
+      ))}
+      <button type="button" className="segments-editor__add" onClick={onAddSegment} disabled={disabled}>
+        + Add distance
+      </button>
+    </div>
+  )
+}
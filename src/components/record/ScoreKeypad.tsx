@@ -0,0 +1,69 @@
+import { useEffect } from 'react'
+import type { TargetFace } from '../../utils/types'
+import { getScoreValues, type ScoreValue } from '../../utils/targetFaces'
+
+interface ScoreKeypadProps {
+  face: TargetFace
+  onScore: (value: ScoreValue) => void
+  disabled?: boolean
+}
+
+const isTypingTarget = (target: EventTarget | null) =>
+  target instanceof HTMLElement && (target.isContentEditable || ['INPUT', 'TEXTAREA', 'SELECT'].includes(target.tagName))
+
+/**
+ * Finds the score for a key press: X and M by letter, ring scores by digit, with 0 standing for 10.
+ */
+const findScoreForKey = (values: ScoreValue[], key: string): ScoreValue | undefined => {
+  const upperKey = key.toUpperCase()
+  if (upperKey === 'X' || upperKey === 'M') {
+    return values.find(value => value.label === upperKey)
+  }
+  if (/^\d$/.test(key)) {
+    const score = key === '0' ? 10 : Number(key)
+    return values.find(value => !value.isX && value.label === String(score))
+  }
+  return undefined
+}
+
+export const ScoreKeypad = ({ face, onScore, disabled = false }: ScoreKeypadProps) => {
+  const values = getScoreValues(face)
+
+  useEffect(() => {
+    if (disabled) {
+      return
+    }
+
+    const handleKeyDown = (event: KeyboardEvent) => {
+      if (event.altKey || event.ctrlKey || event.metaKey || isTypingTarget(event.target)) {
+        return
+      }
+
+      const value = findScoreForKey(getScoreValues(face), event.key)
+      if (value) {
+        event.preventDefault()
+        onScore(value)
+      }
+    }
+
+    window.addEventListener('keydown', handleKeyDown)
+    return () => window.removeEventListener('keydown', handleKeyDown)
+  }, [face, onScore, disabled])
+
+  return (
+    <div className="score-keypad" role="group" aria-label="Score keypad">
+      {values.map(value => (
+        <button
+          key={value.label}
+          type="button"
+          className={`score-keypad__key ${value.isX ? 'score-keypad__key--x' : ''} ${value.label === 'M' ? 'score-keypad__key--miss' : ''}`}
+          onClick={() => onScore(value)}
+          disabled={disabled}
+          aria-label={value.label === 'M' ? 'Miss' : `Score ${value.label}`}
+        >
+          {value.label}
+        </button>
+      ))}
+    </div>
+  )
+}
@@ -0,0 +1,109 @@
+import type { BowClass, DistanceUnit, SessionDetails, ShootingVenue, WindCondition } from '../../utils/types'
+import { BOW_CLASSES, SHOOTING_VENUES, WIND_CONDITIONS } from '../../utils/sessionDetails'
+
+interface SessionDetailsFormProps {
+  details: SessionDetails
+  onChange: (changes: Partial<SessionDetails>) => void
+  // Rounds with several distances record them per segment
+  showDistance: boolean
+}
+
+const DISTANCE_UNITS: DistanceUnit[] = ['m', 'yd']
+
+const parseNumber = (value: string): number | undefined => {
+  const parsed = Number(value)
+  return value === '' || Number.isNaN(parsed) ? undefined : parsed
+}
+
+export const SessionDetailsForm = ({ details, onChange, showDistance }: SessionDetailsFormProps) => (
+  <fieldset className="session-details">
+    <legend className="session-details__legend">Session Details (Optional)</legend>
+
+    {showDistance && (
+      <div className="session-details__row">
+        <input
+          className="number-input session-details__distance"
+          type="number"
+          min={1}
+          placeholder="Distance"
+          value={details.distance ?? ''}
+          onChange={event => {
+            const distance = parseNumber(event.target.value)
+            onChange({
+              distance: distance !== undefined && distance > 0 ? distance : undefined,
+              distanceUnit: distance !== undefined && distance > 0 ? (details.distanceUnit ?? 'm') : undefined,
+            })
+          }}
+          aria-label="Distance"
+        />
+        <select
+          className="number-input session-details__unit"
+          value={details.distanceUnit ?? 'm'}
+          onChange={event => onChange({ distanceUnit: event.target.value as DistanceUnit })}
+          disabled={details.distance === undefined}
+          aria-label="Distance unit"
+        >
+          {DISTANCE_UNITS.map(unit => (
+            <option key={unit} value={unit}>{unit}</option>
+          ))}
+        </select>
+      </div>
+    )}
+
+    <div className="session-details__row">
+      <select
+        className="number-input"
+        value={details.venue ?? ''}
+        onChange={event => onChange({ venue: (event.target.value || undefined) as ShootingVenue | undefined })}
+        aria-label="Indoor or outdoor"
+      >
+        <option value="">Indoor / outdoor</option>
+        {SHOOTING_VENUES.map(option => (
+          <option key={option.value} value={option.value}>{option.label}</option>
+        ))}
+      </select>
+      <select
+        className="number-input"
+        value={details.bowClass ?? ''}
+        onChange={event => onChange({ bowClass: (event.target.value || undefined) as BowClass | undefined })}
+        aria-label="Bow class"
+      >
+        <option value="">Bow class</option>
+        {BOW_CLASSES.map(option => (
+          <option key={option.value} value={option.value}>{option.label}</option>
+        ))}
+      </select>
+    </div>
+
+    <input
+      className="number-input session-details__location"
+      type="text"
+      placeholder="Location"
+      value={details.location ?? ''}
+      onChange={event => onChange({ location: event.target.value })}
+      aria-label="Location"
+    />
+
+    <div className="session-details__row">
+      <select
+        className="number-input"
+        value={details.wind ?? ''}
+        onChange={event => onChange({ wind: (event.target.value || undefined) as WindCondition | undefined })}
+        aria-label="Wind"
+      >
+        <option value="">Wind</option>
+        {WIND_CONDITIONS.map(option => (
+          <option key={option.value} value={option.value}>{option.label}</option>
+        ))}
+      </select>
+      <input
+        className="number-input session-details__temperature"
+        type="number"
+        placeholder="°C"
+        value={details.temperatureC ?? ''}
+        onChange={event => onChange({ temperatureC: parseNumber(event.target.value) })}
+        aria-label="Temperature in °C"
+      />
+    </div>
+  </fieldset>
+)
@@ -2,9 +2,19 @@ interface AggregateControlsProps {
   rangeInput: string
   onRangeInputChange: (value: string) => void
   onRangeInputBlur: () => void
+  distanceOptions: string[]
+  distanceFilter: string | null
+  onDistanceFilterChange: (distance: string | null) => void
 }
 
-export const AggregateControls = ({ rangeInput, onRangeInputChange, onRangeInputBlur }: AggregateControlsProps) => (
+export const AggregateControls = ({
+  rangeInput,
+  onRangeInputChange,
+  onRangeInputBlur,
+  distanceOptions,
+  distanceFilter,
+  onDistanceFilterChange,
+}: AggregateControlsProps) => (
   <div className="stats-aggregate__controls">
     <label className="stats-aggregate__selector ends-selector" htmlFor="aggregate-range">
       <span className="ends-selector__label">Practices to Analyze</span>
@@ -19,5 +29,22 @@ export const AggregateControls = ({ rangeInput, onRangeInputChange, onRangeInput
         aria-label="Number of recent practices to analyze in aggregate statistics"
       />
     </label>
+    {distanceOptions.length > 0 && (
+      <label className="stats-aggregate__selector ends-selector" htmlFor="aggregate-distance">
+        <span className="ends-selector__label">Distance</span>
+        <select
+          id="aggregate-distance"
+          className="number-input face-selector__select"
+          value={distanceFilter ?? ''}
+          onChange={event => onDistanceFilterChange(event.target.value || null)}
+          aria-label="Distance to analyze in aggregate statistics"
+        >
+          <option value="">All distances</option>
+          {distanceOptions.map(distance => (
+            <option key={distance} value={distance}>{distance}</option>
+          ))}
+        </select>
+      </label>
+    )}
   </div>
 )
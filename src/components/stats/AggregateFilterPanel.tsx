@@ -0,0 +1,198 @@
+import { useState } from 'react'
+import type { TargetFaceId } from '../../utils/types'
+import { countActiveFilters, DEFAULT_AGGREGATE_FILTERS, type AggregateFilters } from '../../utils/aggregateFilters'
+import { getTargetFace } from '../../utils/targetFaces'
+import type { PracticeEntry } from './PracticeList'
+
+interface AggregateFilterPanelProps {
+  filters: AggregateFilters
+  onChange: (filters: AggregateFilters) => void
+  // Practices matching the date, face and score filters, newest first
+  practices: PracticeEntry[]
+  // Ids of the practices currently analyzed
+  selectedIds: Set<string>
+  faceOptions: TargetFaceId[]
+}
+
+export const AggregateFilterPanel = ({
+  filters,
+  onChange,
+  practices,
+  selectedIds,
+  faceOptions,
+}: AggregateFilterPanelProps) => {
+  const [minScoreInput, setMinScoreInput] = useState<string | null>(null)
+  const [copyStatus, setCopyStatus] = useState<string | null>(null)
+  const activeCount = countActiveFilters(filters)
+  const excludedIds = new Set(filters.excludedIds)
+
+  const update = (changes: Partial<AggregateFilters>) => onChange({ ...filters, ...changes })
+
+  const handleTogglePractice = (roundId: string) => {
+    // Picking a practice starts from the ones currently analyzed
+    const picked = new Set(filters.practiceIds ?? selectedIds)
+    if (picked.has(roundId)) {
+      picked.delete(roundId)
+    } else {
+      picked.add(roundId)
+    }
+    // Unpicking the last practice goes back to the latest practices
+    update({ practiceIds: picked.size > 0 ? [...picked] : undefined })
+  }
+
+  const handleToggleExcluded = (roundId: string) => {
+    if (excludedIds.has(roundId)) {
+      update({ excludedIds: filters.excludedIds.filter(id => id !== roundId) })
+      return
+    }
+    const picked = filters.practiceIds?.filter(id => id !== roundId)
+    update({
+      excludedIds: [...filters.excludedIds, roundId],
+      practiceIds: picked && picked.length > 0 ? picked : undefined,
+    })
+  }
+
+  const handleMinScoreBlur = () => {
+    if (minScoreInput === null) {
+      return
+    }
+    const parsed = Number(minScoreInput)
+    update({ minScore: minScoreInput.trim() === '' || Number.isNaN(parsed) ? undefined : Math.max(0, parsed) })
+    setMinScoreInput(null)
+  }
+
+  const handleCopyLink = async () => {
+    try {
+      await navigator.clipboard.writeText(window.location.href)
+      setCopyStatus('Link copied')
+    } catch (error) {
+      console.error('Failed to copy stats link:', error)
+      setCopyStatus('Copy the address bar to share this view')
+    }
+  }
+
+  return (
+    <details className="aggregate-filters">
+      <summary className="aggregate-filters__summary">
+        Filters{activeCount > 0 ? ` (${activeCount})` : ''}
+      </summary>
+
+      <div className="aggregate-filters__row">
+        <label className="aggregate-filters__field">
+          <span className="ends-selector__label">From</span>
+          <input
+            className="number-input"
+            type="date"
+            value={filters.from ?? ''}
+            max={filters.to}
+            onChange={event => update({ from: event.target.value || undefined })}
+            aria-label="Analyze practices from this date"
+          />
+        </label>
+        <label className="aggregate-filters__field">
+          <span className="ends-selector__label">To</span>
+          <input
+            className="number-input"
+            type="date"
+            value={filters.to ?? ''}
+            min={filters.from}
+            onChange={event => update({ to: event.target.value || undefined })}
+            aria-label="Analyze practices up to this date"
+          />
+        </label>
+      </div>
+
+      <div className="aggregate-filters__row">
+        {faceOptions.length > 1 && (
+          <label className="aggregate-filters__field">
+            <span className="ends-selector__label">Face</span>
+            <select
+              className="number-input face-selector__select"
+              value={filters.faceId ?? ''}
+              onChange={event => update({ faceId: (event.target.value || undefined) as TargetFaceId | undefined })}
+              aria-label="Target face to analyze"
+            >
+              <option value="">All faces</option>
+              {faceOptions.map(faceId => (
+                <option key={faceId} value={faceId}>{getTargetFace(faceId).name}</option>
+              ))}
+            </select>
+          </label>
+        )}
+        <label className="aggregate-filters__field">
+          <span className="ends-selector__label">Minimum score</span>
+          <input
+            className="number-input"
+            type="number"
+            min={0}
+            placeholder="Any"
+            value={minScoreInput ?? (filters.minScore !== undefined ? String(filters.minScore) : '')}
+            onChange={event => setMinScoreInput(event.target.value)}
+            onBlur={handleMinScoreBlur}
+            aria-label="Minimum practice total score"
+          />
+        </label>
+      </div>
+
+      {practices.length > 0 && (
+        <ul className="aggregate-filters__practices" aria-label="Practices to analyze">
+          {practices.map(({ round, practiceNumber, formattedDate }) => {
+            const isExcluded = excludedIds.has(round.id)
+            return (
+              <li
+                key={round.id}
+                className={`aggregate-filters__practice ${isExcluded ? 'aggregate-filters__practice--excluded' : ''}`}
+              >
+                <label className="aggregate-filters__practice-label">
+                  <input
+                    type="checkbox"
+                    checked={selectedIds.has(round.id)}
+                    disabled={isExcluded}
+                    onChange={() => handleTogglePractice(round.id)}
+                  />
+                  <span>#{practiceNumber}</span>
+                  <span className="aggregate-filters__practice-date">{formattedDate}</span>
+                  <span className="aggregate-filters__practice-score">{round.totalScore}</span>
+                </label>
+                <button
+                  type="button"
+                  className="aggregate-filters__exclude"
+                  onClick={() => handleToggleExcluded(round.id)}
+                  aria-pressed={isExcluded}
+                  aria-label={`${isExcluded ? 'Include' : 'Exclude'} practice #${practiceNumber}`}
+                >
+                  {isExcluded ? 'Include' : 'Exclude'}
+                </button>
+              </li>
+            )
+          })}
+        </ul>
+      )}
+      <p className="aggregate-filters__hint">
+        {filters.practiceIds
+          ? `Analyzing ${filters.practiceIds.length} picked ${filters.practiceIds.length === 1 ? 'practice' : 'practices'}.`
+          : 'Tick practices to analyze just those instead of the latest ones.'}
+      </p>
+
+      <div className="aggregate-filters__actions">
+        <button type="button" className="session-filters__clear" onClick={handleCopyLink}>
+          Copy link
+        </button>
+        {activeCount > 0 && (
+          <button
+            type="button"
+            className="session-filters__clear"
+            onClick={() => onChange({ ...DEFAULT_AGGREGATE_FILTERS, range: filters.range, distance: filters.distance })}
+          >
+            Reset filters
+          </button>
+        )}
+        {copyStatus && (
+          <span className="aggregate-filters__status" role="status">
+            {copyStatus}
+          </span>
+        )}
+      </div>
+    </details>
+  )
+}
@@ -41,5 +41,15 @@ export const AggregateSummary = ({ roundCount, aggregateStats }: AggregateSummar
         <span className="stats-card__value">{aggregateStats.missedShots}</span>
       </div>
     </div>
+    <div className="stats-grid stats-grid--paired">
+      <div className="stats-card">
+        <span className="stats-card__label">10s</span>
+        <span className="stats-card__value">{aggregateStats.tenCount}</span>
+      </div>
+      <div className="stats-card">
+        <span className="stats-card__label">X Count</span>
+        <span className="stats-card__value">{aggregateStats.xCount}</span>
+      </div>
+    </div>
   </>
 )
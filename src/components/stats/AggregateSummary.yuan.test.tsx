@@ -7,7 +7,9 @@ const as: AggregateStats = {
     averageDistanceFromCenter: 15.2,
     missedShots: 3,
     averagePrecision: 12.8,
-    shotCount: 25
+    shotCount: 25,
+    xCount: 2,
+    tenCount: 6
 }
 
 test('AggregateSummary renders correct average points', () => {
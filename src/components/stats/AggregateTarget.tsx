@@ -1,7 +1,7 @@
 import { useMemo, useState } from 'react'
-import { RING_COUNT } from '../../utils/constants'
-import { calculateAverage, generateRingColors } from '../../utils/helpers'
-import type { Round } from '../../utils/types'
+import { calculateAverage, getPositionedShots } from '../../utils/helpers'
+import { getSharedTargetFace } from '../../utils/targetFaces'
+import type { Round, Shot } from '../../utils/types'
 
 const PRACTICE_COLORS = [
   '#3b82f6',
@@ -16,57 +16,79 @@ const PRACTICE_COLORS = [
   '#a855f7',
 ]
 
+// Shots plotted and listed in the legend together, in one colour
+export type ShotGroup = {
+  id: string
+  label: string
+  shots: Shot[]
+  // Marked in the legend, e.g. an arrow that groups away from the rest
+  isFlagged?: boolean
+}
+
 interface AggregateTargetProps {
   rounds: Round[]
+  // Plot these groups instead of one group per practice, e.g. one per numbered arrow
+  groups?: ShotGroup[]
+  title?: string
+  subtitle?: string
 }
 
-export const AggregateTarget = ({ rounds }: AggregateTargetProps) => {
-  const ringColors = useMemo(() => generateRingColors(RING_COUNT), [])
-  const [highlightedRoundId, setHighlightedRoundId] = useState<string | null>(null)
+const groupShotsByPractice = (rounds: Round[]): ShotGroup[] =>
+  rounds.map((round, roundIndex) => ({
+    id: round.id,
+    label: `Practice #${rounds.length - roundIndex}`,
+    shots: round.ends.flatMap(end => getPositionedShots(end.shots)),
+  }))
+
+export const AggregateTarget = ({
+  rounds,
+  groups,
+  title = 'All Shots Overlay',
+  subtitle = 'Click on a practice below to highlight its shots. ',
+}: AggregateTargetProps) => {
+  const face = useMemo(() => getSharedTargetFace(rounds), [rounds])
+  const shotGroups = useMemo(() => groups ?? groupShotsByPractice(rounds), [groups, rounds])
+  const [highlightedGroupId, setHighlightedGroupId] = useState<string | null>(null)
   const [showOnlyAverage, setShowOnlyAverage] = useState(false)
 
-  const handlePracticeClick = (roundId: string) => {
+  const handleGroupClick = (groupId: string) => {
     setShowOnlyAverage(false)
-    setHighlightedRoundId(previous => (previous === roundId ? null : roundId))
+    setHighlightedGroupId(previous => (previous === groupId ? null : groupId))
   }
 
   const handleAverageClick = () => {
-    setHighlightedRoundId(null)
+    setHighlightedGroupId(null)
     setShowOnlyAverage(previous => !previous)
   }
 
-  const allShots = useMemo(
-    () => rounds.flatMap(round => round.ends.flatMap(end => end.shots)),
-    [rounds],
-  )
+  const allShots = useMemo(() => shotGroups.flatMap(group => group.shots), [shotGroups])
   const averageX = useMemo(() => calculateAverage(allShots.map(shot => shot.x)), [allShots])
   const averageY = useMemo(() => calculateAverage(allShots.map(shot => shot.y)), [allShots])
 
   return (
     <div className="aggregate-target-container">
-      <h3 className="aggregate-target__title">All Shots Overlay</h3>
-      <p className="aggregate-target__subtitle">Click on a practice below to highlight its shots. </p>
+      <h3 className="aggregate-target__title">{title}</h3>
+      <p className="aggregate-target__subtitle">{subtitle}</p>
       <div className="aggregate-target">
-        {ringColors.map((color, index) => (
+        {face.rings.map(ring => (
           <div
-            key={index}
+            key={ring.score}
             className="aggregate-target__ring"
             style={{
-              backgroundColor: color,
-              width: `${100 - (index / RING_COUNT) * 100}%`,
-              height: `${100 - (index / RING_COUNT) * 100}%`,
+              backgroundColor: ring.color,
+              width: `${ring.radius * 100}%`,
+              height: `${ring.radius * 100}%`,
             }}
           />
         ))}
-        {rounds.map((round, roundIndex) => {
-          const shots = round.ends.flatMap(end => end.shots)
-          const practiceColor = PRACTICE_COLORS[roundIndex % PRACTICE_COLORS.length]
-          const isHighlighted = highlightedRoundId === round.id
-          const isDimmed = (highlightedRoundId !== null && highlightedRoundId !== round.id) || showOnlyAverage
+        {shotGroups.map((group, groupIndex) => {
+          const practiceColor = PRACTICE_COLORS[groupIndex % PRACTICE_COLORS.length]
+          const isHighlighted = highlightedGroupId === group.id
+          const isDimmed = (highlightedGroupId !== null && highlightedGroupId !== group.id) || showOnlyAverage
 
-          return shots.map((shot, shotIndex) => (
+          return group.shots.map((shot, shotIndex) => (
             <div
-              key={`${round.id}-${shotIndex}`}
+              key={`${group.id}-${shotIndex}`}
               className={`aggregate-target__dot ${isHighlighted ? 'aggregate-target__dot--highlighted' : ''} ${isDimmed ? 'aggregate-target__dot--dimmed' : ''}`}
               style={{
                 left: `${(shot.x + 1) * 50}%`,
@@ -74,19 +96,19 @@ export const AggregateTarget = ({ rounds }: AggregateTargetProps) => {
                 backgroundColor: practiceColor,
                 borderColor: practiceColor,
               }}
-              onClick={() => handlePracticeClick(round.id)}
+              onClick={() => handleGroupClick(group.id)}
               role="button"
               tabIndex={0}
               onKeyDown={event => {
                 if (event.key === 'Enter' || event.key === ' ') {
                   event.preventDefault()
-                  handlePracticeClick(round.id)
+                  handleGroupClick(group.id)
                 }
               }}
             />
           ))
         })}
-        {allShots.length > 0 && !highlightedRoundId && (
+        {allShots.length > 0 && !highlightedGroupId && (
           <div
             className={`aggregate-target__average-marker ${showOnlyAverage ? 'aggregate-target__average-marker--highlighted' : ''}`}
             style={{
@@ -102,7 +124,7 @@ export const AggregateTarget = ({ rounds }: AggregateTargetProps) => {
         )}
       </div>
       <div className="aggregate-target__legend">
-        {allShots.length > 0 && !highlightedRoundId && (
+        {allShots.length > 0 && !highlightedGroupId && (
           <div
             className={`aggregate-target__legend-item ${showOnlyAverage ? 'aggregate-target__legend-item--highlighted' : ''}`}
             onClick={handleAverageClick}
@@ -125,30 +147,30 @@ export const AggregateTarget = ({ rounds }: AggregateTargetProps) => {
             </span>
           </div>
         )}
-        {rounds.map((round, roundIndex) => {
-          const isHighlighted = highlightedRoundId === round.id
-          const isDimmed = (highlightedRoundId !== null && highlightedRoundId !== round.id) || showOnlyAverage
+        {shotGroups.map((group, groupIndex) => {
+          const isHighlighted = highlightedGroupId === group.id
+          const isDimmed = (highlightedGroupId !== null && highlightedGroupId !== group.id) || showOnlyAverage
 
           return (
             <div
-              key={round.id}
-              className={`aggregate-target__legend-item ${isHighlighted ? 'aggregate-target__legend-item--highlighted' : ''} ${isDimmed ? 'aggregate-target__legend-item--dimmed' : ''}`}
-              onClick={() => handlePracticeClick(round.id)}
+              key={group.id}
+              className={`aggregate-target__legend-item ${isHighlighted ? 'aggregate-target__legend-item--highlighted' : ''} ${isDimmed ? 'aggregate-target__legend-item--dimmed' : ''} ${group.isFlagged ? 'aggregate-target__legend-item--flagged' : ''}`}
+              onClick={() => handleGroupClick(group.id)}
               role="button"
               tabIndex={0}
               onKeyDown={event => {
                 if (event.key === 'Enter' || event.key === ' ') {
                   event.preventDefault()
-                  handlePracticeClick(round.id)
+                  handleGroupClick(group.id)
                 }
               }}
             >
               <div
                 className="aggregate-target__legend-color"
-                style={{ backgroundColor: PRACTICE_COLORS[roundIndex % PRACTICE_COLORS.length] }}
+                style={{ backgroundColor: PRACTICE_COLORS[groupIndex % PRACTICE_COLORS.length] }}
               />
               <span className="aggregate-target__legend-label">
-                Practice #{rounds.length - roundIndex}
+                {group.label}
               </span>
             </div>
           )
@@ -0,0 +1,71 @@
+import { useMemo } from 'react'
+import type { Round } from '../../utils/types'
+import { computeArrowGroups, MIN_SHOTS_FOR_COMPARISON } from '../../utils/arrowStats'
+import { AggregateTarget, type ShotGroup } from './AggregateTarget'
+
+interface ArrowStatsProps {
+  rounds: Round[]
+}
+
+const formatUnits = (value: number, fractionDigits = 1): string => value.toFixed(fractionDigits)
+
+export const ArrowStats = ({ rounds }: ArrowStatsProps) => {
+  const arrowGroups = useMemo(() => computeArrowGroups(rounds), [rounds])
+  const shotGroups = useMemo<ShotGroup[]>(
+    () =>
+      arrowGroups.map(arrow => ({
+        id: `arrow-${arrow.arrowNumber}`,
+        label: `Arrow ${arrow.arrowNumber}`,
+        shots: arrow.shots,
+        isFlagged: arrow.isOutlier,
+      })),
+    [arrowGroups],
+  )
+
+  if (arrowGroups.length === 0) {
+    return (
+      <div className="stats-empty">
+        No tagged arrows in these practices. Number your arrows in Profile, then tag shots while recording.
+      </div>
+    )
+  }
+
+  const outliers = arrowGroups.filter(arrow => arrow.isOutlier)
+
+  return (
+    <>
+      <AggregateTarget
+        rounds={rounds}
+        groups={shotGroups}
+        title="Arrow Groups"
+        subtitle="Click on an arrow below to highlight its shots. "
+      />
+
+      {outliers.length > 0 ? (
+        <p className="arrow-stats__warning" role="status">
+          {outliers.map(arrow => `Arrow ${arrow.arrowNumber}`).join(', ')}{' '}
+          {outliers.length === 1 ? 'groups' : 'group'} away from the rest of your arrows. Check for a bent shaft or
+          damaged fletching.
+        </p>
+      ) : null}
+
+      <ul className="arrow-stats">
+        {arrowGroups.map(arrow => (
+          <li
+            key={arrow.arrowNumber}
+            className={`arrow-stats__row ${arrow.isOutlier ? 'arrow-stats__row--outlier' : ''}`}
+          >
+            <span className="arrow-stats__arrow">Arrow {arrow.arrowNumber}</span>
+            <span className="arrow-stats__metric">{arrow.shotCount} shots</span>
+            <span className="arrow-stats__metric">avg {formatUnits(arrow.averageScore, 2)} pts</span>
+            <span className="arrow-stats__metric">
+              {arrow.shots.length >= MIN_SHOTS_FOR_COMPARISON
+                ? `offset ${formatUnits(arrow.offset)} units`
+                : 'too few shots to compare'}
+            </span>
+          </li>
+        ))}
+      </ul>
+    </>
+  )
+}
@@ -0,0 +1,61 @@
+import { useMemo } from 'react'
+import type { AggregateStats, EquipmentProfile, Round } from '../../utils/types'
+import { compareEquipment } from '../../utils/equipment'
+
+interface EquipmentComparisonProps {
+  rounds: Round[]
+  profiles: EquipmentProfile[]
+}
+
+const formatUnits = (value: number, fractionDigits = 1): string => value.toFixed(fractionDigits)
+
+const StatsLine = ({ stats }: { stats: AggregateStats }) => (
+  <>
+    <span className="arrow-stats__metric">avg {formatUnits(stats.averagePoints, 2)} pts</span>
+    <span className="arrow-stats__metric">{formatUnits(stats.averageDistanceFromCenter)} units from center</span>
+    <span className="arrow-stats__metric">group {formatUnits(stats.averagePrecision)} units</span>
+    <span className="arrow-stats__metric">
+      {stats.tenCount} 10s / {stats.xCount} X · {stats.missedShots} misses
+    </span>
+  </>
+)
+
+export const EquipmentComparison = ({ rounds, profiles }: EquipmentComparisonProps) => {
+  const comparisons = useMemo(() => compareEquipment(rounds, profiles), [rounds, profiles])
+
+  if (!comparisons.some(comparison => comparison.profile)) {
+    return (
+      <div className="stats-empty">
+        No practices recorded with an equipment profile. Add your bows and arrows in Profile, then pick one while
+        recording.
+      </div>
+    )
+  }
+
+  return (
+    <ul className="arrow-stats equipment-comparison">
+      {comparisons.map(comparison => {
+        const lastChange = comparison.profile?.tuningLog[comparison.profile.tuningLog.length - 1]
+        return (
+          <li key={comparison.profile?.id ?? 'unassigned'} className="arrow-stats__row equipment-comparison__row">
+            <span className="arrow-stats__arrow">{comparison.profile?.name ?? 'No profile'}</span>
+            <span className="arrow-stats__metric">
+              {comparison.roundCount} {comparison.roundCount === 1 ? 'practice' : 'practices'} ·{' '}
+              {comparison.stats.shotCount} shots
+            </span>
+            <StatsLine stats={comparison.stats} />
+            {comparison.sinceLastChange && lastChange ? (
+              <div className="equipment-comparison__since">
+                <span className="equipment-comparison__since-title">
+                  Since {comparison.sinceLastChange.date}: {lastChange.description} ({comparison.sinceLastChange.roundCount}{' '}
+                  {comparison.sinceLastChange.roundCount === 1 ? 'practice' : 'practices'})
+                </span>
+                <StatsLine stats={comparison.sinceLastChange.stats} />
+              </div>
+            ) : null}
+          </li>
+        )
+      })}
+    </ul>
+  )
+}
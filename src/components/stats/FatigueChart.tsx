@@ -0,0 +1,133 @@
+import { useMemo } from 'react'
+import { ResponsiveContainer, LineChart, CartesianGrid, XAxis, YAxis, Tooltip, Line } from 'recharts'
+import type { Round } from '../../utils/types'
+import { computeFatigueAnalysis, type PositionStats } from '../../utils/fatigueAnalysis'
+
+interface FatigueChartProps {
+  rounds: Round[]
+  isMobile: boolean
+}
+
+interface PositionChartProps {
+  title: string
+  axisLabel: string
+  data: PositionStats[]
+  isMobile: boolean
+}
+
+const SCORE_COLOR = '#3b82f6'
+const DISTANCE_COLOR = '#10b981'
+
+const formatValue = (value: number | null): string => (value === null ? '—' : value.toFixed(2))
+
+const PositionChart = ({ title, axisLabel, data, isMobile }: PositionChartProps) => {
+  const chartData = useMemo(
+    () =>
+      data.map(entry => ({
+        position: String(entry.position),
+        averageScore: Number(entry.averageScore.toFixed(2)),
+        averageDistance: entry.averageDistance === null ? null : Number(entry.averageDistance.toFixed(2)),
+        shotCount: entry.shotCount,
+      })),
+    [data],
+  )
+  const weakest = data.reduce<PositionStats | null>(
+    (lowest, entry) => (lowest === null || entry.averageScore < lowest.averageScore ? entry : lowest),
+    null,
+  )
+
+  return (
+    <div className="stats-chart fatigue-chart">
+      <div className="stats-chart__header">
+        <h3 className="stats-chart__title">{title}</h3>
+      </div>
+      {weakest && data.length > 1 && (
+        <p className="stats-chart__tip">
+          Lowest average: {axisLabel.toLowerCase()} {weakest.position} ({formatValue(weakest.averageScore)})
+        </p>
+      )}
+      <ResponsiveContainer width="100%" height={isMobile ? 220 : 260}>
+        <LineChart
+          data={chartData}
+          margin={isMobile ? { top: 5, right: 5, left: 0, bottom: 28 } : { top: 5, right: 15, left: 5, bottom: 30 }}
+        >
+          <CartesianGrid strokeDasharray="3 3" stroke="#334155" />
+          <XAxis
+            dataKey="position"
+            stroke="#94a3b8"
+            style={{ fontSize: '12px' }}
+            label={{ value: axisLabel, position: 'insideBottom', offset: -10, fill: '#94a3b8', fontSize: 12 }}
+          />
+          <YAxis yAxisId="score" stroke={SCORE_COLOR} style={{ fontSize: '12px' }} domain={[0, 'auto']} />
+          <YAxis
+            yAxisId="distance"
+            orientation="right"
+            stroke={DISTANCE_COLOR}
+            style={{ fontSize: '12px' }}
+            domain={[0, 'auto']}
+          />
+          <Tooltip
+            contentStyle={{
+              backgroundColor: '#1e293b',
+              border: '1px solid #334155',
+              borderRadius: '8px',
+              color: '#e2e8f0',
+            }}
+            labelStyle={{ color: '#e2e8f0' }}
+            labelFormatter={(label, payload) => {
+              const shotCount = (payload?.[0]?.payload as { shotCount?: number } | undefined)?.shotCount
+              return shotCount === undefined ? `${axisLabel} ${label}` : `${axisLabel} ${label} · ${shotCount} shots`
+            }}
+            cursor={{ stroke: '#475569', strokeWidth: 2 }}
+            wrapperStyle={{ pointerEvents: 'none' }}
+          />
+          <Line
+            yAxisId="score"
+            type="monotone"
+            dataKey="averageScore"
+            name="Average score"
+            stroke={SCORE_COLOR}
+            strokeWidth={3}
+            dot={{ r: 4, strokeWidth: 1.5, fill: SCORE_COLOR }}
+          />
+          <Line
+            yAxisId="distance"
+            type="monotone"
+            dataKey="averageDistance"
+            name="Distance from centre"
+            stroke={DISTANCE_COLOR}
+            strokeWidth={2}
+            strokeDasharray="5 3"
+            dot={{ r: 3, strokeWidth: 1.5, fill: DISTANCE_COLOR }}
+            connectNulls
+          />
+        </LineChart>
+      </ResponsiveContainer>
+    </div>
+  )
+}
+
+export const FatigueChart = ({ rounds, isMobile }: FatigueChartProps) => {
+  const analysis = useMemo(() => computeFatigueAnalysis(rounds), [rounds])
+
+  if (analysis.byEnd.length === 0) {
+    return <div className="stats-empty">No shots in these practices.</div>
+  }
+
+  return (
+    <>
+      <PositionChart title="By End" axisLabel="End" data={analysis.byEnd} isMobile={isMobile} />
+      <PositionChart title="By Arrow in End" axisLabel="Arrow" data={analysis.byShot} isMobile={isMobile} />
+      <div className="stats-chart__legend fatigue-chart__legend">
+        <span className="stats-chart__legend-item stats-chart__legend-item--active">
+          <span className="stats-chart__legend-swatch" style={{ backgroundColor: SCORE_COLOR }} />
+          <span style={{ color: SCORE_COLOR }}>Average score</span>
+        </span>
+        <span className="stats-chart__legend-item stats-chart__legend-item--active">
+          <span className="stats-chart__legend-swatch" style={{ backgroundColor: DISTANCE_COLOR }} />
+          <span style={{ color: DISTANCE_COLOR }}>Distance from centre (lower is better)</span>
+        </span>
+      </div>
+    </>
+  )
+}
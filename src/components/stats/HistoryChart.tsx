@@ -8,6 +8,8 @@ interface ChartDatum {
   avgScore: number
   avgDistance: number
   avgPrecision: number
+  // Session details shown alongside the practice in the tooltip
+  session?: string
 }
 
 interface LineMetric {
@@ -130,6 +132,10 @@ export const HistoryChart = ({
               color: '#e2e8f0',
             }}
             labelStyle={{ color: '#e2e8f0' }}
+            labelFormatter={(label, payload) => {
+              const session = (payload?.[0]?.payload as ChartDatum | undefined)?.session
+              return session ? `${label} · ${session}` : label
+            }}
             cursor={{ stroke: '#475569', strokeWidth: 2 }}
             wrapperStyle={{ pointerEvents: 'none' }}
           />
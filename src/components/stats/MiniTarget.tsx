@@ -1,29 +1,27 @@
-import { useMemo } from 'react'
-import { RING_COUNT } from '../../utils/constants'
-import { generateRingColors } from '../../utils/helpers'
-import type { Shot } from '../../utils/types'
+import { DEFAULT_TARGET_FACE } from '../../utils/targetFaces'
+import { getPositionedShots } from '../../utils/helpers'
+import type { Shot, TargetFace } from '../../utils/types'
 
 interface MiniTargetProps {
   shots: Shot[]
+  face?: TargetFace
 }
 
-export const MiniTarget = ({ shots }: MiniTargetProps) => {
-  const ringColors = useMemo(() => generateRingColors(RING_COUNT), [])
-
+export const MiniTarget = ({ shots, face = DEFAULT_TARGET_FACE }: MiniTargetProps) => {
   return (
     <div className="mini-target">
-      {ringColors.map((color, index) => (
+      {face.rings.map(ring => (
         <div
-          key={index}
+          key={ring.score}
           className="mini-target__ring"
           style={{
-            backgroundColor: color,
-            width: `${100 - (index / RING_COUNT) * 100}%`,
-            height: `${100 - (index / RING_COUNT) * 100}%`,
+            backgroundColor: ring.color,
+            width: `${ring.radius * 100}%`,
+            height: `${ring.radius * 100}%`,
           }}
         />
       ))}
-      {shots.map((shot, shotIndex) => (
+      {getPositionedShots(shots).map((shot, shotIndex) => (
         <div
           key={shotIndex}
           className="mini-target__dot"
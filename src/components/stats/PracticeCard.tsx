@@ -1,7 +1,11 @@
 import { useEffect, useMemo, useRef, useState } from 'react'
 import { calculateAverage } from '../../utils/helpers'
+import { getTargetFace } from '../../utils/targetFaces'
+import { getSegmentKey, groupEndsBySegment } from '../../utils/segments'
+import { formatSessionDetails } from '../../utils/sessionDetails'
 import type { Round } from '../../utils/types'
 import { PracticeEnd } from './PracticeEnd'
+import { RoundEditor } from './RoundEditor'
 
 type SaveStatus = 'idle' | 'saving' | 'saved'
 
@@ -11,6 +15,7 @@ interface PracticeCardProps {
   formattedDate: string
   onRequestDelete: (roundId: string) => void
   onSaveNotes: (roundId: string, notes: string) => Promise<void>
+  onSaveRound?: (round: Round) => Promise<void>
   isDeleting: boolean
   isDeletePending: boolean
 }
@@ -23,10 +28,12 @@ export const PracticeCard = ({
   formattedDate,
   onRequestDelete,
   onSaveNotes,
+  onSaveRound,
   isDeleting,
   isDeletePending,
 }: PracticeCardProps) => {
   const [isExpanded, setIsExpanded] = useState(false)
+  const [isEditing, setIsEditing] = useState(false)
   const [expandedEnds, setExpandedEnds] = useState<Record<number, boolean>>({})
   const [notes, setNotes] = useState(round.notes ?? '')
   const [hasChanges, setHasChanges] = useState(false)
@@ -45,6 +52,13 @@ export const PracticeCard = ({
     }
   }, [])
 
+  const face = getTargetFace(round.faceId)
+  const segmentGroups = useMemo(() => groupEndsBySegment(round), [round])
+  const segmentSubtotals = segmentGroups.flatMap(group =>
+    group.segment ? [`${getSegmentKey(group.segment)}: ${group.subtotal}`] : [],
+  )
+  const sessionTags = formatSessionDetails(round.session)
+
   const avgRoundPrecision = useMemo(() => {
     const roundPrecisions = round.ends.map(end => end.precision).filter(precision => precision > 0)
     return calculateAverage(roundPrecisions)
@@ -96,7 +110,20 @@ export const PracticeCard = ({
       <div className="practice-card__header">
         <div>
           <p className="practice-card__title">Practice #{practiceNumber}</p>
-          <p className="practice-card__timestamp">{formattedDate}</p>
+          <p className="practice-card__timestamp">
+            {formattedDate}
+            {round.editedAt ? ' · Edited' : ''}
+          </p>
+          <p className="practice-card__face">
+            {segmentSubtotals.length > 0 ? segmentSubtotals.join(' · ') : face.name}
+          </p>
+          {sessionTags.length > 0 && (
+            <ul className="practice-card__tags" aria-label="Session details">
+              {sessionTags.map(tag => (
+                <li key={tag} className="practice-card__tag">{tag}</li>
+              ))}
+            </ul>
+          )}
           {avgRoundPrecision > 0 && (
             <p className="practice-card__precision">
               Avg Precision: {formatUnits(avgRoundPrecision)} units
@@ -188,18 +215,50 @@ export const PracticeCard = ({
               rows={3}
             />
           </div>
-          <div className="practice-card__body">
-            {round.ends.map((end, endIndex) => (
-              <PracticeEnd
-                key={`${round.id}-end-${endIndex}`}
-                roundId={round.id}
-                end={end}
-                endIndex={endIndex}
-                isExpanded={Boolean(expandedEnds[endIndex])}
-                onToggle={() => handleToggleEnd(endIndex)}
-              />
-            ))}
-          </div>
+          {onSaveRound && isEditing ? (
+            <RoundEditor
+              round={round}
+              onSave={async editedRound => {
+                await onSaveRound(editedRound)
+                setIsEditing(false)
+              }}
+              onCancel={() => setIsEditing(false)}
+            />
+          ) : (
+            <div className="practice-card__body">
+              {onSaveRound && (
+                <button type="button" className="practice-card__edit" onClick={() => setIsEditing(true)}>
+                  Edit arrows
+                </button>
+              )}
+              {segmentGroups.map(group => (
+                <div key={`${round.id}-segment-${group.startIndex}`} className="practice-card__segment">
+                  {group.segment && (
+                    <div className="practice-card__segment-header">
+                      <span className="practice-card__segment-label">
+                        {getSegmentKey(group.segment)} · {group.face.name}
+                      </span>
+                      <span className="practice-card__segment-subtotal">{group.subtotal} pts</span>
+                    </div>
+                  )}
+                  {group.ends.map((end, groupEndIndex) => {
+                    const endIndex = group.startIndex + groupEndIndex
+                    return (
+                      <PracticeEnd
+                        key={`${round.id}-end-${endIndex}`}
+                        roundId={round.id}
+                        end={end}
+                        endIndex={endIndex}
+                        isExpanded={Boolean(expandedEnds[endIndex])}
+                        onToggle={() => handleToggleEnd(endIndex)}
+                        face={group.face}
+                      />
+                    )
+                  })}
+                </div>
+              ))}
+            </div>
+          )}
         </div>
       )}
     </div>
@@ -11,11 +11,19 @@ interface PracticeListProps {
   entries: PracticeEntry[]
   onRequestDelete: (roundId: string) => void
   onSaveNotes: (roundId: string, notes: string) => Promise<void>
+  onSaveRound?: (round: Round) => Promise<void>
   pendingDeleteId: string | null
   isDeleting: boolean
 }
 
-export const PracticeList = ({ entries, onRequestDelete, onSaveNotes, pendingDeleteId, isDeleting }: PracticeListProps) => (
+export const PracticeList = ({
+  entries,
+  onRequestDelete,
+  onSaveNotes,
+  onSaveRound,
+  pendingDeleteId,
+  isDeleting,
+}: PracticeListProps) => (
   <>
     {entries.map(entry => (
       <PracticeCard
@@ -25,6 +33,7 @@ export const PracticeList = ({ entries, onRequestDelete, onSaveNotes, pendingDel
         formattedDate={entry.formattedDate}
         onRequestDelete={onRequestDelete}
         onSaveNotes={onSaveNotes}
+        onSaveRound={onSaveRound}
         isDeleting={isDeleting}
         isDeletePending={pendingDeleteId === entry.round.id}
       />
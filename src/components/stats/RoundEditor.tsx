@@ -0,0 +1,148 @@
+import { useState, type MouseEvent, type PointerEvent } from 'react'
+import { DEFAULT_SHOTS_PER_END } from '../../utils/constants'
+import { formatShotValue, getTargetPosition } from '../../utils/helpers'
+import { addShot, deleteShot, moveShot } from '../../utils/roundEditing'
+import { getFaceForEnd } from '../../utils/segments'
+import type { Round } from '../../utils/types'
+import { Target } from '../Target'
+
+interface RoundEditorProps {
+  round: Round
+  onSave: (round: Round) => Promise<void>
+  onCancel: () => void
+}
+
+export const RoundEditor = ({ round, onSave, onCancel }: RoundEditorProps) => {
+  const [draft, setDraft] = useState(round)
+  const [endIndex, setEndIndex] = useState(0)
+  const [draggingShotIndex, setDraggingShotIndex] = useState<number | null>(null)
+  const [isSaving, setIsSaving] = useState(false)
+
+  const shotsPerEnd = draft.shotsPerEnd ?? DEFAULT_SHOTS_PER_END
+  const end = draft.ends[endIndex]
+  const face = getFaceForEnd(draft, endIndex)
+  const hasChanges = draft !== round
+
+  const handleTargetClick = (event: MouseEvent<HTMLDivElement>) => {
+    // A click that ends a drag lands on the arrow itself and shouldn't add another one
+    if (event.target instanceof HTMLElement && event.target.classList.contains('shot-dot--draggable')) {
+      return
+    }
+    if (!end || end.shots.length >= shotsPerEnd) {
+      return
+    }
+
+    const { x, y } = getTargetPosition(event.clientX, event.clientY, event.currentTarget.getBoundingClientRect())
+    setDraft(previous => addShot(previous, endIndex, x, y))
+  }
+
+  const handleShotPointerDown = (shotIndex: number, event: PointerEvent<HTMLDivElement>) => {
+    event.stopPropagation()
+    // Keep receiving moves if the pointer leaves the arrow mid-drag
+    event.currentTarget.setPointerCapture?.(event.pointerId)
+    setDraggingShotIndex(shotIndex)
+  }
+
+  const handlePointerMove = (event: PointerEvent<HTMLDivElement>) => {
+    if (draggingShotIndex === null) {
+      return
+    }
+
+    const { x, y } = getTargetPosition(event.clientX, event.clientY, event.currentTarget.getBoundingClientRect())
+    setDraft(previous => moveShot(previous, endIndex, draggingShotIndex, x, y))
+  }
+
+  const handleSelectEnd = (nextEndIndex: number) => {
+    setDraggingShotIndex(null)
+    setEndIndex(nextEndIndex)
+  }
+
+  const handleSave = async () => {
+    setIsSaving(true)
+    try {
+      await onSave({ ...draft, editedAt: new Date().toISOString() })
+    } catch (error) {
+      console.error('Failed to save round edits:', error)
+      alert('Failed to save your changes. Please try again.')
+    } finally {
+      setIsSaving(false)
+    }
+  }
+
+  return (
+    <div className="round-editor">
+      <div className="round-editor__nav">
+        <button
+          type="button"
+          className="round-editor__nav-button"
+          onClick={() => handleSelectEnd(endIndex - 1)}
+          disabled={endIndex === 0}
+          aria-label="Previous end"
+        >
+          ‹
+        </button>
+        <span className="round-editor__end-label">
+          End {endIndex + 1} of {draft.ends.length} · {end?.endScore ?? 0} pts
+        </span>
+        <button
+          type="button"
+          className="round-editor__nav-button"
+          onClick={() => handleSelectEnd(endIndex + 1)}
+          disabled={endIndex >= draft.ends.length - 1}
+          aria-label="Next end"
+        >
+          ›
+        </button>
+      </div>
+
+      <Target
+        face={face}
+        currentRound={draft.ends}
+        currentEndIndex={endIndex}
+        activeShot={null}
+        onTargetClick={handleTargetClick}
+        onShotPointerDown={handleShotPointerDown}
+        onPointerMove={handlePointerMove}
+        onPointerUp={() => setDraggingShotIndex(null)}
+        draggingShotIndex={draggingShotIndex}
+      />
+
+      <p className="round-editor__hint">
+        Drag an arrow to move it, or tap the target to add one ({end?.shots.length ?? 0} / {shotsPerEnd}).
+      </p>
+
+      <ul className="round-editor__shots">
+        {end?.shots.map((shot, shotIndex) => (
+          <li key={shotIndex} className="round-editor__shot">
+            <span>{formatShotValue(shot)}</span>
+            <button
+              type="button"
+              className="round-editor__shot-delete"
+              onClick={() => setDraft(previous => deleteShot(previous, endIndex, shotIndex))}
+              aria-label={`Delete arrow ${shotIndex + 1}`}
+            >
+              ×
+            </button>
+          </li>
+        ))}
+      </ul>
+
+      <div className="round-editor__footer">
+        <span className="round-editor__total">Total: {draft.totalScore}</span>
+        <div className="round-editor__actions">
+          <button type="button" className="round-editor__button round-editor__button--secondary" onClick={onCancel}>
+            Cancel
+          </button>
+          <button
+            type="button"
+            className="round-editor__button"
+            onClick={handleSave}
+            disabled={!hasChanges || isSaving}
+          >
+            {isSaving ? 'Saving...' : 'Save changes'}
+          </button>
+        </div>
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,58 @@
+import type { BowClass, ShootingVenue } from '../../utils/types'
+import { BOW_CLASSES, SHOOTING_VENUES, type SessionFilters } from '../../utils/sessionDetails'
+
+interface SessionFilterBarProps {
+  filters: SessionFilters
+  // Locations recorded across the archer's practices
+  locations: string[]
+  onChange: (filters: SessionFilters) => void
+}
+
+export const SessionFilterBar = ({ filters, locations, onChange }: SessionFilterBarProps) => {
+  const hasFilters = Boolean(filters.venue || filters.bowClass || filters.location)
+
+  return (
+    <div className="session-filters" role="group" aria-label="Filter practices by session">
+      <select
+        className="number-input session-filters__select"
+        value={filters.venue ?? ''}
+        onChange={event => onChange({ ...filters, venue: (event.target.value || undefined) as ShootingVenue | undefined })}
+        aria-label="Filter by indoor or outdoor"
+      >
+        <option value="">Indoor &amp; outdoor</option>
+        {SHOOTING_VENUES.map(option => (
+          <option key={option.value} value={option.value}>{option.label}</option>
+        ))}
+      </select>
+      <select
+        className="number-input session-filters__select"
+        value={filters.bowClass ?? ''}
+        onChange={event => onChange({ ...filters, bowClass: (event.target.value || undefined) as BowClass | undefined })}
+        aria-label="Filter by bow class"
+      >
+        <option value="">All bows</option>
+        {BOW_CLASSES.map(option => (
+          <option key={option.value} value={option.value}>{option.label}</option>
+        ))}
+      </select>
+      {locations.length > 0 && (
+        <select
+          className="number-input session-filters__select"
+          value={filters.location ?? ''}
+          onChange={event => onChange({ ...filters, location: event.target.value || undefined })}
+          aria-label="Filter by location"
+        >
+          <option value="">All locations</option>
+          {locations.map(location => (
+            <option key={location} value={location}>{location}</option>
+          ))}
+        </select>
+      )}
+      {hasFilters && (
+        <button type="button" className="session-filters__clear" onClick={() => onChange({})}>
+          Clear filters
+        </button>
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,94 @@
+import { useMemo } from 'react'
+import type { Round, SightMark } from '../../utils/types'
+import { filterRoundsByDistance, getRoundDistances, parseDistanceKey } from '../../utils/segments'
+import {
+  computePointOfImpact,
+  computeSightAdjustment,
+  describeSightAdjustment,
+  getCurrentSightMark,
+  getSightMarkKey,
+  toMetres,
+} from '../../utils/sightMarks'
+
+interface SightAdjustmentProps {
+  rounds: Round[]
+  // The distance picked in the aggregate controls, if any
+  distanceFilter: string | null
+  sightRadiusCm: number
+  sightClickMm: number
+  sightMarks: SightMark[]
+}
+
+const formatOffset = (valueCm: number, positive: string, negative: string): string =>
+  `${Math.abs(valueCm).toFixed(1)}cm ${valueCm >= 0 ? positive : negative}`
+
+export const SightAdjustment = ({
+  rounds,
+  distanceFilter,
+  sightRadiusCm,
+  sightClickMm,
+  sightMarks,
+}: SightAdjustmentProps) => {
+  // A sight mark only holds for one distance, so mixed distances can't be combined
+  const distances = useMemo(() => getRoundDistances(rounds), [rounds])
+  const distanceKey = distanceFilter ?? (distances.length === 1 ? distances[0] : null)
+  const distance = distanceKey ? parseDistanceKey(distanceKey) : null
+  const impact = useMemo(
+    () => (distanceKey ? computePointOfImpact(filterRoundsByDistance(rounds, distanceKey)) : null),
+    [rounds, distanceKey],
+  )
+
+  if (!distance || !distanceKey) {
+    return (
+      <div className="sight-adjustment">
+        <h3 className="sight-adjustment__title">Sight Adjustment</h3>
+        <p className="sight-adjustment__text">
+          {distances.length > 1
+            ? 'Pick a distance above to get a sight adjustment for it.'
+            : 'Record the distance with your practices to get sight adjustments.'}
+        </p>
+      </div>
+    )
+  }
+
+  const currentMark = sightMarks.find(mark => getSightMarkKey(mark) === distanceKey)
+  const currentReading = currentMark ? getCurrentSightMark(currentMark) : undefined
+  const isSightSet = sightRadiusCm > 0 && sightClickMm > 0
+  const adjustment = impact && isSightSet
+    ? computeSightAdjustment(impact, toMetres(distance.distance, distance.distanceUnit), sightRadiusCm, sightClickMm)
+    : null
+
+  return (
+    <div className="sight-adjustment">
+      <h3 className="sight-adjustment__title">Sight Adjustment at {distanceKey}</h3>
+      {impact ? (
+        <p className="sight-adjustment__text">
+          Group centre over {impact.shotCount} shots: {formatOffset(impact.yCm, 'high', 'low')},{' '}
+          {formatOffset(impact.xCm, 'right', 'left')}
+        </p>
+      ) : (
+        <p className="sight-adjustment__text">No plotted shots at this distance.</p>
+      )}
+      {impact && !isSightSet && (
+        <p className="sight-adjustment__text">Set your sight radius and click size in Profile to get sight clicks.</p>
+      )}
+      {adjustment && (
+        <>
+          <p className="sight-adjustment__recommendation" role="status">
+            {describeSightAdjustment(adjustment)}
+          </p>
+          <p className="sight-adjustment__text">
+            Aperture travel: {Math.abs(adjustment.elevationMm).toFixed(2)}mm {adjustment.elevationMm >= 0 ? 'up' : 'down'},{' '}
+            {Math.abs(adjustment.windageMm).toFixed(2)}mm {adjustment.windageMm >= 0 ? 'right' : 'left'} with a{' '}
+            {sightRadiusCm}cm sight radius and {sightClickMm}mm clicks
+          </p>
+        </>
+      )}
+      <p className="sight-adjustment__text">
+        {currentReading
+          ? `Current mark: elevation ${currentReading.elevation}, windage ${currentReading.windage} (set ${currentReading.date})`
+          : 'No sight mark recorded for this distance yet. Add one in Profile.'}
+      </p>
+    </div>
+  )
+}
@@ -1,4 +1,4 @@
-export type StatsTab = 'history' | 'aggregate'
+export type StatsTab = 'history' | 'aggregate' | 'fatigue' | 'arrows' | 'equipment'
 
 interface StatsTabsProps {
   activeTab: StatsTab
@@ -21,5 +21,26 @@ export const StatsTabs = ({ activeTab, onTabChange }: StatsTabsProps) => (
     >
       Aggregate Stats
     </button>
+    <button
+      className={`stats-tab ${activeTab === 'fatigue' ? 'stats-tab--active' : ''}`}
+      onClick={() => onTabChange('fatigue')}
+      type="button"
+    >
+      Ends &amp; Arrows
+    </button>
+    <button
+      className={`stats-tab ${activeTab === 'arrows' ? 'stats-tab--active' : ''}`}
+      onClick={() => onTabChange('arrows')}
+      type="button"
+    >
+      Arrows
+    </button>
+    <button
+      className={`stats-tab ${activeTab === 'equipment' ? 'stats-tab--active' : ''}`}
+      onClick={() => onTabChange('equipment')}
+      type="button"
+    >
+      Equipment
+    </button>
   </div>
 )
@@ -1,7 +1,7 @@
 // Import the functions you need from the SDKs you need
 import { initializeApp } from "firebase/app";
-import { getAuth, GoogleAuthProvider } from "firebase/auth";
-import { getFirestore } from "firebase/firestore";
+import { getAuth, GoogleAuthProvider, connectAuthEmulator } from "firebase/auth";
+import { getFirestore, connectFirestoreEmulator } from "firebase/firestore";
 // TODO: Add SDKs for Firebase products that you want to use
 // https://firebase.google.com/docs/web/setup#available-libraries
 
@@ -23,4 +23,16 @@ export const auth = getAuth(app);
 export const googleProvider = new GoogleAuthProvider();
 
 // Firestore Database
-export const db = getFirestore(app);
\ No newline at end of file
+export const db = getFirestore(app);
+
+// Local development against the Firebase emulators, e.g. VITE_FIRESTORE_EMULATOR_HOST=127.0.0.1:8080
+const firestoreEmulatorHost = import.meta.env.VITE_FIRESTORE_EMULATOR_HOST;
+if (firestoreEmulatorHost) {
+  const [host, port] = firestoreEmulatorHost.split(":");
+  connectFirestoreEmulator(db, host, Number(port));
+}
+
+const authEmulatorUrl = import.meta.env.VITE_AUTH_EMULATOR_URL;
+if (authEmulatorUrl) {
+  connectAuthEmulator(auth, authEmulatorUrl, { disableWarnings: true });
+}
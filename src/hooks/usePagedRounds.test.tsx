@@ -0,0 +1,43 @@
+import { describe, it, expect } from 'vitest'
+import { act, renderHook, waitFor } from '@testing-library/react'
+import type { Round } from '../utils/types'
+import { createLocalRoundRepository } from '../utils/localRoundRepository'
+import { usePagedRounds } from './usePagedRounds'
+
+const makeRound = (id: string, createdAt: string): Round => ({
+  id,
+  createdAt,
+  ends: [],
+  totalScore: 0,
+})
+
+const keepRound = (round: Round) => round
+
+describe('usePagedRounds', () => {
+  it("doesn't carry one archer's queued rounds into the next account", async () => {
+    const repository = createLocalRoundRepository({
+      initialRounds: { 'user-2': [makeRound('synced', '2026-05-01T10:00:00Z')] },
+    })
+    const { result, rerender } = renderHook(
+      ({ userId }: { userId: string | null }) =>
+        usePagedRounds({
+          userId,
+          enabled: true,
+          subscribe: repository.subscribe,
+          loadPage: repository.listPage,
+          fromRound: keepRound,
+        }),
+      { initialProps: { userId: 'guest' as string | null } },
+    )
+    await waitFor(() => expect(result.current.isLoading).toBe(false))
+
+    // A round saved by the guest that hasn't reached storage yet
+    act(() => {
+      result.current.setItems(prev => [{ ...makeRound('queued', '2026-05-02T10:00:00Z'), pendingSync: true }, ...prev])
+    })
+    rerender({ userId: 'user-2' })
+
+    await waitFor(() => expect(result.current.isLoading).toBe(false))
+    expect(result.current.items.map(round => round.id)).toEqual(['synced'])
+  })
+})
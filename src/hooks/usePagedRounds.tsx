@@ -0,0 +1,115 @@
+import { useEffect, useState } from 'react'
+import type { Round } from '../utils/types'
+import type { Unsubscribe } from '../utils/roundRepository'
+import { ROUNDS_PAGE_SIZE } from '../utils/constants'
+import { loadPendingRounds, mergePendingRounds } from '../utils/offlineStore'
+import { applyRoundsUpdate, upsertRounds, type RoundListItem, type RoundsPage, type RoundsSnapshot } from '../utils/roundLists'
+
+interface UsePagedRoundsProps<T extends RoundListItem> {
+  userId: string | null
+  enabled: boolean
+  subscribe: (
+    userId: string,
+    onChange: (snapshot: RoundsSnapshot<T>) => void,
+    onError?: (error: Error) => void,
+  ) => Unsubscribe
+  loadPage: (userId: string, afterCreatedAt: string) => Promise<RoundsPage<T>>
+  fromRound: (round: Round) => T
+}
+
+/**
+ * Custom hook to keep a list of rounds in step with Firestore.
+ * The newest page stays live while `enabled`, older pages are fetched on demand, and
+ * rounds still queued on this device are mixed in.
+ *
+ * @param userId - Signed-in user, or null when signed out
+ * @param enabled - Whether the live subscription should be running
+ * @param subscribe - Subscribes to the newest page of rounds
+ * @param loadPage - Loads the page of rounds older than a cursor
+ * @param fromRound - Converts a locally queued round into a list item
+ */
+export const usePagedRounds = <T extends RoundListItem>({
+  userId,
+  enabled,
+  subscribe,
+  loadPage,
+  fromRound,
+}: UsePagedRoundsProps<T>) => {
+  const [items, setItems] = useState<T[]>([])
+  // Whose rounds `items` holds, so another identity never sees them
+  const [itemsUserId, setItemsUserId] = useState(userId)
+  const [loadedUserId, setLoadedUserId] = useState<string | null>(null)
+  const [hasMore, setHasMore] = useState(false)
+  const [isLoadingMore, setIsLoadingMore] = useState(false)
+
+  // Start from an empty list when the archer signs in, out or switches accounts
+  if (itemsUserId !== userId) {
+    setItemsUserId(userId)
+    setItems([])
+    setHasMore(false)
+  }
+
+  useEffect(() => {
+    if (!userId || !enabled) return
+
+    let isFirstSnapshot = true
+    let isActive = true
+
+    loadPendingRounds(userId)
+      .then(pendingRounds => {
+        if (isActive) {
+          setItems(prev => mergePendingRounds(prev, pendingRounds.map(fromRound)))
+        }
+      })
+      .catch(error => console.error('Failed to load pending rounds:', error))
+
+    const unsubscribe = subscribe(
+      userId,
+      ({ rounds, removedIds }) => {
+        const replace = isFirstSnapshot
+        isFirstSnapshot = false
+
+        // The first snapshot replaces whatever was cached before, apart from rounds only on this device
+        setItems(prev =>
+          replace
+            ? mergePendingRounds(rounds, prev.filter(item => item.pendingSync))
+            : applyRoundsUpdate(prev, rounds, removedIds),
+        )
+        if (replace) {
+          setHasMore(rounds.length >= ROUNDS_PAGE_SIZE)
+        }
+        setLoadedUserId(userId)
+      },
+      () => setLoadedUserId(userId),
+    )
+    return () => {
+      isActive = false
+      unsubscribe()
+    }
+  }, [userId, enabled, subscribe, fromRound])
+
+  const loadMore = async () => {
+    const oldest = items[items.length - 1]
+    if (!userId || !oldest || isLoadingMore) return
+
+    setIsLoadingMore(true)
+    try {
+      const page = await loadPage(userId, oldest.createdAt)
+      setItems(prev => upsertRounds(prev, page.rounds))
+      setHasMore(page.hasMore)
+    } catch (error) {
+      console.error('Failed to load more practices:', error)
+    } finally {
+      setIsLoadingMore(false)
+    }
+  }
+
+  return {
+    items,
+    setItems,
+    isLoading: Boolean(userId) && enabled && loadedUserId !== userId,
+    hasMore,
+    isLoadingMore,
+    loadMore,
+  }
+}
@@ -0,0 +1,23 @@
+import { useReducer } from 'react'
+import { createRecordingHistory, describeRecordedAction, recordingReducer } from '../utils/recordingSession'
+
+/**
+ * Custom hook holding the round being recorded, with undo/redo across the whole session.
+ * Changes are made by dispatching actions; see `recordingReducer` for what each one does.
+ */
+export const useRecordingSession = () => {
+  const [history, dispatch] = useReducer(recordingReducer, undefined, () => createRecordingHistory())
+
+  const lastDone = history.past[history.past.length - 1]
+  const lastUndone = history.future[history.future.length - 1]
+
+  return {
+    state: history.present,
+    dispatch,
+    canUndo: Boolean(lastDone),
+    canRedo: Boolean(lastUndone),
+    // What undo/redo would change, e.g. "last shot", for button labels
+    undoLabel: lastDone ? describeRecordedAction(lastDone.type) : undefined,
+    redoLabel: lastUndone ? describeRecordedAction(lastUndone.type) : undefined,
+  }
+}
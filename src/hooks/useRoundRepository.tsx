@@ -0,0 +1,11 @@
+import { createContext, useContext } from 'react'
+import type { RoundRepository } from '../utils/roundRepository'
+import { firestoreRoundRepository } from '../utils/firestoreRoundRepository'
+
+/**
+ * The round storage the app reads and writes through. Defaults to Firestore;
+ * wrap the app in `RoundRepositoryContext.Provider` to swap in another implementation.
+ */
+export const RoundRepositoryContext = createContext<RoundRepository>(firestoreRoundRepository)
+
+export const useRoundRepository = (): RoundRepository => useContext(RoundRepositoryContext)
@@ -0,0 +1,77 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest'
+import { act, renderHook } from '@testing-library/react'
+import { createPointerEvent, createTargetWrapper } from '../test/pointerEvents'
+import { useShotPlacement } from './useShotPlacement'
+
+describe('useShotPlacement', () => {
+  const wrapper = createTargetWrapper()
+  const onPlace = vi.fn()
+  const onMove = vi.fn()
+
+  const renderPlacement = (canPlace = true) =>
+    renderHook(() => useShotPlacement({ canPlace, onPlace, onMove }))
+
+  beforeEach(() => {
+    vi.useFakeTimers()
+  })
+
+  afterEach(() => {
+    vi.useRealTimers()
+  })
+
+  it('follows the finger and places the arrow where it is lifted', () => {
+    const { result } = renderPlacement()
+
+    act(() => result.current.handlePointerDown(createPointerEvent(wrapper, 1, 100, 100)))
+    act(() => result.current.handlePointerMove(createPointerEvent(wrapper, 1, 135, 100)))
+    expect(result.current.placement).toEqual({ shotIndex: null, x: 0.5, y: 0 })
+    expect(onPlace).not.toHaveBeenCalled()
+
+    act(() => result.current.handlePointerUp(createPointerEvent(wrapper, 1, 170, 100)))
+
+    expect(onPlace).toHaveBeenCalledWith(1, 0)
+    expect(result.current.placement).toBeNull()
+  })
+
+  it('moves a dragged arrow instead of placing a new one', () => {
+    const { result } = renderPlacement(false)
+
+    act(() => result.current.handleShotPointerDown(2, createPointerEvent(wrapper, 1, 100, 100, 'mouse')))
+    act(() => result.current.handlePointerUp(createPointerEvent(wrapper, 1, 100, 135, 'mouse')))
+
+    expect(onMove).toHaveBeenCalledWith(2, 0, 0.5)
+    expect(onPlace).not.toHaveBeenCalled()
+  })
+
+  it('leaves mouse clicks to the click handler and full ends alone', () => {
+    const { result } = renderPlacement()
+    act(() => result.current.handlePointerDown(createPointerEvent(wrapper, 1, 100, 100, 'mouse')))
+    expect(result.current.placement).toBeNull()
+
+    const { result: fullEnd } = renderPlacement(false)
+    act(() => fullEnd.current.handlePointerDown(createPointerEvent(wrapper, 1, 100, 100)))
+    expect(fullEnd.current.placement).toBeNull()
+  })
+
+  it("doesn't place an arrow once the placement is cancelled", () => {
+    const { result } = renderPlacement()
+
+    act(() => result.current.handlePointerDown(createPointerEvent(wrapper, 1, 100, 100)))
+    act(() => result.current.handlePointerCancel())
+    act(() => result.current.handlePointerUp(createPointerEvent(wrapper, 1, 100, 100)))
+
+    expect(onPlace).not.toHaveBeenCalled()
+  })
+
+  it('ignores the click that follows a placed arrow', () => {
+    const { result } = renderPlacement()
+    expect(result.current.shouldIgnoreClick()).toBe(false)
+
+    act(() => result.current.handlePointerDown(createPointerEvent(wrapper, 1, 100, 100)))
+    act(() => result.current.handlePointerUp(createPointerEvent(wrapper, 1, 100, 100)))
+    expect(result.current.shouldIgnoreClick()).toBe(true)
+
+    vi.advanceTimersByTime(1000)
+    expect(result.current.shouldIgnoreClick()).toBe(false)
+  })
+})
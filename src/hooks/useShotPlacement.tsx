@@ -0,0 +1,94 @@
+import { useRef, useState, type PointerEvent } from 'react'
+import type { TargetView } from '../utils/types'
+import { getTargetPosition } from '../utils/helpers'
+
+export type ShotPlacement = {
+  // The arrow being dragged in the current end, or null while placing a new one
+  shotIndex: number | null
+  x: number
+  y: number
+}
+
+interface UseShotPlacementProps {
+  canPlace: boolean
+  view?: TargetView
+  onPlace: (x: number, y: number) => void
+  onMove: (shotIndex: number, x: number, y: number) => void
+}
+
+// Browsers follow a pointer release with a click; ignore it so the arrow isn't placed twice
+const CLICK_AFTER_PLACEMENT_MS = 600
+
+const getWrapperPosition = (event: PointerEvent<HTMLElement>, view?: TargetView) => {
+  const wrapper = event.currentTarget.closest('.target-wrapper') ?? event.currentTarget
+  return getTargetPosition(event.clientX, event.clientY, wrapper.getBoundingClientRect(), view)
+}
+
+/**
+ * Custom hook for placing arrows by touch-and-hold: the arrow follows the finger and is only
+ * committed on release. Arrows already in the current end can be dragged the same way with any pointer.
+ * Mouse clicks on the face still place arrows straight away through the target's click handler.
+ *
+ * @param canPlace - Whether the current end has room for another arrow
+ * @param view - The target's current zoom and pan
+ * @param onPlace - Commits a new arrow at the release point
+ * @param onMove - Commits a dragged arrow at the release point
+ */
+export const useShotPlacement = ({ canPlace, view, onPlace, onMove }: UseShotPlacementProps) => {
+  const [placement, setPlacement] = useState<ShotPlacement | null>(null)
+  const lastCommitRef = useRef(0)
+
+  const handlePointerDown = (event: PointerEvent<HTMLDivElement>) => {
+    if (event.pointerType === 'mouse' || !canPlace) {
+      return
+    }
+
+    event.currentTarget.setPointerCapture?.(event.pointerId)
+    setPlacement({ shotIndex: null, ...getWrapperPosition(event, view) })
+  }
+
+  const handleShotPointerDown = (shotIndex: number, event: PointerEvent<HTMLDivElement>) => {
+    event.stopPropagation()
+    event.currentTarget.setPointerCapture?.(event.pointerId)
+    setPlacement({ shotIndex, ...getWrapperPosition(event, view) })
+  }
+
+  const handlePointerMove = (event: PointerEvent<HTMLDivElement>) => {
+    if (!placement) {
+      return
+    }
+
+    setPlacement({ ...placement, ...getWrapperPosition(event, view) })
+  }
+
+  const handlePointerUp = (event: PointerEvent<HTMLDivElement>) => {
+    if (!placement) {
+      return
+    }
+
+    const { x, y } = getWrapperPosition(event, view)
+    if (placement.shotIndex === null) {
+      onPlace(x, y)
+    } else {
+      onMove(placement.shotIndex, x, y)
+    }
+    lastCommitRef.current = Date.now()
+    setPlacement(null)
+  }
+
+  const handlePointerCancel = () => {
+    setPlacement(null)
+  }
+
+  const shouldIgnoreClick = () => Date.now() - lastCommitRef.current < CLICK_AFTER_PLACEMENT_MS
+
+  return {
+    placement,
+    handlePointerDown,
+    handleShotPointerDown,
+    handlePointerMove,
+    handlePointerUp,
+    handlePointerCancel,
+    shouldIgnoreClick,
+  }
+}
@@ -0,0 +1,119 @@
+import { describe, it, expect, vi } from 'vitest'
+import { act, renderHook } from '@testing-library/react'
+import type { PointerEvent } from 'react'
+import { createPointerEvent, createTargetWrapper } from '../test/pointerEvents'
+import { DEFAULT_TARGET_VIEW } from '../utils/targetZoom'
+import { useShotPlacement } from './useShotPlacement'
+import { useTargetZoom } from './useTargetZoom'
+
+describe('useTargetZoom', () => {
+  const wrapper = createTargetWrapper()
+
+  it('leaves a single finger to arrow placement', () => {
+    const { result } = renderHook(() => useTargetZoom())
+
+    expect(result.current.handlePointerDown(createPointerEvent(wrapper, 1, 100, 100))).toBe(false)
+    expect(result.current.handlePointerMove(createPointerEvent(wrapper, 1, 120, 100))).toBe(false)
+    expect(result.current.handlePointerUp(createPointerEvent(wrapper, 1, 120, 100))).toBe(false)
+    expect(result.current.view).toEqual(DEFAULT_TARGET_VIEW)
+  })
+
+  it('zooms in as two fingers spread apart', () => {
+    const { result } = renderHook(() => useTargetZoom())
+
+    act(() => {
+      result.current.handlePointerDown(createPointerEvent(wrapper, 1, 93, 100))
+      result.current.handlePointerDown(createPointerEvent(wrapper, 2, 107, 100))
+    })
+    act(() => {
+      result.current.handlePointerMove(createPointerEvent(wrapper, 1, 86, 100))
+      result.current.handlePointerMove(createPointerEvent(wrapper, 2, 114, 100))
+    })
+
+    expect(result.current.view.scale).toBeCloseTo(2)
+
+    act(() => result.current.resetZoom())
+    expect(result.current.view).toEqual(DEFAULT_TARGET_VIEW)
+  })
+
+  it('keeps the pinch until the last finger is lifted', () => {
+    const { result } = renderHook(() => useTargetZoom())
+
+    result.current.handlePointerDown(createPointerEvent(wrapper, 1, 90, 100))
+    expect(result.current.handlePointerDown(createPointerEvent(wrapper, 2, 110, 100))).toBe(true)
+
+    expect(result.current.handlePointerUp(createPointerEvent(wrapper, 2, 110, 100))).toBe(true)
+    expect(result.current.handlePointerMove(createPointerEvent(wrapper, 1, 95, 100))).toBe(true)
+    expect(result.current.handlePointerUp(createPointerEvent(wrapper, 1, 95, 100))).toBe(true)
+
+    // The next touch starts afresh
+    expect(result.current.handlePointerDown(createPointerEvent(wrapper, 3, 100, 100))).toBe(false)
+  })
+
+  describe('handing over with arrow placement', () => {
+    // Wired together the way the record page wires them: zoom first, placement when zoom stands aside
+    const renderTarget = () => {
+      const onPlace = vi.fn()
+      const { result } = renderHook(() => {
+        const zoom = useTargetZoom()
+        const placement = useShotPlacement({ canPlace: true, view: zoom.view, onPlace, onMove: vi.fn() })
+        return { zoom, placement }
+      })
+
+      const pointerDown = (event: PointerEvent<HTMLDivElement>) =>
+        act(() => {
+          if (result.current.zoom.handlePointerDown(event)) {
+            result.current.placement.handlePointerCancel()
+            return
+          }
+          result.current.placement.handlePointerDown(event)
+        })
+      const pointerMove = (event: PointerEvent<HTMLDivElement>) =>
+        act(() => {
+          if (!result.current.zoom.handlePointerMove(event)) {
+            result.current.placement.handlePointerMove(event)
+          }
+        })
+      const pointerUp = (event: PointerEvent<HTMLDivElement>) =>
+        act(() => {
+          if (!result.current.zoom.handlePointerUp(event)) {
+            result.current.placement.handlePointerUp(event)
+          }
+        })
+
+      return { result, onPlace, pointerDown, pointerMove, pointerUp }
+    }
+
+    it('cancels the arrow being placed when a second finger touches down', () => {
+      const { result, onPlace, pointerDown, pointerUp } = renderTarget()
+
+      pointerDown(createPointerEvent(wrapper, 1, 100, 100))
+      expect(result.current.placement.placement).not.toBeNull()
+
+      pointerDown(createPointerEvent(wrapper, 2, 120, 100))
+      expect(result.current.placement.placement).toBeNull()
+
+      pointerUp(createPointerEvent(wrapper, 1, 100, 100))
+      pointerUp(createPointerEvent(wrapper, 2, 120, 100))
+      expect(onPlace).not.toHaveBeenCalled()
+    })
+
+    it("doesn't place an arrow when the last finger of a pinch is lifted", () => {
+      const { result, onPlace, pointerDown, pointerMove, pointerUp } = renderTarget()
+
+      pointerDown(createPointerEvent(wrapper, 1, 93, 100))
+      pointerDown(createPointerEvent(wrapper, 2, 107, 100))
+      pointerMove(createPointerEvent(wrapper, 2, 121, 100))
+      pointerUp(createPointerEvent(wrapper, 2, 121, 100))
+
+      // The finger left behind neither drags an arrow nor places one
+      pointerMove(createPointerEvent(wrapper, 1, 80, 100))
+      expect(result.current.placement.placement).toBeNull()
+      pointerUp(createPointerEvent(wrapper, 1, 80, 100))
+
+      expect(onPlace).not.toHaveBeenCalled()
+      expect(result.current.placement.shouldIgnoreClick()).toBe(false)
+      expect(result.current.zoom.view.scale).toBeGreaterThan(1)
+    })
+  })
+})
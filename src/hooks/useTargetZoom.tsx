@@ -0,0 +1,99 @@
+import { useRef, useState, type PointerEvent } from 'react'
+import type { TargetView } from '../utils/types'
+import { getTargetPosition } from '../utils/helpers'
+import { DEFAULT_TARGET_VIEW, zoomTargetView } from '../utils/targetZoom'
+
+type Point = { x: number; y: number }
+
+type Pinch = {
+  // The view and finger positions when the second finger touched down
+  view: TargetView
+  distance: number
+  midpoint: Point
+}
+
+const getUnzoomedPosition = (event: PointerEvent<HTMLElement>): Point => {
+  const wrapper = event.currentTarget.closest('.target-wrapper') ?? event.currentTarget
+  return getTargetPosition(event.clientX, event.clientY, wrapper.getBoundingClientRect())
+}
+
+const getDistance = (a: Point, b: Point) => Math.max(Math.hypot(a.x - b.x, a.y - b.y), 0.001)
+
+const getMidpoint = (a: Point, b: Point): Point => ({ x: (a.x + b.x) / 2, y: (a.y + b.y) / 2 })
+
+/**
+ * Custom hook for pinch-zooming and panning the target with two fingers.
+ * Each pointer handler returns whether the event belonged to a pinch, so arrow placement can stand aside.
+ */
+export const useTargetZoom = () => {
+  const [view, setView] = useState<TargetView>(DEFAULT_TARGET_VIEW)
+  const pointersRef = useRef(new Map<number, Point>())
+  const pinchRef = useRef<Pinch | null>(null)
+
+  const handlePointerDown = (event: PointerEvent<HTMLDivElement>): boolean => {
+    if (event.pointerType !== 'touch') {
+      return false
+    }
+
+    const pointers = pointersRef.current
+    pointers.set(event.pointerId, getUnzoomedPosition(event))
+    if (pointers.size === 2) {
+      const [a, b] = [...pointers.values()]
+      pinchRef.current = { view, distance: getDistance(a, b), midpoint: getMidpoint(a, b) }
+    }
+    return pinchRef.current !== null
+  }
+
+  const handlePointerMove = (event: PointerEvent<HTMLDivElement>): boolean => {
+    const pointers = pointersRef.current
+    if (!pointers.has(event.pointerId)) {
+      return false
+    }
+
+    pointers.set(event.pointerId, getUnzoomedPosition(event))
+    const pinch = pinchRef.current
+    if (!pinch) {
+      return false
+    }
+
+    if (pointers.size >= 2) {
+      const [a, b] = [...pointers.values()]
+      setView(
+        zoomTargetView(
+          pinch.view,
+          (pinch.view.scale * getDistance(a, b)) / pinch.distance,
+          pinch.midpoint,
+          getMidpoint(a, b),
+        ),
+      )
+    }
+    return true
+  }
+
+  // Also used for cancelled pointers
+  const handlePointerUp = (event: PointerEvent<HTMLDivElement>): boolean => {
+    const pointers = pointersRef.current
+    if (!pointers.delete(event.pointerId)) {
+      return false
+    }
+
+    // The pinch lasts until every finger is lifted, so the last one doesn't place an arrow
+    const wasPinching = pinchRef.current !== null
+    if (pointers.size === 0) {
+      pinchRef.current = null
+    }
+    return wasPinching
+  }
+
+  const resetZoom = () => {
+    setView(DEFAULT_TARGET_VIEW)
+  }
+
+  return {
+    view,
+    handlePointerDown,
+    handlePointerMove,
+    handlePointerUp,
+    resetZoom,
+  }
+}
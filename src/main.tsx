@@ -2,9 +2,19 @@ import { StrictMode } from 'react'
 import { createRoot } from 'react-dom/client'
 import './index.css'
 import App from './App.tsx'
+import { RoundRepositoryContext } from './hooks/useRoundRepository'
+import { firestoreRoundRepository } from './utils/firestoreRoundRepository'
+import { createLocalRoundRepository } from './utils/localRoundRepository'
+
+const roundRepository =
+  import.meta.env.VITE_ROUND_STORE === 'local'
+    ? createLocalRoundRepository({ storage: window.localStorage })
+    : firestoreRoundRepository
 
 createRoot(document.getElementById('root')!).render(
   <StrictMode>
-    <App />
+    <RoundRepositoryContext.Provider value={roundRepository}>
+      <App />
+    </RoundRepositoryContext.Provider>
   </StrictMode>,
 )
@@ -0,0 +1,31 @@
+import type { PointerEvent } from 'react'
+
+/**
+ * A 200px square `.target-wrapper` at the top left of the page, so pointer positions map onto
+ * the face predictably: (100, 100) is the centre and the face edge is 70px out.
+ */
+export const createTargetWrapper = (): HTMLDivElement => {
+  const wrapper = document.createElement('div')
+  wrapper.className = 'target-wrapper'
+  wrapper.getBoundingClientRect = () => new DOMRect(0, 0, 200, 200)
+  return wrapper
+}
+
+/**
+ * A synthetic pointer event on `target`, enough for the target's pointer handlers
+ */
+export const createPointerEvent = (
+  target: HTMLDivElement,
+  pointerId: number,
+  clientX: number,
+  clientY: number,
+  pointerType = 'touch',
+) =>
+  ({
+    pointerId,
+    pointerType,
+    clientX,
+    clientY,
+    currentTarget: target,
+    stopPropagation: () => {},
+  }) as unknown as PointerEvent<HTMLDivElement>
@@ -0,0 +1,18 @@
+import { render } from '@testing-library/react'
+import App from '../App'
+import { RoundRepositoryContext } from '../hooks/useRoundRepository'
+import { createLocalRoundRepository } from '../utils/localRoundRepository'
+import type { RoundRepository } from '../utils/roundRepository'
+
+/**
+ * Renders the whole App on an in-memory round repository, so App-level tests never reach
+ * Firestore. Pass a repository to seed rounds or inspect what the App saved.
+ */
+export const renderApp = (repository: RoundRepository = createLocalRoundRepository()) => ({
+  ...render(
+    <RoundRepositoryContext.Provider value={repository}>
+      <App />
+    </RoundRepositoryContext.Provider>,
+  ),
+  repository,
+})
@@ -0,0 +1,93 @@
+import { describe, it, expect } from 'vitest'
+import type { Round } from './types'
+import {
+  applyAggregateFilters,
+  countActiveFilters,
+  DEFAULT_AGGREGATE_FILTERS,
+  hasStatsViewState,
+  readStatsViewState,
+  removeStatsViewState,
+  writeStatsViewState,
+  type AggregateFilters,
+} from './aggregateFilters'
+
+const makeRound = (id: string, createdAt: string, totalScore: number, overrides: Partial<Round> = {}): Round => ({
+  id,
+  createdAt,
+  ends: [],
+  totalScore,
+  faceId: 'wa-122',
+  ...overrides,
+})
+
+// Newest first, as the stats view sorts them
+const rounds = [
+  makeRound('d', '2026-03-04T12:00:00', 550, { faceId: 'wa-40-triple' }),
+  makeRound('c', '2026-03-03T12:00:00', 480),
+  makeRound('b', '2026-03-02T12:00:00', 520),
+  makeRound('a', '2026-03-01T12:00:00', 500),
+]
+
+const filter = (changes: Partial<AggregateFilters>) =>
+  applyAggregateFilters(rounds, { ...DEFAULT_AGGREGATE_FILTERS, ...changes }).map(round => round.id)
+
+describe('aggregate filters', () => {
+  it('takes the latest practices in range', () => {
+    expect(filter({ range: 2 })).toEqual(['d', 'c'])
+  })
+
+  it('filters by date, face and minimum score', () => {
+    expect(filter({ from: '2026-03-02', to: '2026-03-03' })).toEqual(['c', 'b'])
+    expect(filter({ faceId: 'wa-122' })).toEqual(['c', 'b', 'a'])
+    expect(filter({ minScore: 500 })).toEqual(['d', 'b', 'a'])
+  })
+
+  it('skips excluded practices before applying the range', () => {
+    expect(filter({ range: 2, excludedIds: ['c'] })).toEqual(['d', 'b'])
+  })
+
+  it('analyzes only picked practices, ignoring the range', () => {
+    expect(filter({ range: 1, practiceIds: ['a', 'c'], excludedIds: ['a'] })).toEqual(['c'])
+  })
+
+  it('counts the filters beyond range and distance', () => {
+    expect(countActiveFilters({ ...DEFAULT_AGGREGATE_FILTERS, distance: '70m' })).toBe(0)
+    expect(countActiveFilters({ ...DEFAULT_AGGREGATE_FILTERS, minScore: 0, excludedIds: ['a'] })).toBe(2)
+  })
+})
+
+describe('stats view links', () => {
+  it('round-trips a view through the query string, keeping other parameters', () => {
+    const state = {
+      tab: 'aggregate',
+      filters: {
+        range: 10,
+        distance: '70m',
+        from: '2026-01-01',
+        faceId: 'wa-80' as const,
+        minScore: 300,
+        practiceIds: ['a', 'b'],
+        excludedIds: ['c'],
+      },
+      session: { venue: 'outdoor' as const, location: 'Club field' },
+    }
+    const query = writeStatsViewState('?lang=en', state)
+    expect(new URLSearchParams(query).get('lang')).toBe('en')
+    expect(readStatsViewState(query)).toEqual(state)
+    expect(removeStatsViewState(query)).toBe('?lang=en')
+  })
+
+  it('leaves defaults out of the URL', () => {
+    const query = writeStatsViewState('', { tab: null, filters: DEFAULT_AGGREGATE_FILTERS, session: {} })
+    expect(query).toBe('')
+    expect(hasStatsViewState(query)).toBe(false)
+  })
+
+  it('ignores malformed values', () => {
+    expect(readStatsViewState('?range=-3&from=yesterday&face=dartboard&bow=slingshot&min=lots')).toEqual({
+      tab: null,
+      filters: DEFAULT_AGGREGATE_FILTERS,
+      session: {},
+    })
+  })
+})
@@ -0,0 +1,213 @@
+/**
+ * Filters for choosing which practices the aggregate stats cover, and their encoding in the
+ * page URL so a coach can share the exact view.
+ */
+
+import type { BowClass, Round, ShootingVenue, TargetFaceId } from './types'
+import { toLocalDateKey } from './helpers'
+import { getRoundFaceIds } from './segments'
+import { TARGET_FACES } from './targetFaces'
+import { BOW_CLASSES, SHOOTING_VENUES, type SessionFilters } from './sessionDetails'
+
+export type AggregateFilters = {
+  // How many of the latest matching practices to analyze
+  range: number
+  distance?: string
+  // Inclusive local dates, YYYY-MM-DD
+  from?: string
+  to?: string
+  faceId?: TargetFaceId
+  minScore?: number
+  // Hand-picked practices, analyzed instead of the latest `range`
+  practiceIds?: string[]
+  // Practices left out however the rest are chosen
+  excludedIds: string[]
+}
+
+export const DEFAULT_AGGREGATE_RANGE = 5
+
+export const DEFAULT_AGGREGATE_FILTERS: AggregateFilters = {
+  range: DEFAULT_AGGREGATE_RANGE,
+  excludedIds: [],
+}
+
+// The stats view as it appears in a shared link
+export type StatsViewState = {
+  tab: string | null
+  filters: AggregateFilters
+  session: SessionFilters
+}
+
+const PARAMS = {
+  tab: 'tab',
+  range: 'range',
+  distance: 'distance',
+  from: 'from',
+  to: 'to',
+  face: 'face',
+  minScore: 'min',
+  practices: 'practices',
+  exclude: 'exclude',
+  venue: 'venue',
+  bow: 'bow',
+  location: 'location',
+} as const
+
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/
+
+/**
+ * Practices matching the date, face and score filters, newest first, before any are picked or
+ * excluded. These are the practices offered for hand-picking.
+ */
+export const getFilterCandidates = (rounds: Round[], filters: AggregateFilters): Round[] =>
+  rounds.filter(round => {
+    const dateKey = toLocalDateKey(round.createdAt)
+    return (
+      (!filters.from || dateKey >= filters.from) &&
+      (!filters.to || dateKey <= filters.to) &&
+      (!filters.faceId || getRoundFaceIds(round).includes(filters.faceId)) &&
+      (filters.minScore === undefined || round.totalScore >= filters.minScore)
+    )
+  })
+
+/**
+ * The practices to analyze: the hand-picked ones when there are any, otherwise the latest `range`
+ * matching practices. Expects rounds sorted newest first.
+ */
+export const applyAggregateFilters = (rounds: Round[], filters: AggregateFilters): Round[] => {
+  const excluded = new Set(filters.excludedIds)
+  const candidates = getFilterCandidates(rounds, filters).filter(round => !excluded.has(round.id))
+  if (filters.practiceIds) {
+    const picked = new Set(filters.practiceIds)
+    return candidates.filter(round => picked.has(round.id))
+  }
+  return candidates.slice(0, Math.max(1, filters.range))
+}
+
+/**
+ * How many filters narrow the practices beyond the range and distance, for the panel's summary
+ */
+export const countActiveFilters = (filters: AggregateFilters): number =>
+  [
+    filters.from,
+    filters.to,
+    filters.faceId,
+    filters.minScore,
+    filters.practiceIds,
+    filters.excludedIds.length > 0 ? filters.excludedIds : undefined,
+  ].filter(value => value !== undefined).length
+
+const readList = (value: string | null): string[] =>
+  value ? value.split(',').filter(entry => entry !== '') : []
+
+const readNumber = (value: string | null): number | undefined => {
+  const parsed = Number(value)
+  return value === null || value === '' || !Number.isFinite(parsed) ? undefined : parsed
+}
+
+const readDate = (value: string | null): string | undefined =>
+  value && DATE_PATTERN.test(value) ? value : undefined
+
+const clearStatsViewParams = (params: URLSearchParams): URLSearchParams => {
+  Object.values(PARAMS).forEach(key => params.delete(key))
+  return params
+}
+
+/**
+ * Reads a shared view from a URL query string. Unknown or malformed values fall back to the defaults.
+ */
+export const readStatsViewState = (search: string): StatsViewState => {
+  const params = new URLSearchParams(search)
+  const range = readNumber(params.get(PARAMS.range))
+  const minScore = readNumber(params.get(PARAMS.minScore))
+  const faceId = params.get(PARAMS.face)
+  const practiceIds = readList(params.get(PARAMS.practices))
+  const venue = params.get(PARAMS.venue)
+  const bowClass = params.get(PARAMS.bow)
+  const location = params.get(PARAMS.location)
+
+  const filters: AggregateFilters = {
+    range: range !== undefined && range >= 1 ? Math.floor(range) : DEFAULT_AGGREGATE_RANGE,
+    excludedIds: readList(params.get(PARAMS.exclude)),
+  }
+  const distance = params.get(PARAMS.distance)
+  if (distance) {
+    filters.distance = distance
+  }
+  const from = readDate(params.get(PARAMS.from))
+  if (from) {
+    filters.from = from
+  }
+  const to = readDate(params.get(PARAMS.to))
+  if (to) {
+    filters.to = to
+  }
+  if (faceId && faceId in TARGET_FACES) {
+    filters.faceId = faceId as TargetFaceId
+  }
+  if (minScore !== undefined) {
+    filters.minScore = minScore
+  }
+  if (practiceIds.length > 0) {
+    filters.practiceIds = practiceIds
+  }
+
+  const session: SessionFilters = {}
+  if (SHOOTING_VENUES.some(option => option.value === venue)) {
+    session.venue = venue as ShootingVenue
+  }
+  if (BOW_CLASSES.some(option => option.value === bowClass)) {
+    session.bowClass = bowClass as BowClass
+  }
+  if (location) {
+    session.location = location
+  }
+
+  return { tab: params.get(PARAMS.tab), filters, session }
+}
+
+/**
+ * Writes a view into a URL query string, keeping unrelated parameters. Defaults are left out so
+ * an unfiltered view has a clean URL.
+ */
+export const writeStatsViewState = (search: string, state: StatsViewState): string => {
+  const params = clearStatsViewParams(new URLSearchParams(search))
+  const { tab, filters, session } = state
+  const values: [string, string | undefined][] = [
+    [PARAMS.tab, tab ?? undefined],
+    [PARAMS.range, filters.range !== DEFAULT_AGGREGATE_RANGE ? String(filters.range) : undefined],
+    [PARAMS.distance, filters.distance],
+    [PARAMS.from, filters.from],
+    [PARAMS.to, filters.to],
+    [PARAMS.face, filters.faceId],
+    [PARAMS.minScore, filters.minScore !== undefined ? String(filters.minScore) : undefined],
+    [PARAMS.practices, filters.practiceIds?.join(',')],
+    [PARAMS.exclude, filters.excludedIds.length > 0 ? filters.excludedIds.join(',') : undefined],
+    [PARAMS.venue, session.venue],
+    [PARAMS.bow, session.bowClass],
+    [PARAMS.location, session.location],
+  ]
+  values.forEach(([key, value]) => {
+    if (value !== undefined && value !== '') {
+      params.set(key, value)
+    }
+  })
+  const query = params.toString()
+  return query ? `?${query}` : ''
+}
+
+/**
+ * The query string with the stats view removed, for when the archer leaves the stats page
+ */
+export const removeStatsViewState = (search: string): string => {
+  const query = clearStatsViewParams(new URLSearchParams(search)).toString()
+  return query ? `?${query}` : ''
+}
+
+/**
+ * Whether a URL carries a shared stats view, so the app can open on the stats page
+ */
+export const hasStatsViewState = (search: string): boolean => {
+  const params = new URLSearchParams(search)
+  return Object.values(PARAMS).some(key => params.has(key))
+}
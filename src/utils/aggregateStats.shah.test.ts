@@ -138,6 +138,32 @@ describe('computeAggregateStats', () => {
       expect(result.averagePrecision).toBe(3.0)
     })
 
+    it('should leave score-only shots out of the distance from center', () => {
+      const mockRounds: Round[] = [
+        {
+          id: '1',
+          createdAt: '2025',
+          ends: [
+            {
+              shots: [
+                { x: 0.5, y: 0, score: 8 },
+                { x: 0, y: 0, score: 10, isX: true, isPositionless: true },
+              ],
+              endScore: 18,
+              precision: 0,
+            },
+          ],
+          totalScore: 18,
+        },
+      ]
+
+      const result = computeAggregateStats(mockRounds)
+
+      expect(result.averagePoints).toBe(9)
+      expect(result.averageDistanceFromCenter).toBe(5)
+      expect(result.shotCount).toBe(2)
+    })
+
     it('should handle all shots being misses', () => {
       const mockRounds: Round[] = [
         {
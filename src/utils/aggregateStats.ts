@@ -4,12 +4,14 @@
  */
 
 import type { Round, AggregateStats } from './types'
-import { calculateAverage, calculateDistanceFromCenter } from './helpers'
+import { calculateAverage, calculateDistanceFromCenter, getPositionedShots } from './helpers'
+import { countRoundXsAndTens, filterRoundsByDistance } from './segments'
 
 /**
  * Computes aggregate statistics from an array of practice rounds.
  * 
  * @param rounds - Array of practice rounds to analyze
+ * @param distanceKey - Optional distance (e.g. "70m") to restrict the analysis to ends shot at that distance
  * @returns Aggregate statistics including averages, counts, and precision metrics
  * 
  * @example
@@ -23,16 +25,30 @@ import { calculateAverage, calculateDistanceFromCenter } from './helpers'
  *   }
  * ]
  * const stats = computeAggregateStats(rounds)
- * // Returns: { averagePoints: 10, averageDistanceFromCenter: ..., missedShots: 0, ... }
+ * // Returns: { averagePoints: 10, averageDistanceFromCenter: ..., missedShots: 0, xCount: 0, ... }
  * ```
  */
-export const computeAggregateStats = (rounds: Round[]): AggregateStats => {
+export const computeAggregateStats = (allRounds: Round[], distanceKey?: string): AggregateStats => {
+  const rounds = distanceKey ? filterRoundsByDistance(allRounds, distanceKey) : allRounds
   const shots = rounds.flatMap(round => round.ends.flatMap(end => end.shots))
   const averagePoints = calculateAverage(shots.map(shot => shot.score))
-  const averageDistanceFromCenter = calculateAverage(shots.map(shot => calculateDistanceFromCenter(shot)))
+  // Score-only shots count towards points but have no distance to measure
+  const averageDistanceFromCenter = calculateAverage(
+    getPositionedShots(shots).map(shot => calculateDistanceFromCenter(shot)),
+  )
   const missedShots = shots.filter(shot => shot.score === 0).length
   const endPrecisions = rounds.flatMap(round => round.ends.map(end => end.precision).filter(value => value > 0))
   const averagePrecision = calculateAverage(endPrecisions)
+  const { xCount, tenCount } = rounds.reduce(
+    (totals, round) => {
+      const counts = countRoundXsAndTens(round)
+      return {
+        xCount: totals.xCount + counts.xCount,
+        tenCount: totals.tenCount + counts.tenCount,
+      }
+    },
+    { xCount: 0, tenCount: 0 },
+  )
 
   return {
     averagePoints,
@@ -40,6 +56,8 @@ export const computeAggregateStats = (rounds: Round[]): AggregateStats => {
     missedShots,
     averagePrecision,
     shotCount: shots.length,
+    xCount,
+    tenCount,
   }
 }
 
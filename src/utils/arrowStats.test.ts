@@ -0,0 +1,52 @@
+import { describe, it, expect } from 'vitest'
+import type { Round, Shot } from './types'
+import { computeArrowGroups } from './arrowStats'
+
+// Five shots in a tight cross around a point
+const groupAround = (x: number, y: number, arrowNumber: number): Shot[] =>
+  [
+    [0, 0],
+    [0.02, 0],
+    [-0.02, 0],
+    [0, 0.02],
+    [0, -0.02],
+  ].map(([dx, dy]) => ({ x: x + dx, y: y + dy, score: 9, arrowNumber }))
+
+const makeRound = (shots: Shot[]): Round => ({
+  id: 'round-1',
+  createdAt: '2026-05-01T10:00:00Z',
+  ends: [{ shots, endScore: shots.reduce((total, shot) => total + shot.score, 0), precision: 0 }],
+  totalScore: shots.reduce((total, shot) => total + shot.score, 0),
+})
+
+describe('computeArrowGroups', () => {
+  it('groups tagged shots by arrow and ignores untagged ones', () => {
+    const groups = computeArrowGroups([
+      makeRound([
+        { x: 0.1, y: 0, score: 9, arrowNumber: 2 },
+        { x: 0, y: 0, score: 10, isX: true, isPositionless: true, arrowNumber: 2 },
+        { x: 0.3, y: 0, score: 7, arrowNumber: 1 },
+        { x: 0.5, y: 0, score: 5 },
+      ]),
+    ])
+
+    expect(groups.map(group => group.arrowNumber)).toEqual([1, 2])
+    expect(groups[1]).toMatchObject({ shotCount: 2, averageScore: 9.5, meanX: 0.1 })
+    expect(groups[1].shots).toHaveLength(1)
+  })
+
+  it('flags an arrow that groups away from the rest', () => {
+    const groups = computeArrowGroups([
+      makeRound([...groupAround(0, 0, 1), ...groupAround(0.01, 0, 2), ...groupAround(0.3, 0.2, 3)]),
+    ])
+
+    expect(groups.map(group => group.isOutlier)).toEqual([false, false, true])
+    expect(groups[2].offset).toBeGreaterThan(3)
+  })
+
+  it("doesn't judge arrows with too few shots", () => {
+    const groups = computeArrowGroups([makeRound([...groupAround(0, 0, 1), { x: 0.8, y: 0, score: 3, arrowNumber: 2 }])])
+
+    expect(groups.every(group => !group.isOutlier)).toBe(true)
+  })
+})
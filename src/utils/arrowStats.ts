@@ -0,0 +1,129 @@
+/**
+ * Per-arrow statistics for archers who number their arrows. Comparing each arrow's mean point of
+ * impact with the rest of the set helps find a bent shaft or a damaged fletching.
+ */
+
+import type { Round, Shot } from './types'
+import { TARGET_RADIUS_UNITS } from './constants'
+import { calculateAverage, getPositionedShots } from './helpers'
+
+export type ArrowGroup = {
+  arrowNumber: number
+  // Every shot tagged with the arrow, including score-only ones
+  shotCount: number
+  averageScore: number
+  // Shots with a position, for plotting the arrow's group
+  shots: Shot[]
+  meanX: number
+  meanY: number
+  // Distance between this arrow's mean point of impact and the rest of the set's, in scoring units
+  offset: number
+  isOutlier: boolean
+}
+
+// Fewer plotted shots than this can't tell a bad arrow from a bad day
+export const MIN_SHOTS_FOR_COMPARISON = 5
+
+// Arrows are compared in pairs, so a single bad arrow is told apart from the ones it pulls the average towards
+const MIN_ARROWS_FOR_COMPARISON = 3
+
+// How many standard errors apart two arrows' means must be to count as different. Set high
+// because a full set of arrows makes many comparisons.
+const OUTLIER_THRESHOLD = 3
+
+type Spread = {
+  count: number
+  meanX: number
+  meanY: number
+  squaredDeviations: number
+}
+
+const measureSpread = (shots: Shot[]): Spread => {
+  const meanX = calculateAverage(shots.map(shot => shot.x))
+  const meanY = calculateAverage(shots.map(shot => shot.y))
+  return {
+    count: shots.length,
+    meanX,
+    meanY,
+    squaredDeviations: shots.reduce((total, shot) => total + (shot.x - meanX) ** 2 + (shot.y - meanY) ** 2, 0),
+  }
+}
+
+/**
+ * Flags arrows whose mean point of impact differs from most of the other arrows by more than the
+ * archer's usual spread explains. The spread is pooled across arrows so an odd arrow doesn't widen it.
+ */
+const findOutliers = (spreads: Map<number, Spread>): Set<number> => {
+  const comparable = [...spreads].filter(([, spread]) => spread.count >= MIN_SHOTS_FOR_COMPARISON)
+  if (comparable.length < MIN_ARROWS_FOR_COMPARISON) {
+    return new Set()
+  }
+
+  const totalShots = comparable.reduce((total, [, spread]) => total + spread.count, 0)
+  const pooledDeviations = comparable.reduce((total, [, spread]) => total + spread.squaredDeviations, 0)
+  const pooledVariance = pooledDeviations / (totalShots - comparable.length)
+
+  const differs = (first: Spread, second: Spread) => {
+    const distance = Math.hypot(first.meanX - second.meanX, first.meanY - second.meanY)
+    const standardError = Math.sqrt(pooledVariance * (1 / first.count + 1 / second.count))
+    return standardError === 0 ? distance > 0 : distance / standardError > OUTLIER_THRESHOLD
+  }
+
+  return new Set(
+    comparable
+      .filter(([arrowNumber, spread]) => {
+        const others = comparable.filter(([other]) => other !== arrowNumber)
+        return others.filter(([, other]) => differs(spread, other)).length > others.length / 2
+      })
+      .map(([arrowNumber]) => arrowNumber),
+  )
+}
+
+/**
+ * Groups tagged shots by arrow number, ordered by arrow, and flags arrows that group away from the rest.
+ */
+export const computeArrowGroups = (rounds: Round[]): ArrowGroup[] => {
+  const shotsByArrow = new Map<number, Shot[]>()
+  rounds.forEach(round =>
+    round.ends.forEach(end =>
+      end.shots.forEach(shot => {
+        if (shot.arrowNumber === undefined) {
+          return
+        }
+        shotsByArrow.set(shot.arrowNumber, [...(shotsByArrow.get(shot.arrowNumber) ?? []), shot])
+      }),
+    ),
+  )
+
+  const arrowNumbers = [...shotsByArrow.keys()].sort((first, second) => first - second)
+  const positionedByArrow = new Map(
+    arrowNumbers.map(arrowNumber => [arrowNumber, getPositionedShots(shotsByArrow.get(arrowNumber) ?? [])]),
+  )
+  const spreads = new Map(
+    arrowNumbers.map(arrowNumber => [arrowNumber, measureSpread(positionedByArrow.get(arrowNumber) ?? [])]),
+  )
+  const outliers = findOutliers(spreads)
+
+  return arrowNumbers.map(arrowNumber => {
+    const taggedShots = shotsByArrow.get(arrowNumber) ?? []
+    const shots = positionedByArrow.get(arrowNumber) ?? []
+    const spread = spreads.get(arrowNumber) ?? measureSpread(shots)
+    const rest = measureSpread(
+      arrowNumbers.filter(other => other !== arrowNumber).flatMap(other => positionedByArrow.get(other) ?? []),
+    )
+
+    return {
+      arrowNumber,
+      shotCount: taggedShots.length,
+      averageScore: calculateAverage(taggedShots.map(shot => shot.score)),
+      shots,
+      meanX: spread.meanX,
+      meanY: spread.meanY,
+      offset:
+        spread.count > 0 && rest.count > 0
+          ? Math.hypot(spread.meanX - rest.meanX, spread.meanY - rest.meanY) * TARGET_RADIUS_UNITS
+          : 0,
+      isOutlier: outliers.has(arrowNumber),
+    }
+  })
+}
@@ -0,0 +1,84 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest'
+import type { User } from 'firebase/auth'
+import { isSignInWithEmailLink, signInWithEmailLink, signInWithPopup, signInWithRedirect, unlink } from 'firebase/auth'
+import {
+  completePendingSignIn,
+  describeAuthError,
+  getLinkedProviderIds,
+  signInWithGoogle,
+  unlinkProvider,
+} from './auth'
+
+vi.mock('../firebase', () => ({
+  auth: { authStateReady: async () => {}, currentUser: null },
+  googleProvider: {},
+}))
+
+vi.mock('firebase/auth', () => ({
+  EmailAuthProvider: { credential: vi.fn(), credentialWithLink: vi.fn() },
+  createUserWithEmailAndPassword: vi.fn(),
+  getRedirectResult: vi.fn(async () => null),
+  isSignInWithEmailLink: vi.fn(() => false),
+  linkWithCredential: vi.fn(),
+  linkWithPopup: vi.fn(),
+  linkWithRedirect: vi.fn(),
+  sendSignInLinkToEmail: vi.fn(),
+  signInWithEmailAndPassword: vi.fn(),
+  signInWithEmailLink: vi.fn(),
+  signInWithPopup: vi.fn(async () => ({})),
+  signInWithRedirect: vi.fn(async () => {}),
+  unlink: vi.fn(async (user: User) => user),
+}))
+
+const makeUser = (providerIds: string[]) =>
+  ({ uid: 'user-1', providerData: providerIds.map(providerId => ({ providerId })) }) as unknown as User
+
+describe('auth helpers', () => {
+  beforeEach(() => {
+    vi.clearAllMocks()
+  })
+
+  it('falls back to a redirect when the popup is blocked', async () => {
+    vi.mocked(signInWithPopup).mockRejectedValueOnce({ code: 'auth/popup-blocked' })
+
+    await signInWithGoogle()
+
+    expect(signInWithRedirect).toHaveBeenCalledTimes(1)
+  })
+
+  it('does not redirect when the archer closes the popup', async () => {
+    vi.mocked(signInWithPopup).mockRejectedValueOnce({ code: 'auth/popup-closed-by-user' })
+
+    await expect(signInWithGoogle()).rejects.toEqual({ code: 'auth/popup-closed-by-user' })
+    expect(signInWithRedirect).not.toHaveBeenCalled()
+  })
+
+  it('keeps the last sign-in method on an account', async () => {
+    await expect(unlinkProvider(makeUser(['google.com']), 'google.com')).rejects.toThrow()
+    expect(unlink).not.toHaveBeenCalled()
+
+    await unlinkProvider(makeUser(['google.com', 'password']), 'google.com')
+    expect(unlink).toHaveBeenCalledTimes(1)
+  })
+
+  it('lists linked providers and explains known errors', () => {
+    expect(getLinkedProviderIds(makeUser(['google.com', 'password']))).toEqual(['google.com', 'password'])
+    expect(getLinkedProviderIds(null)).toEqual([])
+    expect(describeAuthError({ code: 'auth/credential-already-in-use' })).toBe(
+      'That sign-in is already attached to another account.',
+    )
+    expect(describeAuthError(new Error('boom'))).toBe('Something went wrong. Please try again.')
+  })
+
+  it('uses an emailed sign-in link only once when asked to finish it twice', async () => {
+    const user = makeUser(['password'])
+    vi.mocked(isSignInWithEmailLink).mockReturnValue(true)
+    vi.mocked(signInWithEmailLink).mockResolvedValue({ user } as Awaited<ReturnType<typeof signInWithEmailLink>>)
+    window.localStorage.setItem('archery-tracker:email-for-sign-in', 'archer@example.com')
+
+    const results = await Promise.all([completePendingSignIn(), completePendingSignIn()])
+
+    expect(results).toEqual([user, user])
+    expect(signInWithEmailLink).toHaveBeenCalledTimes(1)
+  })
+})
@@ -0,0 +1,180 @@
+/**
+ * Sign-in and account linking. Every method signs in to the same Firebase user, so an archer who
+ * links several providers keeps one `uid` and one set of rounds.
+ */
+
+import {
+  EmailAuthProvider,
+  createUserWithEmailAndPassword,
+  getRedirectResult,
+  isSignInWithEmailLink,
+  linkWithCredential,
+  linkWithPopup,
+  linkWithRedirect,
+  sendSignInLinkToEmail,
+  signInWithEmailAndPassword,
+  signInWithEmailLink,
+  signInWithPopup,
+  signInWithRedirect,
+  unlink,
+  type User,
+} from 'firebase/auth'
+import { auth, googleProvider } from '../firebase'
+
+export const GOOGLE_PROVIDER_ID = 'google.com'
+export const PASSWORD_PROVIDER_ID = 'password'
+
+// Remembered so the link can be completed when it is opened in this browser
+const EMAIL_FOR_SIGN_IN_KEY = 'archery-tracker:email-for-sign-in'
+
+// Popups are blocked on some school devices; these errors mean a full-page redirect should work instead
+const POPUP_UNAVAILABLE_CODES = new Set([
+  'auth/popup-blocked',
+  'auth/operation-not-supported-in-this-environment',
+  'auth/web-storage-unsupported',
+])
+
+const AUTH_ERROR_MESSAGES: Record<string, string> = {
+  'auth/invalid-email': 'That email address is not valid.',
+  'auth/invalid-credential': 'The email or password is incorrect.',
+  'auth/wrong-password': 'The email or password is incorrect.',
+  'auth/user-not-found': 'The email or password is incorrect.',
+  'auth/email-already-in-use': 'An account already uses that email. Sign in instead.',
+  'auth/weak-password': 'Choose a password with at least 6 characters.',
+  'auth/missing-password': 'Enter a password.',
+  'auth/credential-already-in-use': 'That sign-in is already attached to another account.',
+  'auth/provider-already-linked': 'That sign-in method is already attached to your account.',
+  'auth/requires-recent-login': 'Sign out and back in, then try again.',
+  'auth/too-many-requests': 'Too many attempts. Please wait a moment and try again.',
+  'auth/network-request-failed': 'No connection. Check your network and try again.',
+}
+
+const getErrorCode = (error: unknown): string | undefined =>
+  typeof error === 'object' && error !== null && 'code' in error && typeof error.code === 'string'
+    ? error.code
+    : undefined
+
+const isPopupUnavailable = (error: unknown): boolean => POPUP_UNAVAILABLE_CODES.has(getErrorCode(error) ?? '')
+
+/**
+ * A message an archer can act on for a failed sign-in or link
+ */
+export const describeAuthError = (error: unknown): string =>
+  AUTH_ERROR_MESSAGES[getErrorCode(error) ?? ''] ?? 'Something went wrong. Please try again.'
+
+/**
+ * Whether the sign-in was abandoned by the archer rather than failing
+ */
+export const isAuthCancelled = (error: unknown): boolean => {
+  const code = getErrorCode(error)
+  return code === 'auth/popup-closed-by-user' || code === 'auth/cancelled-popup-request'
+}
+
+export const getLinkedProviderIds = (user: User | null): string[] =>
+  user ? user.providerData.map(profile => profile.providerId) : []
+
+/**
+ * Sign in with Google in a popup, falling back to a redirect where popups are blocked
+ */
+export const signInWithGoogle = async (): Promise<void> => {
+  try {
+    await signInWithPopup(auth, googleProvider)
+  } catch (error) {
+    if (!isPopupUnavailable(error)) {
+      throw error
+    }
+    await signInWithRedirect(auth, googleProvider)
+  }
+}
+
+export const signInWithEmail = async (email: string, password: string): Promise<void> => {
+  await signInWithEmailAndPassword(auth, email.trim(), password)
+}
+
+export const createAccountWithEmail = async (email: string, password: string): Promise<void> => {
+  await createUserWithEmailAndPassword(auth, email.trim(), password)
+}
+
+/**
+ * Email a one-time sign-in link that opens back into the app.
+ * The same link attaches the email to the signed-in account when opened while signed in.
+ */
+export const sendEmailSignInLink = async (email: string): Promise<void> => {
+  const trimmed = email.trim()
+  await sendSignInLinkToEmail(auth, trimmed, {
+    url: `${window.location.origin}${window.location.pathname}`,
+    handleCodeInApp: true,
+  })
+  window.localStorage.setItem(EMAIL_FOR_SIGN_IN_KEY, trimmed)
+}
+
+// The sign-in being finished on this page load, shared so an emailed link's one-time code is only used once
+let pendingSignIn: Promise<User | null> | null = null
+
+const finishPendingSignIn = async (): Promise<User | null> => {
+  const link = window.location.href
+  if (!isSignInWithEmailLink(auth, link)) {
+    const result = await getRedirectResult(auth)
+    return result?.user ?? null
+  }
+
+  const email =
+    window.localStorage.getItem(EMAIL_FOR_SIGN_IN_KEY) ??
+    window.prompt('Confirm the email address the sign-in link was sent to')
+  if (!email) {
+    return null
+  }
+
+  await auth.authStateReady()
+  const credential = EmailAuthProvider.credentialWithLink(email, link)
+  const result = auth.currentUser
+    ? await linkWithCredential(auth.currentUser, credential)
+    : await signInWithEmailLink(auth, email, link)
+
+  window.localStorage.removeItem(EMAIL_FOR_SIGN_IN_KEY)
+  // Drop the one-time code from the address bar so a reload doesn't try to use it again
+  window.history.replaceState(null, '', `${window.location.origin}${window.location.pathname}`)
+  return result.user
+}
+
+/**
+ * Finish a sign-in that left the page: a Google redirect or an emailed sign-in link.
+ * Does nothing on an ordinary page load. Calling it again, e.g. from a remounted effect,
+ * waits for the first attempt instead of starting another.
+ *
+ * @returns The signed-in user, or null when there was nothing to finish
+ */
+export const completePendingSignIn = (): Promise<User | null> => {
+  pendingSignIn ??= finishPendingSignIn()
+  return pendingSignIn
+}
+
+/**
+ * Attach Google to the signed-in account, falling back to a redirect where popups are blocked
+ */
+export const linkGoogle = async (user: User): Promise<User> => {
+  try {
+    const result = await linkWithPopup(user, googleProvider)
+    return result.user
+  } catch (error) {
+    if (!isPopupUnavailable(error)) {
+      throw error
+    }
+    return linkWithRedirect(user, googleProvider)
+  }
+}
+
+export const linkEmailPassword = async (user: User, email: string, password: string): Promise<User> => {
+  const result = await linkWithCredential(user, EmailAuthProvider.credential(email.trim(), password))
+  return result.user
+}
+
+/**
+ * Detach a sign-in method. The last one is kept so the account can't be locked out.
+ */
+export const unlinkProvider = async (user: User, providerId: string): Promise<User> => {
+  if (getLinkedProviderIds(user).length <= 1) {
+    throw new Error('Cannot remove the only sign-in method on an account')
+  }
+  return unlink(user, providerId)
+}
@@ -1,6 +1,22 @@
-export const RING_COUNT = 10
-export const SHOTS_PER_END = 3
+export const DEFAULT_SHOTS_PER_END = 3
+export const MIN_SHOTS_PER_END = 1
+export const MAX_SHOTS_PER_END = 12
 export const DEFAULT_ENDS_PER_ROUND = 4
 export const MIN_ENDS = 1
 export const MAX_ENDS = 12
 export const TARGET_RADIUS_UNITS = 10
+// Share of the target wrapper taken up by the face; the rest leaves room to record misses
+export const TARGET_FACE_FRACTION = 0.7
+export const MAX_TARGET_ZOOM = 6
+export const DEFAULT_SHAFT_DIAMETER_MM = 0
+export const MAX_SHAFT_DIAMETER_MM = 12
+export const MAX_ARROW_COUNT = 24
+// A typical eye-to-aperture distance for a recurve at full draw
+export const DEFAULT_SIGHT_RADIUS_CM = 85
+export const MAX_SIGHT_RADIUS_CM = 150
+export const DEFAULT_SIGHT_CLICK_MM = 0.5
+export const MAX_SIGHT_CLICK_MM = 5
+export const DEFAULT_SEGMENT_DISTANCE = 18
+export const DRAFT_SYNC_DELAY_MS = 2000
+export const ROUNDS_PAGE_SIZE = 20
+export const MAX_UNDO_STEPS = 200
@@ -0,0 +1,93 @@
+import { describe, it, expect } from 'vitest'
+import type { RoundDraft } from './types'
+import { normalizeRoundDraft, pickLatestDraft } from './drafts'
+
+const makeDraft = (updatedAt: string, shotCount = 1): RoundDraft => ({
+  ends: [
+    {
+      shots: Array.from({ length: shotCount }, () => ({ x: 0, y: 0, score: 10 })),
+      endScore: shotCount * 10,
+      precision: 0,
+    },
+  ],
+  currentEndIndex: 0,
+  notes: '',
+  endsPerRound: 1,
+  shotsPerEnd: 3,
+  faceId: 'wa-122',
+  presetId: null,
+  segments: [],
+  session: {},
+  equipmentId: null,
+  updatedAt,
+})
+
+describe('round drafts', () => {
+  it('prefers the most recently updated draft', () => {
+    const local = makeDraft('2026-05-01T10:05:00Z')
+    const remote = makeDraft('2026-05-01T10:00:00Z')
+    expect(pickLatestDraft(local, remote)).toBe(local)
+    expect(pickLatestDraft(remote, local)).toBe(local)
+  })
+
+  it('ignores drafts without any arrows', () => {
+    const empty = makeDraft('2026-05-01T10:05:00Z', 0)
+    const remote = makeDraft('2026-05-01T10:00:00Z')
+    expect(pickLatestDraft(empty, remote)).toBe(remote)
+    expect(pickLatestDraft(empty, null)).toBeNull()
+  })
+})
+
+describe('normalizeRoundDraft', () => {
+  it('keeps a well-formed draft as it is', () => {
+    const draft = makeDraft('2026-05-01T10:00:00Z')
+    expect(normalizeRoundDraft(draft)).toEqual(draft)
+  })
+
+  it('rejects values that are not drafts', () => {
+    expect(normalizeRoundDraft(null)).toBeNull()
+    expect(normalizeRoundDraft('draft')).toBeNull()
+    expect(normalizeRoundDraft({ currentEndIndex: 0 })).toBeNull()
+  })
+
+  it('fills in setup missing from older drafts', () => {
+    const older: Partial<RoundDraft> = makeDraft('2026-05-01T10:00:00Z')
+    delete older.segments
+    delete older.session
+    delete older.equipmentId
+
+    const draft = normalizeRoundDraft(older)
+
+    expect(draft?.segments).toEqual([])
+    expect(draft?.session).toEqual({})
+    expect(draft?.equipmentId).toBeNull()
+  })
+
+  it('brings the ends and current end back in line with the number of ends', () => {
+    const draft = normalizeRoundDraft({
+      ...makeDraft('2026-05-01T10:00:00Z'),
+      endsPerRound: 3,
+      currentEndIndex: 7,
+    })
+
+    expect(draft?.ends).toHaveLength(3)
+    expect(draft?.ends[0].shots).toHaveLength(1)
+    expect(draft?.currentEndIndex).toBe(2)
+  })
+
+  it('takes the number of ends from the distances and drops malformed arrows', () => {
+    const draft = normalizeRoundDraft({
+      ...makeDraft('2026-05-01T10:00:00Z'),
+      ends: [{ shots: [{ x: 0, y: 0, score: 9 }, { x: 'a', score: 10 }, null] }],
+      segments: [
+        { distance: 70, distanceUnit: 'm', faceId: 'wa-122', endCount: 2 },
+        { distance: 'far', distanceUnit: 'm', faceId: 'wa-122', endCount: 2 },
+        { distance: 50, distanceUnit: 'm', faceId: 'wa-80', endCount: 3 },
+      ],
+    })
+
+    expect(draft?.endsPerRound).toBe(5)
+    expect(draft?.ends).toHaveLength(5)
+    expect(draft?.ends[0]).toEqual({ shots: [{ x: 0, y: 0, score: 9 }], endScore: 9, precision: 0 })
+  })
+})
@@ -0,0 +1,145 @@
+import type { End, RoundDraft, RoundSegment, Shot } from './types'
+import {
+  DEFAULT_ENDS_PER_ROUND,
+  DEFAULT_SHOTS_PER_END,
+  MAX_ENDS,
+  MAX_SHOTS_PER_END,
+  MIN_ENDS,
+  MIN_SHOTS_PER_END,
+} from './constants'
+import { calculateEndPrecision, generateEndTemplate } from './helpers'
+import { getTargetFace } from './targetFaces'
+import { getRoundPreset } from './roundPresets'
+import { normalizeSessionDetails } from './sessionDetails'
+import type { RoundRepository } from './roundRepository'
+import { deleteLocalDraft, loadLocalDraft } from './offlineStore'
+
+export const hasRecordedShots = (ends: End[]): boolean => ends.some(end => end.shots.length > 0)
+
+const isFiniteNumber = (value: unknown): value is number => typeof value === 'number' && Number.isFinite(value)
+
+const toRecord = (value: unknown): Record<string, unknown> =>
+  value && typeof value === 'object' ? (value as Record<string, unknown>) : {}
+
+const clampInteger = (value: unknown, min: number, max: number, fallback: number): number =>
+  isFiniteNumber(value) ? Math.min(max, Math.max(min, Math.floor(value))) : fallback
+
+const normalizeShot = (value: unknown): Shot | null => {
+  const raw = toRecord(value)
+  if (!isFiniteNumber(raw.x) || !isFiniteNumber(raw.y) || !isFiniteNumber(raw.score)) {
+    return null
+  }
+  return {
+    x: raw.x,
+    y: raw.y,
+    score: raw.score,
+    ...(raw.isX === true && { isX: true }),
+    ...(raw.isPositionless === true && { isPositionless: true }),
+    ...(isFiniteNumber(raw.arrowNumber) && { arrowNumber: raw.arrowNumber }),
+  }
+}
+
+const normalizeEnd = (value: unknown, shotsPerEnd: number): End => {
+  const raw = toRecord(value)
+  const shots = (Array.isArray(raw.shots) ? raw.shots : [])
+    .flatMap(shot => normalizeShot(shot) ?? [])
+    .slice(0, shotsPerEnd)
+  return {
+    shots,
+    endScore: shots.reduce((total, shot) => total + shot.score, 0),
+    precision: calculateEndPrecision(shots),
+  }
+}
+
+const normalizeSegment = (value: unknown): RoundSegment | null => {
+  const raw = toRecord(value)
+  if (!isFiniteNumber(raw.distance) || raw.distance <= 0 || !isFiniteNumber(raw.endCount) || raw.endCount < 1) {
+    return null
+  }
+  return {
+    distance: raw.distance,
+    distanceUnit: raw.distanceUnit === 'yd' ? 'yd' : 'm',
+    faceId: getTargetFace(typeof raw.faceId === 'string' ? raw.faceId : null).id,
+    endCount: Math.floor(raw.endCount),
+  }
+}
+
+/**
+ * Rebuild a draft from either stored copy, which may be malformed or saved by an older version.
+ * Ends, the current end and the setup are brought back in line with each other so the draft can
+ * be recorded into. Returns null for anything that isn't a draft.
+ */
+export const normalizeRoundDraft = (value: unknown): RoundDraft | null => {
+  if (!value || typeof value !== 'object') {
+    return null
+  }
+  const raw = value as Record<string, unknown>
+  if (!Array.isArray(raw.ends)) {
+    return null
+  }
+
+  const segments = (Array.isArray(raw.segments) ? raw.segments : []).flatMap(segment => normalizeSegment(segment) ?? [])
+  // A round with distances has as many ends as its distances add up to, like `setSegments`
+  const endsPerRound =
+    segments.length > 0
+      ? segments.reduce((total, segment) => total + segment.endCount, 0)
+      : clampInteger(raw.endsPerRound, MIN_ENDS, MAX_ENDS, DEFAULT_ENDS_PER_ROUND)
+  const shotsPerEnd = clampInteger(raw.shotsPerEnd, MIN_SHOTS_PER_END, MAX_SHOTS_PER_END, DEFAULT_SHOTS_PER_END)
+  const storedEnds = raw.ends
+
+  return {
+    ends: Array.from({ length: endsPerRound }, (_, index) =>
+      index < storedEnds.length ? normalizeEnd(storedEnds[index], shotsPerEnd) : generateEndTemplate(),
+    ),
+    currentEndIndex: clampInteger(raw.currentEndIndex, 0, endsPerRound - 1, 0),
+    notes: typeof raw.notes === 'string' ? raw.notes : '',
+    endsPerRound,
+    shotsPerEnd,
+    faceId: getTargetFace(typeof raw.faceId === 'string' ? raw.faceId : null).id,
+    presetId: getRoundPreset(typeof raw.presetId === 'string' ? raw.presetId : null)?.id ?? null,
+    segments,
+    // Drafts saved before session details were recorded have none
+    session: normalizeSessionDetails(raw.session),
+    equipmentId: typeof raw.equipmentId === 'string' && raw.equipmentId !== '' ? raw.equipmentId : null,
+    updatedAt: typeof raw.updatedAt === 'string' ? raw.updatedAt : new Date(0).toISOString(),
+  }
+}
+
+/**
+ * The most recently updated of two drafts, ignoring drafts without any arrows
+ */
+export const pickLatestDraft = (first: RoundDraft | null, second: RoundDraft | null): RoundDraft | null => {
+  const candidates = [first, second].filter(
+    (draft): draft is RoundDraft => draft !== null && hasRecordedShots(draft.ends),
+  )
+  if (candidates.length === 0) {
+    return null
+  }
+  return candidates.reduce((latest, draft) => (draft.updatedAt > latest.updatedAt ? draft : latest))
+}
+
+/**
+ * Load the draft to resume, preferring whichever copy was touched last.
+ * Either copy may be unavailable (offline, no IndexedDB) without failing the other.
+ * Guests pass no repository since they have no copy beyond this device.
+ */
+export const loadRoundDraft = async (
+  userId: string,
+  repository: RoundRepository | null,
+): Promise<RoundDraft | null> => {
+  const [localDraft, remoteDraft] = await Promise.all([
+    loadLocalDraft(userId).catch(() => null),
+    repository ? repository.loadDraft(userId).catch(() => null) : null,
+  ])
+  return pickLatestDraft(normalizeRoundDraft(localDraft), normalizeRoundDraft(remoteDraft))
+}
+
+/**
+ * Remove both copies of the draft once the round is saved or discarded
+ */
+export const clearRoundDraft = async (userId: string, repository: RoundRepository | null): Promise<void> => {
+  await Promise.all([
+    deleteLocalDraft(userId).catch(() => undefined),
+    repository ? repository.deleteDraft(userId).catch(() => undefined) : undefined,
+  ])
+}
@@ -0,0 +1,56 @@
+import { describe, it, expect } from 'vitest'
+import type { EquipmentProfile, Round } from './types'
+import { addTuningChange, compareEquipment, normalizeEquipmentProfile, updateEquipmentProfile } from './equipment'
+
+const makeRound = (id: string, createdAt: string, score: number, equipmentId?: string): Round => ({
+  id,
+  createdAt,
+  ends: [{ shots: [{ x: 0, y: 0, score, isX: false }], endScore: score, precision: 0 }],
+  totalScore: score,
+  ...(equipmentId && { equipmentId }),
+})
+
+const recurve: EquipmentProfile = {
+  id: 'recurve',
+  name: 'Outdoor recurve',
+  createdAt: '2025-01-01T00:00:00.000Z',
+  tuningLog: [],
+}
+
+describe('equipment profiles', () => {
+  it('drops invalid and cleared fields', () => {
+    const profile = normalizeEquipmentProfile(
+      { name: 'Barebow', bowClass: 'crossbow', drawWeightLbs: 32, braceHeightMm: -1, tuningLog: [{ id: 'x' }] },
+      'barebow',
+    )
+    expect(profile).toEqual({ id: 'barebow', name: 'Barebow', createdAt: new Date(0).toISOString(), drawWeightLbs: 32, tuningLog: [] })
+
+    const cleared = updateEquipmentProfile({ ...recurve, bow: 'Hoyt', drawWeightLbs: 38 }, { bow: '', drawWeightLbs: undefined })
+    expect('bow' in cleared).toBe(false)
+    expect('drawWeightLbs' in cleared).toBe(false)
+  })
+
+  it('keeps the tuning log in date order', () => {
+    const tuned = addTuningChange(addTuningChange(recurve, '2025-03-10', 'New limbs'), '2025-02-01', ' Brace height to 22cm ')
+    expect(tuned.tuningLog.map(change => change.description)).toEqual(['Brace height to 22cm', 'New limbs'])
+  })
+
+  it('compares stats across profiles and since the last tuning change', () => {
+    const tuned = addTuningChange(recurve, '2025-03-10', 'New limbs')
+    const rounds = [
+      makeRound('a', '2025-03-01T12:00:00', 6, 'recurve'),
+      makeRound('b', '2025-03-12T12:00:00', 10, 'recurve'),
+      makeRound('c', '2025-03-13T12:00:00', 8),
+      makeRound('d', '2025-03-14T12:00:00', 7, 'deleted-profile'),
+    ]
+
+    const [profileComparison, unassigned] = compareEquipment(rounds, [tuned])
+    expect(profileComparison.roundCount).toBe(2)
+    expect(profileComparison.stats.averagePoints).toBe(8)
+    expect(profileComparison.sinceLastChange).toMatchObject({ date: '2025-03-10', roundCount: 1 })
+    expect(profileComparison.sinceLastChange?.stats.averagePoints).toBe(10)
+
+    expect(unassigned.profile).toBeNull()
+    expect(unassigned.roundCount).toBe(2)
+  })
+})
@@ -0,0 +1,140 @@
+/**
+ * Equipment profiles and their tuning logs, and comparisons of practice stats across them.
+ */
+
+import type { AggregateStats, EquipmentProfile, Round, TuningChange } from './types'
+import { computeAggregateStats } from './aggregateStats'
+import { toLocalDateKey } from './helpers'
+import { BOW_CLASSES } from './sessionDetails'
+
+export type EquipmentComparison = {
+  // null for rounds recorded without a profile, or with one that was since deleted
+  profile: EquipmentProfile | null
+  roundCount: number
+  stats: AggregateStats
+  // The same stats for rounds shot on or after the latest tuning change, when there are any
+  sinceLastChange: { date: string; roundCount: number; stats: AggregateStats } | null
+}
+
+const isPositiveNumber = (value: unknown): value is number =>
+  typeof value === 'number' && Number.isFinite(value) && value > 0
+
+const isNonEmptyString = (value: unknown): value is string => typeof value === 'string' && value.trim() !== ''
+
+const sortTuningLog = (log: TuningChange[]): TuningChange[] =>
+  [...log].sort((first, second) => first.date.localeCompare(second.date))
+
+const normalizeTuningChange = (value: unknown): TuningChange | null => {
+  if (!value || typeof value !== 'object') {
+    return null
+  }
+  const raw = value as Record<string, unknown>
+  if (!isNonEmptyString(raw.id) || !isNonEmptyString(raw.date) || !isNonEmptyString(raw.description)) {
+    return null
+  }
+  return { id: raw.id, date: raw.date, description: raw.description }
+}
+
+/**
+ * Rebuild a profile from stored data, dropping invalid fields. Optional fields are left out rather
+ * than set to undefined, which Firestore rejects.
+ */
+export const normalizeEquipmentProfile = (value: unknown, id: string): EquipmentProfile => {
+  const raw = value && typeof value === 'object' ? (value as Record<string, unknown>) : {}
+  const profile: EquipmentProfile = {
+    id,
+    name: isNonEmptyString(raw.name) ? raw.name : 'Untitled setup',
+    createdAt: isNonEmptyString(raw.createdAt) ? raw.createdAt : new Date(0).toISOString(),
+    tuningLog: sortTuningLog(
+      (Array.isArray(raw.tuningLog) ? raw.tuningLog : []).flatMap(entry => normalizeTuningChange(entry) ?? []),
+    ),
+  }
+  const bowClass = BOW_CLASSES.find(option => option.value === raw.bowClass)?.value
+  if (bowClass) {
+    profile.bowClass = bowClass
+  }
+  if (isNonEmptyString(raw.bow)) {
+    profile.bow = raw.bow
+  }
+  if (isNonEmptyString(raw.arrows)) {
+    profile.arrows = raw.arrows
+  }
+  if (isPositiveNumber(raw.drawWeightLbs)) {
+    profile.drawWeightLbs = raw.drawWeightLbs
+  }
+  if (isPositiveNumber(raw.braceHeightMm)) {
+    profile.braceHeightMm = raw.braceHeightMm
+  }
+  return profile
+}
+
+export const createEquipmentProfile = (name: string, createdAt = new Date().toISOString()): EquipmentProfile => ({
+  id: crypto.randomUUID(),
+  name: name.trim() || 'New setup',
+  createdAt,
+  tuningLog: [],
+})
+
+/**
+ * Apply edits from the profile form. Cleared fields are removed and the log is left alone.
+ */
+export const updateEquipmentProfile = (
+  profile: EquipmentProfile,
+  changes: Partial<Omit<EquipmentProfile, 'id' | 'createdAt' | 'tuningLog'>>,
+): EquipmentProfile => normalizeEquipmentProfile({ ...profile, ...changes }, profile.id)
+
+export const addTuningChange = (profile: EquipmentProfile, date: string, description: string): EquipmentProfile => ({
+  ...profile,
+  tuningLog: sortTuningLog([...profile.tuningLog, { id: crypto.randomUUID(), date, description: description.trim() }]),
+})
+
+export const removeTuningChange = (profile: EquipmentProfile, changeId: string): EquipmentProfile => ({
+  ...profile,
+  tuningLog: profile.tuningLog.filter(change => change.id !== changeId),
+})
+
+/**
+ * Groups rounds by the profile they were shot with, in the order the profiles are listed, and
+ * compares their stats. Rounds without a known profile are grouped last.
+ */
+export const compareEquipment = (rounds: Round[], profiles: EquipmentProfile[]): EquipmentComparison[] => {
+  const knownIds = new Set(profiles.map(profile => profile.id))
+  const unassigned = rounds.filter(round => !round.equipmentId || !knownIds.has(round.equipmentId))
+
+  const comparisons: EquipmentComparison[] = profiles.flatMap(profile => {
+    const profileRounds = rounds.filter(round => round.equipmentId === profile.id)
+    if (profileRounds.length === 0) {
+      return []
+    }
+
+    const lastChange = profile.tuningLog[profile.tuningLog.length - 1]
+    const roundsSinceChange = lastChange
+      ? profileRounds.filter(round => toLocalDateKey(round.createdAt) >= lastChange.date)
+      : []
+    return [
+      {
+        profile,
+        roundCount: profileRounds.length,
+        stats: computeAggregateStats(profileRounds),
+        sinceLastChange:
+          lastChange && roundsSinceChange.length > 0
+            ? {
+                date: lastChange.date,
+                roundCount: roundsSinceChange.length,
+                stats: computeAggregateStats(roundsSinceChange),
+              }
+            : null,
+      },
+    ]
+  })
+
+  if (unassigned.length > 0) {
+    comparisons.push({
+      profile: null,
+      roundCount: unassigned.length,
+      stats: computeAggregateStats(unassigned),
+      sinceLastChange: null,
+    })
+  }
+  return comparisons
+}
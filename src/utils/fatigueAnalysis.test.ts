@@ -0,0 +1,49 @@
+import { describe, it, expect } from 'vitest'
+import type { End, Round } from './types'
+import { computeFatigueAnalysis } from './fatigueAnalysis'
+
+const makeEnd = (scores: number[], isPositionless = false): End => ({
+  shots: scores.map(score => ({ x: isPositionless ? 0 : 0.1 * (10 - score), y: 0, score, isPositionless })),
+  endScore: scores.reduce((total, score) => total + score, 0),
+  precision: 0,
+})
+
+const makeRound = (id: string, ends: End[]): Round => ({
+  id,
+  createdAt: '2026-01-01T10:00:00Z',
+  ends,
+  totalScore: ends.reduce((total, end) => total + end.endScore, 0),
+})
+
+describe('fatigue analysis', () => {
+  it('averages scores and distance by end and by arrow in the end', () => {
+    const analysis = computeFatigueAnalysis([
+      makeRound('a', [makeEnd([10, 9, 6]), makeEnd([9, 8, 5])]),
+      makeRound('b', [makeEnd([10, 10, 8]), makeEnd([8, 8, 7])]),
+    ])
+
+    expect(analysis.byEnd.map(end => end.averageScore)).toEqual([53 / 6, 45 / 6])
+    expect(analysis.byShot.map(shot => shot.averageScore)).toEqual([9.25, 8.75, 6.5])
+    expect(analysis.byShot[2].shotCount).toBe(4)
+    expect(analysis.byShot[2].averageDistance).toBeCloseTo(3.5)
+  })
+
+  it('combines rounds of different lengths', () => {
+    const analysis = computeFatigueAnalysis([
+      makeRound('a', [makeEnd([9, 9]), makeEnd([8, 8])]),
+      makeRound('b', [makeEnd([10, 10, 10])]),
+    ])
+
+    expect(analysis.byEnd.map(end => end.shotCount)).toEqual([5, 2])
+    expect(analysis.byShot.map(shot => shot.shotCount)).toEqual([3, 3, 1])
+  })
+
+  it('leaves distance empty where no shot has a position', () => {
+    const analysis = computeFatigueAnalysis([makeRound('a', [makeEnd([9, 7], true)])])
+    expect(analysis.byEnd[0]).toEqual({ position: 1, shotCount: 2, averageScore: 8, averageDistance: null })
+  })
+
+  it('returns no positions without shots', () => {
+    expect(computeFatigueAnalysis([])).toEqual({ byEnd: [], byShot: [] })
+  })
+})
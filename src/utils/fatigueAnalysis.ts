@@ -0,0 +1,60 @@
+/**
+ * Scores and accuracy by end and by arrow within the end, to show whether an archer fades in later
+ * ends or has a weak arrow in their sequence.
+ */
+
+import type { Round, Shot } from './types'
+import { calculateAverage, calculateDistanceFromCenter, getPositionedShots } from './helpers'
+
+export type PositionStats = {
+  // 1-based end number or arrow-in-end number
+  position: number
+  shotCount: number
+  averageScore: number
+  // Mean distance from the centre in scoring units, or null when no shot here has a position
+  averageDistance: number | null
+}
+
+export type FatigueAnalysis = {
+  byEnd: PositionStats[]
+  byShot: PositionStats[]
+}
+
+const summarizePositions = (shotsByPosition: Shot[][]): PositionStats[] =>
+  shotsByPosition.flatMap((shots, index) => {
+    if (shots.length === 0) {
+      return []
+    }
+    const positioned = getPositionedShots(shots)
+    return [
+      {
+        position: index + 1,
+        shotCount: shots.length,
+        averageScore: calculateAverage(shots.map(shot => shot.score)),
+        averageDistance:
+          positioned.length > 0 ? calculateAverage(positioned.map(shot => calculateDistanceFromCenter(shot))) : null,
+      },
+    ]
+  })
+
+/**
+ * Groups every shot across the rounds by its end and by its place in the end. Rounds of different
+ * lengths are combined, so later positions may rest on fewer shots.
+ */
+export const computeFatigueAnalysis = (rounds: Round[]): FatigueAnalysis => {
+  const byEnd: Shot[][] = []
+  const byShot: Shot[][] = []
+  rounds.forEach(round =>
+    round.ends.forEach((end, endIndex) => {
+      byEnd[endIndex] = [...(byEnd[endIndex] ?? []), ...end.shots]
+      end.shots.forEach((shot, shotIndex) => {
+        byShot[shotIndex] = [...(byShot[shotIndex] ?? []), shot]
+      })
+    }),
+  )
+
+  return {
+    byEnd: summarizePositions(byEnd),
+    byShot: summarizePositions(byShot),
+  }
+}
@@ -0,0 +1,131 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest'
+import { onSnapshot } from 'firebase/firestore'
+import { subscribeToRounds } from './firestore'
+import type { RoundsSnapshot } from './roundLists'
+
+vi.mock('../firebase', () => ({
+  db: {},
+}))
+
+vi.mock('firebase/firestore', () => ({
+  collection: vi.fn(),
+  doc: vi.fn(),
+  setDoc: vi.fn(async () => {}),
+  getDoc: vi.fn(),
+  getDocs: vi.fn(),
+  query: vi.fn(),
+  orderBy: vi.fn(),
+  limit: vi.fn(),
+  startAfter: vi.fn(),
+  deleteDoc: vi.fn(),
+  onSnapshot: vi.fn(() => vi.fn()),
+}))
+
+type FakeChange = {
+  type: 'added' | 'modified' | 'removed'
+  id: string
+  createdAt?: string
+  hasPendingWrites?: boolean
+  schemaVersion?: number
+}
+
+const makeQuerySnapshot = (changes: FakeChange[], hasPendingWrites = false, size = changes.length) => ({
+  size,
+  metadata: { hasPendingWrites },
+  docChanges: () =>
+    changes.map(change => ({
+      type: change.type,
+      doc: {
+        id: change.id,
+        metadata: { hasPendingWrites: change.hasPendingWrites === true },
+        data: () => ({
+          id: change.id,
+          createdAt: change.createdAt ?? '2026-04-01T10:00:00Z',
+          totalScore: 10,
+          round: { end01: { shot1: { x: 0, y: 0, score: 10 } } },
+          ...(change.schemaVersion !== undefined && { schemaVersion: change.schemaVersion }),
+        }),
+      },
+    })),
+})
+
+const subscribe = (pageSize?: number) => {
+  const updates: RoundsSnapshot[] = []
+  subscribeToRounds('user-1', update => updates.push(update), undefined, pageSize)
+  const listener = vi.mocked(onSnapshot).mock.calls[0][2] as unknown as (snapshot: unknown) => void
+  return { updates, emit: (snapshot: unknown) => listener(snapshot) }
+}
+
+describe('subscribeToRounds', () => {
+  beforeEach(() => {
+    vi.clearAllMocks()
+  })
+
+  it('applies added, modified and removed documents incrementally', () => {
+    const { updates, emit } = subscribe()
+
+    emit(
+      makeQuerySnapshot([
+        { type: 'added', id: 'a', createdAt: '2026-04-01T10:00:00Z' },
+        { type: 'added', id: 'b', createdAt: '2026-04-02T10:00:00Z' },
+      ]),
+    )
+    expect(updates[0].rounds.map(round => round.id)).toEqual(['b', 'a'])
+
+    emit(makeQuerySnapshot([{ type: 'removed', id: 'b' }]))
+    expect(updates[1].rounds.map(round => round.id)).toEqual(['a'])
+    expect(updates[1].removedIds).toEqual(['b'])
+  })
+
+  it('flags rounds with unacknowledged writes as pending', () => {
+    const { updates, emit } = subscribe()
+
+    emit(makeQuerySnapshot([{ type: 'added', id: 'a', hasPendingWrites: true }], true))
+    expect(updates[0].hasPendingWrites).toBe(true)
+    expect(updates[0].rounds[0].pendingSync).toBe(true)
+
+    emit(makeQuerySnapshot([{ type: 'modified', id: 'a' }]))
+    expect(updates[1].hasPendingWrites).toBe(false)
+    expect(updates[1].rounds[0].pendingSync).toBeUndefined()
+  })
+
+  it('skips documents from a newer schema instead of failing the whole list', () => {
+    const consoleError = vi.spyOn(console, 'error').mockImplementation(() => {})
+    const { updates, emit } = subscribe()
+
+    emit(
+      makeQuerySnapshot([
+        { type: 'added', id: 'a' },
+        { type: 'added', id: 'future', schemaVersion: 99 },
+      ]),
+    )
+
+    expect(updates[0].rounds.map(round => round.id)).toEqual(['a'])
+    expect(consoleError).toHaveBeenCalled()
+    consoleError.mockRestore()
+  })
+
+  it('keeps rounds that scroll out of a full window instead of reporting them deleted', () => {
+    const { updates, emit } = subscribe(2)
+
+    emit(
+      makeQuerySnapshot([
+        { type: 'added', id: 'a', createdAt: '2026-04-01T10:00:00Z' },
+        { type: 'added', id: 'b', createdAt: '2026-04-02T10:00:00Z' },
+      ]),
+    )
+    emit(
+      makeQuerySnapshot(
+        [
+          { type: 'added', id: 'c', createdAt: '2026-04-03T10:00:00Z' },
+          { type: 'removed', id: 'a' },
+        ],
+        false,
+        2,
+      ),
+    )
+
+    expect(updates[1].rounds.map(round => round.id)).toEqual(['c', 'b'])
+    expect(updates[1].removedIds).toEqual([])
+  })
+})
@@ -1,8 +1,101 @@
-import { collection, doc, setDoc, getDocs, query, orderBy, deleteDoc } from 'firebase/firestore'
+import {
+  collection,
+  doc,
+  setDoc,
+  getDoc,
+  getDocs,
+  query,
+  orderBy,
+  limit,
+  startAfter,
+  deleteDoc,
+  onSnapshot,
+  type QueryDocumentSnapshot,
+  type Unsubscribe,
+} from 'firebase/firestore'
 import { db } from '../firebase'
-import type { Round, StoredRound, StoredShot } from './types'
-import { SHOTS_PER_END } from './constants'
-import { calculateEndPrecision } from './helpers'
+import type {
+  EquipmentProfile,
+  Round,
+  RoundDraft,
+  RoundSummary,
+  SightMark,
+  StoredRound,
+  UserSettings,
+} from './types'
+import {
+  DEFAULT_SHOTS_PER_END,
+  DEFAULT_SHAFT_DIAMETER_MM,
+  DEFAULT_SIGHT_CLICK_MM,
+  DEFAULT_SIGHT_RADIUS_CM,
+  ROUNDS_PAGE_SIZE,
+} from './constants'
+import { calculateEndPrecision, createScoreOnlyShot, scoreShot } from './helpers'
+import { countRoundXsAndTens, getFaceForEnd } from './segments'
+import { getTargetFace, DEFAULT_TARGET_FACE_ID } from './targetFaces'
+import { getRoundPreset } from './roundPresets'
+import { hasSessionDetails, normalizeSessionDetails } from './sessionDetails'
+import { normalizeEquipmentProfile } from './equipment'
+import { getSightMarkKey, normalizeSightMark, sortSightMarks } from './sightMarks'
+import { loadPendingRounds, mergePendingRounds, removePendingRound } from './offlineStore'
+import { sortNewestFirst, type RoundListItem, type RoundsPage, type RoundsSnapshot } from './roundLists'
+import {
+  CURRENT_SCHEMA_VERSION,
+  REWRITE_MIGRATED_ROUNDS,
+  migrateStoredRound,
+  type AnyStoredRound,
+  type MigrationResult,
+} from './migrations'
+
+/**
+ * Convert a round to the current stored document format
+ */
+const toStoredRound = (round: Round): StoredRound => ({
+  schemaVersion: CURRENT_SCHEMA_VERSION,
+  id: round.id,
+  createdAt: round.createdAt,
+  totalScore: round.totalScore,
+  faceId: round.faceId ?? DEFAULT_TARGET_FACE_ID,
+  ...(round.presetId && { presetId: round.presetId }),
+  ...(round.segments && round.segments.length > 0 && { segments: round.segments }),
+  shotsPerEnd: round.shotsPerEnd ?? DEFAULT_SHOTS_PER_END,
+  shaftDiameterMm: round.shaftDiameterMm ?? DEFAULT_SHAFT_DIAMETER_MM,
+  xCount: round.xCount ?? 0,
+  tenCount: round.tenCount ?? 0,
+  endScores: round.ends.map(end => end.endScore),
+  ends: round.ends.map(end => ({
+    shots: end.shots.map(shot => ({
+      ...(!shot.isPositionless && { x: shot.x, y: shot.y }),
+      score: shot.score,
+      ...(shot.isX && { isX: true }),
+      ...(shot.arrowNumber !== undefined && { arrowNumber: shot.arrowNumber }),
+    })),
+  })),
+  ...(round.notes && { notes: round.notes }),
+  ...(hasSessionDetails(round.session) && { session: normalizeSessionDetails(round.session) }),
+  ...(round.equipmentId && { equipmentId: round.equipmentId }),
+  ...(round.editedAt && { editedAt: round.editedAt }),
+})
+
+/**
+ * Read a round document in the current schema, upgrading older documents on the way. Documents
+ * this app can't read, such as ones saved by a newer version, are skipped so the rest still load.
+ */
+const readStoredRound = (docSnapshot: QueryDocumentSnapshot): StoredRound | null => {
+  let result: MigrationResult
+  try {
+    result = migrateStoredRound(docSnapshot.data() as AnyStoredRound)
+  } catch (error) {
+    console.error(`Skipping round ${docSnapshot.id} that could not be read:`, error)
+    return null
+  }
+
+  const { data, migrated } = result
+  if (migrated && REWRITE_MIGRATED_ROUNDS) {
+    setDoc(docSnapshot.ref, data).catch(error => console.error('Error rewriting migrated round:', error))
+  }
+  return data
+}
 
 /**
  * Save a single round to Firestore for a specific user
@@ -10,33 +103,9 @@ import { calculateEndPrecision } from './helpers'
 export const saveRoundToFirestore = async (userId: string, round: Round): Promise<void> => {
   try {
     const userRoundsRef = collection(db, 'users', userId, 'rounds')
-    
-    // Convert round to storable format
-    const roundData = round.ends.reduce<Record<string, Record<string, StoredShot>>>((acc, end, endIndex) => {
-      const endKey = `end${String(endIndex + 1).padStart(2, '0')}`
-      const shotEntries: Record<string, StoredShot> = {}
-      end.shots.forEach((shot, shotIndex) => {
-        const shotKey = `shot${shotIndex + 1}`
-        shotEntries[shotKey] = {
-          x: shot.x,
-          y: shot.y,
-          score: shot.score,
-        }
-      })
-      acc[endKey] = shotEntries
-      return acc
-    }, {})
-
-    const storedRound: StoredRound = {
-      id: round.id,
-      createdAt: round.createdAt,
-      totalScore: round.totalScore,
-      round: roundData,
-      ...(round.notes && { notes: round.notes }),
-    }
 
     // Save the round with the round ID as the document ID
-    await setDoc(doc(userRoundsRef, round.id), storedRound)
+    await setDoc(doc(userRoundsRef, round.id), toStoredRound(round))
   } catch (error) {
     console.error('Error saving round to Firestore:', error)
     throw error
@@ -49,37 +118,11 @@ export const saveRoundToFirestore = async (userId: string, round: Round): Promis
 export const saveRoundsToFirestore = async (userId: string, rounds: Round[]): Promise<void> => {
   try {
     const userRoundsRef = collection(db, 'users', userId, 'rounds')
-    
-    // Convert rounds to storable format
-    const storedRounds: StoredRound[] = rounds.map(round => {
-      const roundData = round.ends.reduce<Record<string, Record<string, StoredShot>>>((acc, end, endIndex) => {
-        const endKey = `end${String(endIndex + 1).padStart(2, '0')}`
-        const shotEntries: Record<string, StoredShot> = {}
-        end.shots.forEach((shot, shotIndex) => {
-          const shotKey = `shot${shotIndex + 1}`
-          shotEntries[shotKey] = {
-            x: shot.x,
-            y: shot.y,
-            score: shot.score,
-          }
-        })
-        acc[endKey] = shotEntries
-        return acc
-      }, {})
-
-      return {
-        id: round.id,
-        createdAt: round.createdAt,
-        totalScore: round.totalScore,
-        round: roundData,
-        ...(round.notes && { notes: round.notes }),
-      }
-    })
 
     // Save each round as a document with the round ID as the document ID
     await Promise.all(
-      storedRounds.map(round =>
-        setDoc(doc(userRoundsRef, round.id), round)
+      rounds.map(round =>
+        setDoc(doc(userRoundsRef, round.id), toStoredRound(round))
       )
     )
   } catch (error) {
@@ -89,62 +132,241 @@ export const saveRoundsToFirestore = async (userId: string, rounds: Round[]): Pr
 }
 
 /**
- * Load rounds from Firestore for a specific user
+ * Rebuild a round from its stored document, re-scoring shots against the face they were shot on
+ */
+const hydrateStoredRound = (data: StoredRound, docId: string): Round => {
+  const face = getTargetFace(data.faceId)
+  const segments = Array.isArray(data.segments) ? data.segments : []
+  const shaftDiameterMm = data.shaftDiameterMm ?? DEFAULT_SHAFT_DIAMETER_MM
+
+  const ends = data.ends.map((storedEnd, endIndex) => {
+    const endFace = getFaceForEnd({ faceId: face.id, segments }, endIndex)
+    const shots = storedEnd.shots.map(entry => {
+      // Re-score from the stored position so the line-cutter rule matches recording
+      const shot =
+        typeof entry.x === 'number' && typeof entry.y === 'number'
+          ? scoreShot(entry.x, entry.y, endFace, shaftDiameterMm)
+          : createScoreOnlyShot(entry.score, entry.isX === true)
+      return typeof entry.arrowNumber === 'number' ? { ...shot, arrowNumber: entry.arrowNumber } : shot
+    })
+
+    const endScore = shots.reduce((total, shot) => total + shot.score, 0)
+    const precision = calculateEndPrecision(shots)
+    return { shots, endScore, precision }
+  })
+
+  const totalScore = ends.length > 0
+    ? ends.reduce((total, end) => total + end.endScore, 0)
+    : data.totalScore ?? 0
+  const { xCount, tenCount } = countRoundXsAndTens({ ends, faceId: face.id, segments })
+  const session = normalizeSessionDetails(data.session)
+
+  return {
+    id: data.id ?? docId,
+    createdAt: data.createdAt ?? new Date().toISOString(),
+    ends,
+    totalScore,
+    // Rounds saved before faces were tracked were all shot on the WA 122cm face
+    faceId: face.id,
+    ...(getRoundPreset(data.presetId) && { presetId: data.presetId }),
+    ...(segments.length > 0 && { segments }),
+    shotsPerEnd: data.shotsPerEnd ?? Math.max(DEFAULT_SHOTS_PER_END, ...ends.map(end => end.shots.length)),
+    shaftDiameterMm,
+    xCount,
+    tenCount,
+    notes: data.notes,
+    ...(hasSessionDetails(session) && { session }),
+    ...(data.equipmentId && { equipmentId: data.equipmentId }),
+    ...(data.editedAt && { editedAt: data.editedAt }),
+  }
+}
+
+/**
+ * Summarize a stored round for lists. Reads stored end scores rather than re-scoring shots.
+ */
+const summarizeStoredRound = (data: StoredRound, docId: string): RoundSummary => {
+  const endScores = Array.isArray(data.endScores)
+    ? data.endScores
+    : data.ends.map(end => end.shots.reduce((total, shot) => total + shot.score, 0))
+  const session = normalizeSessionDetails(data.session)
+
+  return {
+    id: data.id ?? docId,
+    createdAt: data.createdAt ?? new Date().toISOString(),
+    totalScore: data.totalScore ?? endScores.reduce((total, score) => total + score, 0),
+    endScores,
+    faceId: getTargetFace(data.faceId).id,
+    ...(getRoundPreset(data.presetId) && { presetId: data.presetId }),
+    shotsPerEnd: data.shotsPerEnd ?? DEFAULT_SHOTS_PER_END,
+    xCount: data.xCount ?? 0,
+    tenCount: data.tenCount ?? 0,
+    notes: data.notes,
+    ...(hasSessionDetails(session) && { session }),
+  }
+}
+
+/**
+ * Load rounds from Firestore for a specific user, merged with rounds still queued on this device
  */
 export const loadRoundsFromFirestore = async (userId: string): Promise<Round[]> => {
   try {
     const userRoundsRef = collection(db, 'users', userId, 'rounds')
     const q = query(userRoundsRef, orderBy('createdAt', 'desc'))
     const querySnapshot = await getDocs(q)
-    
+
     const rounds: Round[] = []
-    
     querySnapshot.forEach(docSnapshot => {
-      const data = docSnapshot.data() as StoredRound
-      
-      // Hydrate the round from stored format
-      const ends = Object.keys(data.round ?? {})
-        .sort()
-        .map(endKey => {
-          const storedShots = data.round?.[endKey] ?? {}
-          const orderedShots = Object.keys(storedShots)
-            .sort()
-            .map(shotKey => storedShots[shotKey])
-            .filter(
-              (entry): entry is StoredShot =>
-                typeof entry === 'object' && entry !== null && 'score' in entry
-            )
-            .slice(0, SHOTS_PER_END)
-
-          const shots = orderedShots.map(entry => ({
-            x: typeof entry.x === 'number' ? entry.x : 0,
-            y: typeof entry.y === 'number' ? entry.y : 0,
-            score: typeof entry.score === 'number' ? entry.score : 0,
-          }))
-
-          const endScore = shots.reduce((total, shot) => total + shot.score, 0)
-          const precision = calculateEndPrecision(shots)
-          return { shots, endScore, precision }
-        })
-
-      const totalScore = data.totalScore ?? ends.reduce((total, end) => total + end.endScore, 0)
-
-      rounds.push({
-        id: data.id ?? docSnapshot.id,
-        createdAt: data.createdAt ?? new Date().toISOString(),
-        ends,
-        totalScore,
-        notes: data.notes,
-      })
+      const data = readStoredRound(docSnapshot)
+      if (data) {
+        rounds.push(hydrateStoredRound(data, docSnapshot.id))
+      }
     })
-    
-    return rounds
+
+    let pendingRounds: Round[] = []
+    try {
+      pendingRounds = await loadPendingRounds(userId)
+    } catch {
+      // The remote rounds are still worth showing without the local queue
+    }
+
+    // Queued rounds that already reached Firestore no longer need uploading
+    const remoteIds = new Set(rounds.map(round => round.id))
+    await Promise.all(
+      pendingRounds
+        .filter(round => remoteIds.has(round.id))
+        .map(round => removePendingRound(userId, round.id).catch(() => undefined)),
+    )
+
+    return mergePendingRounds(rounds, pendingRounds)
   } catch (error) {
     console.error('Error loading rounds from Firestore:', error)
     throw error
   }
 }
 
+const subscribeToRoundList = <T extends RoundListItem>(
+  userId: string,
+  pageSize: number,
+  transform: (data: StoredRound, docId: string) => T,
+  onChange: (snapshot: RoundsSnapshot<T>) => void,
+  onError?: (error: Error) => void,
+): Unsubscribe => {
+  const userRoundsRef = collection(db, 'users', userId, 'rounds')
+  const q = query(userRoundsRef, orderBy('createdAt', 'desc'), limit(pageSize))
+  const roundsById = new Map<string, T>()
+
+  return onSnapshot(
+    q,
+    { includeMetadataChanges: true },
+    querySnapshot => {
+      const leftWindow: T[] = []
+
+      querySnapshot.docChanges({ includeMetadataChanges: true }).forEach(change => {
+        const docSnapshot = change.doc
+        if (change.type === 'removed') {
+          const previous = roundsById.get(docSnapshot.id)
+          roundsById.delete(docSnapshot.id)
+          if (previous) {
+            leftWindow.push(previous)
+          }
+          return
+        }
+
+        const data = readStoredRound(docSnapshot)
+        if (!data) {
+          return
+        }
+        const round = transform(data, docSnapshot.id)
+        roundsById.set(docSnapshot.id, docSnapshot.metadata.hasPendingWrites ? { ...round, pendingSync: true } : round)
+      })
+
+      const rounds = sortNewestFirst([...roundsById.values()])
+
+      // A full window pushes its oldest round out when a new one arrives; that round still exists
+      const oldest = rounds[rounds.length - 1]
+      const isFullWindow = querySnapshot.size >= pageSize
+      const removedIds = leftWindow
+        .filter(
+          round => !(isFullWindow && oldest && new Date(round.createdAt).getTime() < new Date(oldest.createdAt).getTime()),
+        )
+        .map(round => round.id)
+
+      onChange({
+        rounds,
+        removedIds,
+        hasPendingWrites: querySnapshot.metadata.hasPendingWrites,
+      })
+    },
+    error => {
+      console.error('Error subscribing to rounds in Firestore:', error)
+      onError?.(error)
+    },
+  )
+}
+
+const loadRoundListPage = async <T extends RoundListItem>(
+  userId: string,
+  afterCreatedAt: string,
+  pageSize: number,
+  transform: (data: StoredRound, docId: string) => T,
+): Promise<RoundsPage<T>> => {
+  try {
+    const userRoundsRef = collection(db, 'users', userId, 'rounds')
+    // Ask for one extra document to learn whether another page follows
+    const q = query(userRoundsRef, orderBy('createdAt', 'desc'), startAfter(afterCreatedAt), limit(pageSize + 1))
+    const querySnapshot = await getDocs(q)
+    const rounds = querySnapshot.docs
+      .slice(0, pageSize)
+      .flatMap(docSnapshot => {
+        const data = readStoredRound(docSnapshot)
+        return data ? [transform(data, docSnapshot.id)] : []
+      })
+    return { rounds, hasMore: querySnapshot.docs.length > pageSize }
+  } catch (error) {
+    console.error('Error loading a page of rounds from Firestore:', error)
+    throw error
+  }
+}
+
+/**
+ * Keep the newest page of a user's rounds live. Only changed documents are re-hydrated
+ * on each snapshot, and rounds with unacknowledged local writes are flagged as `pendingSync`.
+ */
+export const subscribeToRounds = (
+  userId: string,
+  onChange: (snapshot: RoundsSnapshot) => void,
+  onError?: (error: Error) => void,
+  pageSize = ROUNDS_PAGE_SIZE,
+): Unsubscribe => subscribeToRoundList(userId, pageSize, hydrateStoredRound, onChange, onError)
+
+/**
+ * Keep summaries of the newest page of a user's rounds live, without hydrating any shots
+ */
+export const subscribeToRoundSummaries = (
+  userId: string,
+  onChange: (snapshot: RoundsSnapshot<RoundSummary>) => void,
+  onError?: (error: Error) => void,
+  pageSize = ROUNDS_PAGE_SIZE,
+): Unsubscribe => subscribeToRoundList(userId, pageSize, summarizeStoredRound, onChange, onError)
+
+/**
+ * Load the page of rounds shot before `afterCreatedAt`
+ */
+export const loadRoundsPage = (
+  userId: string,
+  afterCreatedAt: string,
+  pageSize = ROUNDS_PAGE_SIZE,
+): Promise<RoundsPage> => loadRoundListPage(userId, afterCreatedAt, pageSize, hydrateStoredRound)
+
+/**
+ * Load summaries for the page of rounds shot before `afterCreatedAt`
+ */
+export const loadRoundSummariesPage = (
+  userId: string,
+  afterCreatedAt: string,
+  pageSize = ROUNDS_PAGE_SIZE,
+): Promise<RoundsPage<RoundSummary>> => loadRoundListPage(userId, afterCreatedAt, pageSize, summarizeStoredRound)
+
 /**
  * Update notes for a specific round in Firestore
  */
@@ -170,3 +392,148 @@ export const deleteRoundFromFirestore = async (userId: string, roundId: string):
     throw error
   }
 }
+
+/**
+ * Load archer settings stored on the user document
+ */
+export const loadUserSettingsFromFirestore = async (userId: string): Promise<UserSettings> => {
+  try {
+    const snapshot = await getDoc(doc(db, 'users', userId))
+    const settings = snapshot.exists() ? (snapshot.data().settings as Partial<UserSettings> | undefined) : undefined
+    return {
+      arrowShaftDiameterMm: settings?.arrowShaftDiameterMm ?? DEFAULT_SHAFT_DIAMETER_MM,
+      arrowCount: settings?.arrowCount ?? 0,
+      sightRadiusCm: settings?.sightRadiusCm ?? DEFAULT_SIGHT_RADIUS_CM,
+      sightClickMm: settings?.sightClickMm ?? DEFAULT_SIGHT_CLICK_MM,
+    }
+  } catch (error) {
+    console.error('Error loading user settings from Firestore:', error)
+    throw error
+  }
+}
+
+/**
+ * Save archer settings on the user document. Settings left out keep their stored values.
+ */
+export const saveUserSettingsToFirestore = async (userId: string, settings: Partial<UserSettings>): Promise<void> => {
+  try {
+    await setDoc(doc(db, 'users', userId), { settings }, { merge: true })
+  } catch (error) {
+    console.error('Error saving user settings to Firestore:', error)
+    throw error
+  }
+}
+
+/**
+ * Load the archer's equipment profiles, oldest first
+ */
+export const loadEquipmentFromFirestore = async (userId: string): Promise<EquipmentProfile[]> => {
+  try {
+    const equipmentRef = collection(db, 'users', userId, 'equipment')
+    const snapshot = await getDocs(query(equipmentRef, orderBy('createdAt', 'asc')))
+    return snapshot.docs.map(docSnapshot => normalizeEquipmentProfile(docSnapshot.data(), docSnapshot.id))
+  } catch (error) {
+    console.error('Error loading equipment from Firestore:', error)
+    throw error
+  }
+}
+
+/**
+ * Save an equipment profile along with its tuning log
+ */
+export const saveEquipmentToFirestore = async (userId: string, profile: EquipmentProfile): Promise<void> => {
+  try {
+    await setDoc(doc(db, 'users', userId, 'equipment', profile.id), profile)
+  } catch (error) {
+    console.error('Error saving equipment to Firestore:', error)
+    throw error
+  }
+}
+
+/**
+ * Delete an equipment profile. Rounds shot with it keep its id and are compared as unassigned.
+ */
+export const deleteEquipmentFromFirestore = async (userId: string, profileId: string): Promise<void> => {
+  try {
+    await deleteDoc(doc(db, 'users', userId, 'equipment', profileId))
+  } catch (error) {
+    console.error('Error deleting equipment from Firestore:', error)
+    throw error
+  }
+}
+
+/**
+ * Load the archer's sight marks, nearest distance first
+ */
+export const loadSightMarksFromFirestore = async (userId: string): Promise<SightMark[]> => {
+  try {
+    const snapshot = await getDocs(collection(db, 'users', userId, 'sightMarks'))
+    return sortSightMarks(snapshot.docs.flatMap(docSnapshot => normalizeSightMark(docSnapshot.data()) ?? []))
+  } catch (error) {
+    console.error('Error loading sight marks from Firestore:', error)
+    throw error
+  }
+}
+
+/**
+ * Save the sight mark for one distance, keyed by the distance (e.g. "70m")
+ */
+export const saveSightMarkToFirestore = async (userId: string, mark: SightMark): Promise<void> => {
+  try {
+    await setDoc(doc(db, 'users', userId, 'sightMarks', getSightMarkKey(mark)), mark)
+  } catch (error) {
+    console.error('Error saving sight mark to Firestore:', error)
+    throw error
+  }
+}
+
+/**
+ * Delete the sight mark for a distance once its last reading is removed
+ */
+export const deleteSightMarkFromFirestore = async (userId: string, key: string): Promise<void> => {
+  try {
+    await deleteDoc(doc(db, 'users', userId, 'sightMarks', key))
+  } catch (error) {
+    console.error('Error deleting sight mark from Firestore:', error)
+    throw error
+  }
+}
+
+const getDraftRef = (userId: string) => doc(db, 'users', userId, 'drafts', 'current')
+
+/**
+ * Load the round a user was recording on any device, if there is one
+ */
+export const loadDraftFromFirestore = async (userId: string): Promise<RoundDraft | null> => {
+  try {
+    const snapshot = await getDoc(getDraftRef(userId))
+    return snapshot.exists() ? (snapshot.data() as RoundDraft) : null
+  } catch (error) {
+    console.error('Error loading draft from Firestore:', error)
+    throw error
+  }
+}
+
+/**
+ * Save the round being recorded so it can be resumed on another device
+ */
+export const saveDraftToFirestore = async (userId: string, draft: RoundDraft): Promise<void> => {
+  try {
+    await setDoc(getDraftRef(userId), draft)
+  } catch (error) {
+    console.error('Error saving draft to Firestore:', error)
+    throw error
+  }
+}
+
+/**
+ * Delete the saved draft once the round is saved or discarded
+ */
+export const deleteDraftFromFirestore = async (userId: string): Promise<void> => {
+  try {
+    await deleteDoc(getDraftRef(userId))
+  } catch (error) {
+    console.error('Error deleting draft from Firestore:', error)
+    throw error
+  }
+}
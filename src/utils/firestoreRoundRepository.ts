@@ -0,0 +1,50 @@
+import type { RoundRepository } from './roundRepository'
+import {
+  saveRoundToFirestore,
+  saveRoundsToFirestore,
+  loadRoundsFromFirestore,
+  loadRoundsPage,
+  loadRoundSummariesPage,
+  subscribeToRounds,
+  subscribeToRoundSummaries,
+  updateRoundNotesInFirestore,
+  deleteRoundFromFirestore,
+  loadUserSettingsFromFirestore,
+  saveUserSettingsToFirestore,
+  loadEquipmentFromFirestore,
+  saveEquipmentToFirestore,
+  deleteEquipmentFromFirestore,
+  loadSightMarksFromFirestore,
+  saveSightMarkToFirestore,
+  deleteSightMarkFromFirestore,
+  loadDraftFromFirestore,
+  saveDraftToFirestore,
+  deleteDraftFromFirestore,
+} from './firestore'
+
+/**
+ * Rounds stored under `users/{uid}/rounds` in Firestore (or the emulator, see `firebase.ts`),
+ * with settings on the user document and the rest in its other subcollections
+ */
+export const firestoreRoundRepository: RoundRepository = {
+  save: saveRoundToFirestore,
+  saveMany: saveRoundsToFirestore,
+  list: loadRoundsFromFirestore,
+  listPage: loadRoundsPage,
+  listSummaryPage: loadRoundSummariesPage,
+  subscribe: subscribeToRounds,
+  subscribeSummaries: subscribeToRoundSummaries,
+  updateNotes: updateRoundNotesInFirestore,
+  delete: deleteRoundFromFirestore,
+  loadSettings: loadUserSettingsFromFirestore,
+  saveSettings: saveUserSettingsToFirestore,
+  listEquipment: loadEquipmentFromFirestore,
+  saveEquipment: saveEquipmentToFirestore,
+  deleteEquipment: deleteEquipmentFromFirestore,
+  listSightMarks: loadSightMarksFromFirestore,
+  saveSightMark: saveSightMarkToFirestore,
+  deleteSightMark: deleteSightMarkFromFirestore,
+  loadDraft: loadDraftFromFirestore,
+  saveDraft: saveDraftToFirestore,
+  deleteDraft: deleteDraftFromFirestore,
+}
@@ -0,0 +1,47 @@
+import { describe, it, expect, vi } from 'vitest'
+import type { Round } from './types'
+import { createLocalRoundRepository } from './localRoundRepository'
+import { GUEST_USER_ID, importGuestRounds, loadGuestMode, saveGuestMode } from './guest'
+
+const makeRound = (id: string, createdAt: string): Round => ({
+  id,
+  createdAt,
+  ends: [{ shots: [{ x: 0, y: 0, score: 10 }], endScore: 10, precision: 0 }],
+  totalScore: 10,
+})
+
+describe('guest mode', () => {
+  it('remembers the guest choice across reloads', () => {
+    saveGuestMode(true)
+    expect(loadGuestMode()).toBe(true)
+
+    saveGuestMode(false)
+    expect(loadGuestMode()).toBe(false)
+  })
+
+  it('moves guest rounds into the account and clears them from this device', async () => {
+    const guestRepository = createLocalRoundRepository({
+      initialRounds: {
+        [GUEST_USER_ID]: [makeRound('a', '2026-04-01T10:00:00Z'), makeRound('b', '2026-04-02T10:00:00Z')],
+      },
+    })
+    const accountRepository = createLocalRoundRepository()
+
+    const imported = await importGuestRounds('user-1', guestRepository, accountRepository)
+
+    expect(imported.map(round => round.id)).toEqual(['b', 'a'])
+    expect((await accountRepository.list('user-1')).map(round => round.id)).toEqual(['b', 'a'])
+    expect(await guestRepository.list(GUEST_USER_ID)).toEqual([])
+  })
+
+  it('keeps guest rounds when the account save fails', async () => {
+    const guestRepository = createLocalRoundRepository({
+      initialRounds: { [GUEST_USER_ID]: [makeRound('a', '2026-04-01T10:00:00Z')] },
+    })
+    const accountRepository = createLocalRoundRepository()
+    vi.spyOn(accountRepository, 'saveMany').mockRejectedValueOnce(new Error('offline'))
+
+    await expect(importGuestRounds('user-1', guestRepository, accountRepository)).rejects.toThrow('offline')
+    expect(await guestRepository.list(GUEST_USER_ID)).toHaveLength(1)
+  })
+})
@@ -0,0 +1,61 @@
+/**
+ * Guest mode: rounds recorded without an account stay in this browser until the archer signs in.
+ */
+
+import type { Round } from './types'
+import type { RoundRepository } from './roundRepository'
+import { createLocalRoundRepository } from './localRoundRepository'
+
+// Guests all share one local "user" since there is no account to key rounds by
+export const GUEST_USER_ID = 'guest'
+
+const GUEST_MODE_KEY = 'archery-tracker:guest-mode'
+const GUEST_ROUNDS_KEY = 'archery-tracker:guest-rounds'
+
+/**
+ * Whether the archer chose to continue as a guest, so a reload doesn't send them back to sign-in
+ */
+export const loadGuestMode = (): boolean => {
+  try {
+    return window.localStorage.getItem(GUEST_MODE_KEY) === 'true'
+  } catch (error) {
+    console.error('Error reading guest mode:', error)
+    return false
+  }
+}
+
+export const saveGuestMode = (enabled: boolean): void => {
+  try {
+    if (enabled) {
+      window.localStorage.setItem(GUEST_MODE_KEY, 'true')
+    } else {
+      window.localStorage.removeItem(GUEST_MODE_KEY)
+    }
+  } catch (error) {
+    console.error('Error saving guest mode:', error)
+  }
+}
+
+export const createGuestRoundRepository = (): RoundRepository =>
+  createLocalRoundRepository({ storage: window.localStorage, storageKey: GUEST_ROUNDS_KEY })
+
+/**
+ * Copy every guest round into a signed-in account, then remove them from this device.
+ * Nothing is removed if the copy fails, so the import can be retried.
+ *
+ * @returns The rounds that were moved
+ */
+export const importGuestRounds = async (
+  userId: string,
+  guestRepository: RoundRepository,
+  accountRepository: RoundRepository,
+): Promise<Round[]> => {
+  const rounds = await guestRepository.list(GUEST_USER_ID)
+  if (rounds.length === 0) {
+    return []
+  }
+
+  await accountRepository.saveMany(userId, rounds)
+  await Promise.all(rounds.map(round => guestRepository.delete(GUEST_USER_ID, round.id)))
+  return rounds
+}
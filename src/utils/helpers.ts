@@ -1,5 +1,6 @@
-import type { End, Shot } from './types'
-import { RING_COUNT, TARGET_RADIUS_UNITS } from './constants'
+import type { End, Shot, TargetFace, TargetView } from './types'
+import { TARGET_FACE_FRACTION, TARGET_RADIUS_UNITS } from './constants'
+import { DEFAULT_TARGET_FACE, getTopRingScore } from './targetFaces'
 
 export const generateEndTemplate = (): End => ({
   shots: [],
@@ -7,25 +8,110 @@ export const generateEndTemplate = (): End => ({
   precision: 0,
 })
 
-export const calculateScore = (x: number, y: number): number => {
+/**
+ * Converts an arrow shaft diameter into a radius in normalized face units.
+ */
+export const getShaftRadius = (face: TargetFace, shaftDiameterMm = 0): number =>
+  Math.max(0, shaftDiameterMm) / (face.diameterCm * 10)
+
+/**
+ * A ring is hit when the shot is inside it, or, with a shaft diameter set,
+ * when the shaft edge touches its outer line (line cutter).
+ */
+const isInsideRadius = (distance: number, radius: number, shaftRadius: number): boolean =>
+  shaftRadius > 0 ? distance - shaftRadius <= radius : distance < radius
+
+export const calculateScore = (
+  x: number,
+  y: number,
+  face: TargetFace = DEFAULT_TARGET_FACE,
+  shaftDiameterMm = 0,
+): number => {
   const distance = Math.sqrt(x * x + y * y)
-  const normalized = Math.min(distance, 1)
-  const ring = Math.floor(normalized * RING_COUNT)
-  const score = Math.max(0, 10 - ring)
-  return score
+  const shaftRadius = getShaftRadius(face, shaftDiameterMm)
+
+  // A shot on a ring line belongs to the outer ring unless the shaft cuts it, so check innermost first
+  for (let ringIndex = face.rings.length - 1; ringIndex >= 0; ringIndex -= 1) {
+    const ring = face.rings[ringIndex]
+    if (isInsideRadius(distance, ring.radius, shaftRadius)) {
+      return ring.score
+    }
+  }
+
+  return face.missValue
 }
 
-export const generateRingColors = (ringCount: number): string[] => {
-  const bandColors = ['#e6d100', '#e4442c', '#23a0d6', '#484239', '#d3c5b3']
-  const colors: string[] = []
+export const isXShot = (x: number, y: number, face: TargetFace = DEFAULT_TARGET_FACE, shaftDiameterMm = 0): boolean =>
+  isInsideRadius(Math.sqrt(x * x + y * y), face.xRingRadius, getShaftRadius(face, shaftDiameterMm))
 
-  for (let ringIndex = 0; ringIndex < ringCount; ringIndex += 1) {
-    const bandIndex = Math.floor(ringIndex / 2)
-    const color = bandColors[Math.min(bandIndex, bandColors.length - 1)]
-    colors.push(color)
+/**
+ * Converts a pointer position over the target wrapper into face coordinates, where the face edge is 1.
+ * The face is drawn at 70% of the wrapper, so positions just outside it can still be recorded.
+ * When the target is zoomed or panned, pass its view so the position is mapped back onto the face.
+ */
+export const getTargetPosition = (
+  clientX: number,
+  clientY: number,
+  rect: DOMRect,
+  view: TargetView = { scale: 1, x: 0, y: 0 },
+): { x: number; y: number } => {
+  const targetRadius = (rect.width / 2) * TARGET_FACE_FRACTION
+  return {
+    x: ((clientX - (rect.left + rect.width / 2)) / targetRadius - view.x) / view.scale,
+    y: ((clientY - (rect.top + rect.height / 2)) / targetRadius - view.y) / view.scale,
   }
+}
 
-  return colors.reverse()
+/**
+ * Scores a shot position on a face, applying the line-cutter rule for the given shaft diameter.
+ */
+export const scoreShot = (
+  x: number,
+  y: number,
+  face: TargetFace = DEFAULT_TARGET_FACE,
+  shaftDiameterMm = 0,
+): Shot => {
+  const score = calculateScore(x, y, face, shaftDiameterMm)
+  return {
+    x,
+    y,
+    score,
+    isX: score !== face.missValue && isXShot(x, y, face, shaftDiameterMm),
+  }
+}
+
+/**
+ * Counts X's and top-ring hits (10s on WA faces). X's are included in the ten count,
+ * matching how tie-breaks are scored.
+ */
+export const countXsAndTens = (shots: Shot[], face: TargetFace = DEFAULT_TARGET_FACE): { xCount: number; tenCount: number } => {
+  const topScore = getTopRingScore(face)
+  return {
+    xCount: shots.filter(shot => shot.isX).length,
+    tenCount: shots.filter(shot => shot.isX || shot.score === topScore).length,
+  }
+}
+
+/**
+ * Builds a shot entered by score alone, without a position on the face.
+ */
+export const createScoreOnlyShot = (score: number, isX = false): Shot => ({
+  x: 0,
+  y: 0,
+  score,
+  ...(isX && { isX: true }),
+  isPositionless: true,
+})
+
+/**
+ * Shots with a recorded position; score-only shots can't be plotted or measured.
+ */
+export const getPositionedShots = (shots: Shot[]): Shot[] => shots.filter(shot => !shot.isPositionless)
+
+export const formatShotValue = (shot: Shot): string => {
+  if (shot.isX) return 'X'
+  if (shot.score === 0) return 'M'
+  return String(shot.score)
 }
 
 export const calculateDistanceFromCenter = (shot: Shot, targetRadius = TARGET_RADIUS_UNITS): number => {
@@ -40,6 +126,16 @@ export const calculateDistanceBetweenShots = (first: Shot, second: Shot, targetR
   return distance * targetRadius
 }
 
+/**
+ * The local calendar date of a timestamp as YYYY-MM-DD, which is what the archer picks in a date input
+ */
+export const toLocalDateKey = (isoDate: string): string => {
+  const date = new Date(isoDate)
+  const month = String(date.getMonth() + 1).padStart(2, '0')
+  const day = String(date.getDate()).padStart(2, '0')
+  return `${date.getFullYear()}-${month}-${day}`
+}
+
 export const calculateAverage = (values: number[]): number => {
   if (values.length === 0) {
     return 0
@@ -48,7 +144,8 @@ export const calculateAverage = (values: number[]): number => {
   return total / values.length
 }
 
-export const calculateEndPrecision = (shots: Shot[], targetRadius = TARGET_RADIUS_UNITS): number => {
+export const calculateEndPrecision = (endShots: Shot[], targetRadius = TARGET_RADIUS_UNITS): number => {
+  const shots = getPositionedShots(endShots)
   if (shots.length <= 1) {
     return 0
   }
@@ -0,0 +1,122 @@
+import { describe, it, expect, vi } from 'vitest'
+import type { Round, RoundDraft } from './types'
+import type { RoundsSnapshot } from './roundLists'
+import { createLocalRoundRepository } from './localRoundRepository'
+
+const makeRound = (id: string, createdAt: string): Round => ({
+  id,
+  createdAt,
+  ends: [{ shots: [{ x: 0, y: 0, score: 10 }], endScore: 10, precision: 0 }],
+  totalScore: 10,
+})
+
+describe('local round repository', () => {
+  it('saves, lists newest first, updates notes and deletes', async () => {
+    const repository = createLocalRoundRepository()
+    await repository.save('archer', makeRound('a', '2026-02-01T10:00:00Z'))
+    await repository.saveMany('archer', [makeRound('b', '2026-02-02T10:00:00Z')])
+    await repository.updateNotes('archer', 'a', 'new string')
+
+    const rounds = await repository.list('archer')
+    expect(rounds.map(round => round.id)).toEqual(['b', 'a'])
+    expect(rounds[1].notes).toBe('new string')
+
+    await repository.delete('archer', 'b')
+    expect((await repository.list('archer')).map(round => round.id)).toEqual(['a'])
+    expect(await repository.list('someone-else')).toEqual([])
+  })
+
+  it('notifies subscribers with the newest page and deletions', async () => {
+    const repository = createLocalRoundRepository({
+      initialRounds: { archer: [makeRound('a', '2026-02-01T10:00:00Z')] },
+    })
+    const updates: RoundsSnapshot[] = []
+    const unsubscribe = repository.subscribe('archer', update => updates.push(update), undefined, 1)
+
+    await repository.save('archer', makeRound('b', '2026-02-02T10:00:00Z'))
+    await repository.delete('archer', 'b')
+    unsubscribe()
+    await repository.save('archer', makeRound('c', '2026-02-03T10:00:00Z'))
+
+    expect(updates.map(update => update.rounds.map(round => round.id))).toEqual([['a'], ['b'], ['a']])
+    expect(updates[2].removedIds).toEqual(['b'])
+  })
+
+  it('pages older rounds and summarizes them', async () => {
+    const repository = createLocalRoundRepository({
+      initialRounds: {
+        archer: [
+          makeRound('a', '2026-02-01T10:00:00Z'),
+          makeRound('b', '2026-02-02T10:00:00Z'),
+          makeRound('c', '2026-02-03T10:00:00Z'),
+        ],
+      },
+    })
+
+    const page = await repository.listSummaryPage('archer', '2026-02-03T10:00:00Z', 1)
+    expect(page.rounds).toEqual([expect.objectContaining({ id: 'b', endScores: [10] })])
+    expect(page.hasMore).toBe(true)
+  })
+
+  it('persists rounds to web storage', async () => {
+    const data = new Map<string, string>()
+    const storage = {
+      getItem: (key: string) => data.get(key) ?? null,
+      setItem: vi.fn((key: string, value: string) => {
+        data.set(key, value)
+      }),
+    } as unknown as Storage
+
+    await createLocalRoundRepository({ storage }).save('archer', makeRound('a', '2026-02-01T10:00:00Z'))
+
+    const reloaded = await createLocalRoundRepository({ storage }).list('archer')
+    expect(reloaded.map(round => round.id)).toEqual(['a'])
+  })
+
+  it('keeps settings, equipment, sight marks and the draft per user', async () => {
+    const repository = createLocalRoundRepository()
+    await repository.saveSettings('archer', { arrowCount: 6 })
+    await repository.saveSettings('archer', { sightRadiusCm: 80 })
+    await repository.saveEquipment('archer', { id: 'late', name: 'Indoor', createdAt: '2026-02-02T10:00:00Z', tuningLog: [] })
+    await repository.saveEquipment('archer', { id: 'early', name: 'Field', createdAt: '2026-02-01T10:00:00Z', tuningLog: [] })
+    await repository.saveSightMark('archer', { distance: 70, distanceUnit: 'm', history: [] })
+    await repository.saveSightMark('archer', { distance: 18, distanceUnit: 'm', history: [] })
+    await repository.deleteSightMark('archer', '70m')
+
+    expect(await repository.loadSettings('archer')).toEqual(
+      expect.objectContaining({ arrowCount: 6, sightRadiusCm: 80, arrowShaftDiameterMm: 0 }),
+    )
+    expect((await repository.listEquipment('archer')).map(profile => profile.id)).toEqual(['early', 'late'])
+    expect((await repository.listSightMarks('archer')).map(mark => mark.distance)).toEqual([18])
+    expect(await repository.listEquipment('someone-else')).toEqual([])
+    expect(await repository.loadDraft('archer')).toBeNull()
+  })
+
+  it('persists the draft to web storage until it is deleted', async () => {
+    const data = new Map<string, string>()
+    const storage = {
+      getItem: (key: string) => data.get(key) ?? null,
+      setItem: (key: string, value: string) => data.set(key, value),
+    } as unknown as Storage
+    const draft: RoundDraft = {
+      ends: [{ shots: [{ x: 0, y: 0, score: 10 }], endScore: 10, precision: 0 }],
+      currentEndIndex: 0,
+      notes: '',
+      endsPerRound: 1,
+      shotsPerEnd: 3,
+      faceId: 'wa-122',
+      presetId: null,
+      segments: [],
+      session: {},
+      equipmentId: null,
+      updatedAt: '2026-02-01T10:00:00Z',
+    }
+
+    await createLocalRoundRepository({ storage }).saveDraft('archer', draft)
+    const reloaded = createLocalRoundRepository({ storage })
+    expect(await reloaded.loadDraft('archer')).toEqual(draft)
+
+    await reloaded.deleteDraft('archer')
+    expect(await createLocalRoundRepository({ storage }).loadDraft('archer')).toBeNull()
+  })
+})
@@ -0,0 +1,169 @@
+import type { EquipmentProfile, Round, RoundDraft, SightMark, UserSettings } from './types'
+import type { RoundRepository } from './roundRepository'
+import {
+  DEFAULT_SHAFT_DIAMETER_MM,
+  DEFAULT_SIGHT_CLICK_MM,
+  DEFAULT_SIGHT_RADIUS_CM,
+  ROUNDS_PAGE_SIZE,
+} from './constants'
+import { sortNewestFirst, summarizeRound, upsertRounds } from './roundLists'
+import { getSightMarkKey, sortSightMarks } from './sightMarks'
+
+const DEFAULT_STORAGE_KEY = 'archery-tracker:rounds'
+
+const DEFAULT_SETTINGS: UserSettings = {
+  arrowShaftDiameterMm: DEFAULT_SHAFT_DIAMETER_MM,
+  arrowCount: 0,
+  sightRadiusCm: DEFAULT_SIGHT_RADIUS_CM,
+  sightClickMm: DEFAULT_SIGHT_CLICK_MM,
+}
+
+interface LocalRoundRepositoryOptions {
+  // Persist rounds here (e.g. `window.localStorage`); rounds live only in memory without it
+  storage?: Storage
+  storageKey?: string
+  // Rounds to start with, keyed by user id
+  initialRounds?: Record<string, Round[]>
+}
+
+// Everything kept for a user besides their rounds
+type UserData = {
+  settings: Partial<UserSettings>
+  equipment: EquipmentProfile[]
+  sightMarks: SightMark[]
+  draft: RoundDraft | null
+}
+
+type Listener = (removedIds: string[]) => void
+
+const readStoredRecord = <T>(storage: Storage | undefined, key: string): Record<string, T> => {
+  const raw = storage?.getItem(key)
+  if (!raw) {
+    return {}
+  }
+
+  try {
+    return JSON.parse(raw) as Record<string, T>
+  } catch (error) {
+    console.error('Error reading locally stored data:', error)
+    return {}
+  }
+}
+
+/**
+ * Rounds kept in memory and optionally in Web Storage, for guest/demo mode and tests.
+ * Subscribers are notified synchronously whenever a user's rounds change. Settings, equipment,
+ * sight marks and drafts are stored next to the rounds under `${storageKey}:user-data`.
+ */
+export const createLocalRoundRepository = ({
+  storage,
+  storageKey = DEFAULT_STORAGE_KEY,
+  initialRounds,
+}: LocalRoundRepositoryOptions = {}): RoundRepository => {
+  const roundsByUser = new Map<string, Round[]>(
+    Object.entries(initialRounds ?? readStoredRecord<Round[]>(storage, storageKey)).map(([userId, rounds]) => [
+      userId,
+      sortNewestFirst(rounds),
+    ]),
+  )
+  const userDataKey = `${storageKey}:user-data`
+  const userDataByUser = new Map<string, UserData>(Object.entries(readStoredRecord<UserData>(storage, userDataKey)))
+  const listenersByUser = new Map<string, Set<Listener>>()
+
+  const getUserData = (userId: string): UserData =>
+    userDataByUser.get(userId) ?? { settings: {}, equipment: [], sightMarks: [], draft: null }
+
+  const updateUserData = (userId: string, changes: Partial<UserData>) => {
+    userDataByUser.set(userId, { ...getUserData(userId), ...changes })
+    storage?.setItem(userDataKey, JSON.stringify(Object.fromEntries(userDataByUser)))
+  }
+
+  const getRounds = (userId: string): Round[] => roundsByUser.get(userId) ?? []
+
+  const setRounds = (userId: string, rounds: Round[], removedIds: string[] = []) => {
+    roundsByUser.set(userId, sortNewestFirst(rounds))
+    storage?.setItem(storageKey, JSON.stringify(Object.fromEntries(roundsByUser)))
+    listenersByUser.get(userId)?.forEach(listener => listener(removedIds))
+  }
+
+  const getOlderRounds = (userId: string, afterCreatedAt: string, pageSize: number) => {
+    const after = new Date(afterCreatedAt).getTime()
+    const older = getRounds(userId).filter(round => new Date(round.createdAt).getTime() < after)
+    return { rounds: older.slice(0, pageSize), hasMore: older.length > pageSize }
+  }
+
+  const addListener = (userId: string, listener: Listener) => {
+    const listeners = listenersByUser.get(userId) ?? new Set<Listener>()
+    listeners.add(listener)
+    listenersByUser.set(userId, listeners)
+    listener([])
+    return () => {
+      listeners.delete(listener)
+    }
+  }
+
+  return {
+    save: async (userId, round) => setRounds(userId, upsertRounds(getRounds(userId), [round])),
+    saveMany: async (userId, rounds) => setRounds(userId, upsertRounds(getRounds(userId), rounds)),
+    list: async userId => getRounds(userId),
+    listPage: async (userId, afterCreatedAt, pageSize = ROUNDS_PAGE_SIZE) =>
+      getOlderRounds(userId, afterCreatedAt, pageSize),
+    listSummaryPage: async (userId, afterCreatedAt, pageSize = ROUNDS_PAGE_SIZE) => {
+      const page = getOlderRounds(userId, afterCreatedAt, pageSize)
+      return { rounds: page.rounds.map(summarizeRound), hasMore: page.hasMore }
+    },
+    subscribe: (userId, onChange, _onError, pageSize = ROUNDS_PAGE_SIZE) =>
+      addListener(userId, removedIds =>
+        onChange({
+          rounds: getRounds(userId).slice(0, pageSize),
+          removedIds,
+          hasPendingWrites: false,
+        }),
+      ),
+    subscribeSummaries: (userId, onChange, _onError, pageSize = ROUNDS_PAGE_SIZE) =>
+      addListener(userId, removedIds =>
+        onChange({
+          rounds: getRounds(userId).slice(0, pageSize).map(summarizeRound),
+          removedIds,
+          hasPendingWrites: false,
+        }),
+      ),
+    updateNotes: async (userId, roundId, notes) =>
+      setRounds(
+        userId,
+        getRounds(userId).map(round => (round.id === roundId ? { ...round, notes } : round)),
+      ),
+    delete: async (userId, roundId) =>
+      setRounds(
+        userId,
+        getRounds(userId).filter(round => round.id !== roundId),
+        [roundId],
+      ),
+    loadSettings: async userId => ({ ...DEFAULT_SETTINGS, ...getUserData(userId).settings }),
+    saveSettings: async (userId, settings) =>
+      updateUserData(userId, { settings: { ...getUserData(userId).settings, ...settings } }),
+    listEquipment: async userId =>
+      [...getUserData(userId).equipment].sort((first, second) => first.createdAt.localeCompare(second.createdAt)),
+    saveEquipment: async (userId, profile) =>
+      updateUserData(userId, {
+        equipment: [...getUserData(userId).equipment.filter(entry => entry.id !== profile.id), profile],
+      }),
+    deleteEquipment: async (userId, profileId) =>
+      updateUserData(userId, { equipment: getUserData(userId).equipment.filter(entry => entry.id !== profileId) }),
+    listSightMarks: async userId => sortSightMarks(getUserData(userId).sightMarks),
+    saveSightMark: async (userId, mark) =>
+      updateUserData(userId, {
+        sightMarks: [
+          ...getUserData(userId).sightMarks.filter(entry => getSightMarkKey(entry) !== getSightMarkKey(mark)),
+          mark,
+        ],
+      }),
+    deleteSightMark: async (userId, key) =>
+      updateUserData(userId, {
+        sightMarks: getUserData(userId).sightMarks.filter(entry => getSightMarkKey(entry) !== key),
+      }),
+    loadDraft: async userId => getUserData(userId).draft,
+    saveDraft: async (userId, draft) => updateUserData(userId, { draft }),
+    deleteDraft: async userId => updateUserData(userId, { draft: null }),
+  }
+}
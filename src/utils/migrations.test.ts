@@ -0,0 +1,78 @@
+import { describe, it, expect } from 'vitest'
+import type { StoredRound, StoredRoundV1 } from './types'
+import { CURRENT_SCHEMA_VERSION, migrateStoredRound } from './migrations'
+
+const makeV1 = (round: StoredRoundV1['round'], overrides: Partial<StoredRoundV1> = {}): StoredRoundV1 => ({
+  id: 'legacy',
+  createdAt: '2025-06-01T09:00:00Z',
+  totalScore: 0,
+  round,
+  ...overrides,
+})
+
+describe('stored round migrations', () => {
+  it('treats documents without a schema version as version 1 and upgrades them', () => {
+    const { data, migrated } = migrateStoredRound(
+      makeV1({ end01: { shot1: { x: 0.1, y: -0.2, score: 9 } } }, { notes: 'windy' }),
+    )
+
+    expect(migrated).toBe(true)
+    expect(data.schemaVersion).toBe(CURRENT_SCHEMA_VERSION)
+    expect(data.ends).toEqual([{ shots: [{ x: 0.1, y: -0.2, score: 9 }] }])
+    expect(data.notes).toBe('windy')
+    expect(data).not.toHaveProperty('round')
+  })
+
+  it('orders ends and shots numerically past nine', () => {
+    const shots = Object.fromEntries(
+      Array.from({ length: 12 }, (_, index) => [`shot${index + 1}`, { x: 0, y: 0, score: index % 10 }]),
+    )
+    const ends = Object.fromEntries(
+      Array.from({ length: 11 }, (_, index) => [`end${index + 1}`, { shot1: { x: 0, y: 0, score: index } }]),
+    )
+
+    const manyShots = migrateStoredRound(makeV1({ end01: shots })).data
+    expect(manyShots.ends[0].shots.map(shot => shot.score)).toEqual([0, 1, 2, 3, 4, 5, 6, 7, 8, 9, 0, 1])
+
+    const manyEnds = migrateStoredRound(makeV1(ends)).data
+    expect(manyEnds.ends.map(end => end.shots[0].score)).toEqual([0, 1, 2, 3, 4, 5, 6, 7, 8, 9, 10])
+  })
+
+  it('keeps shots without a position instead of placing them in the centre', () => {
+    const { data } = migrateStoredRound(makeV1({ end01: { shot1: { score: 7 }, shot2: { x: 0.3, score: 8 } } }))
+
+    expect(data.ends[0].shots).toEqual([{ score: 7 }, { score: 8 }])
+  })
+
+  it('reads bare numeric scores and ignores keys that are not shots', () => {
+    const { data } = migrateStoredRound(
+      makeV1({ end01: { shot1: 10, shot2: { x: 0, y: 0, score: 10, isX: true }, endScore: 20 } }),
+    )
+
+    expect(data.ends[0].shots).toEqual([{ score: 10 }, { x: 0, y: 0, score: 10, isX: true }])
+  })
+
+  it('upgrades documents with no ends at all', () => {
+    const { data } = migrateStoredRound(makeV1(undefined, { totalScore: 42 }))
+
+    expect(data.ends).toEqual([])
+    expect(data.totalScore).toBe(42)
+  })
+
+  it('leaves current documents untouched', () => {
+    const current: StoredRound = {
+      schemaVersion: 2,
+      id: 'current',
+      createdAt: '2026-01-01T09:00:00Z',
+      totalScore: 10,
+      ends: [{ shots: [{ x: 0, y: 0, score: 10 }] }],
+    }
+
+    expect(migrateStoredRound(current)).toEqual({ data: current, migrated: false })
+  })
+
+  it('refuses documents written by a newer version of the app', () => {
+    const future = { schemaVersion: 3, id: 'future' } as unknown as StoredRound
+    expect(() => migrateStoredRound(future)).toThrow(/schema version 3/)
+  })
+})
@@ -0,0 +1,79 @@
+/**
+ * Upgrades stored round documents to the current schema when they are read.
+ */
+
+import type { StoredEnd, StoredRound, StoredRoundV1, StoredShot } from './types'
+
+export const CURRENT_SCHEMA_VERSION = 2
+
+// Rewrite upgraded documents in Firestore so each one is migrated only once
+export const REWRITE_MIGRATED_ROUNDS = true
+
+export type AnyStoredRound = StoredRoundV1 | StoredRound
+
+export type MigrationResult = {
+  data: StoredRound
+  // True when the document was stored in an older version
+  migrated: boolean
+}
+
+const END_KEY_PATTERN = /^end(\d+)$/
+const SHOT_KEY_PATTERN = /^shot(\d+)$/
+
+/**
+ * Keys matching the pattern, ordered by their numeric suffix so `shot10` follows `shot9`
+ */
+const getOrderedKeys = (record: Record<string, unknown>, pattern: RegExp): string[] =>
+  Object.keys(record)
+    .filter(key => pattern.test(key))
+    .sort((first, second) => Number(first.match(pattern)?.[1]) - Number(second.match(pattern)?.[1]))
+
+const toStoredShot = (entry: StoredShot | number | undefined): StoredShot | null => {
+  // Some early documents stored a bare score under the shot key
+  if (typeof entry === 'number') {
+    return { score: entry }
+  }
+  if (typeof entry !== 'object' || entry === null || typeof entry.score !== 'number') {
+    return null
+  }
+
+  return {
+    ...(typeof entry.x === 'number' && typeof entry.y === 'number' && { x: entry.x, y: entry.y }),
+    score: entry.score,
+    ...(entry.isX === true && { isX: true }),
+  }
+}
+
+export const migrateV1ToV2 = (data: StoredRoundV1): StoredRound => {
+  const { round: storedEnds = {}, ...metadata } = data
+
+  const ends: StoredEnd[] = getOrderedKeys(storedEnds, END_KEY_PATTERN).map(endKey => {
+    const storedShots = storedEnds[endKey] ?? {}
+    return {
+      shots: getOrderedKeys(storedShots, SHOT_KEY_PATTERN)
+        .map(shotKey => toStoredShot(storedShots[shotKey]))
+        .filter((shot): shot is StoredShot => shot !== null),
+    }
+  })
+
+  return { ...metadata, schemaVersion: 2, ends }
+}
+
+export const getSchemaVersion = (data: AnyStoredRound): number =>
+  typeof data.schemaVersion === 'number' ? data.schemaVersion : 1
+
+/**
+ * Bring a stored document up to the current schema
+ */
+export const migrateStoredRound = (data: AnyStoredRound): MigrationResult => {
+  const version = getSchemaVersion(data)
+  if (version > CURRENT_SCHEMA_VERSION) {
+    throw new Error(`Round ${data.id} uses schema version ${version}, which this app does not understand`)
+  }
+
+  if (version === CURRENT_SCHEMA_VERSION) {
+    return { data: data as StoredRound, migrated: false }
+  }
+
+  return { data: migrateV1ToV2(data as StoredRoundV1), migrated: true }
+}
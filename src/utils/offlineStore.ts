@@ -0,0 +1,200 @@
+import type { Round, RoundDraft } from './types'
+import { sortNewestFirst, type RoundListItem } from './roundLists'
+
+/**
+ * Local IndexedDB storage for rounds that have not reached Firestore yet and for the
+ * round being recorded. Both are written here before any network call so nothing is
+ * lost at the range.
+ */
+
+const DATABASE_NAME = 'archery-tracker'
+const DATABASE_VERSION = 2
+const PENDING_ROUNDS_STORE = 'pendingRounds'
+const DRAFTS_STORE = 'drafts'
+
+type DraftRecord = {
+  userId: string
+  draft: RoundDraft
+}
+
+type PendingRoundRecord = {
+  userId: string
+  roundId: string
+  round: Round
+  queuedAt: string
+}
+
+let databasePromise: Promise<IDBDatabase> | null = null
+
+const requestToPromise = <T>(request: IDBRequest<T>): Promise<T> =>
+  new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result)
+    request.onerror = () => reject(request.error)
+  })
+
+/**
+ * Whether this browser can keep rounds and drafts locally. Without IndexedDB (private modes,
+ * some test environments) reads find nothing and draft saves are skipped.
+ */
+export const isOfflineStoreAvailable = (): boolean => typeof indexedDB !== 'undefined'
+
+const openDatabase = (): Promise<IDBDatabase> => {
+  if (!isOfflineStoreAvailable()) {
+    return Promise.reject(new Error('IndexedDB is not available'))
+  }
+
+  if (!databasePromise) {
+    const request = indexedDB.open(DATABASE_NAME, DATABASE_VERSION)
+    request.onupgradeneeded = () => {
+      const database = request.result
+      if (!database.objectStoreNames.contains(PENDING_ROUNDS_STORE)) {
+        const store = database.createObjectStore(PENDING_ROUNDS_STORE, { keyPath: ['userId', 'roundId'] })
+        store.createIndex('userId', 'userId')
+      }
+      if (!database.objectStoreNames.contains(DRAFTS_STORE)) {
+        database.createObjectStore(DRAFTS_STORE, { keyPath: 'userId' })
+      }
+    }
+    databasePromise = requestToPromise(request).catch(error => {
+      // Allow a later call to retry opening the database
+      databasePromise = null
+      throw error
+    })
+  }
+
+  return databasePromise
+}
+
+/**
+ * Copy of a round without the local-only pending flag
+ */
+export const withoutPendingSync = <T extends RoundListItem>(round: T): T => {
+  const copy = { ...round }
+  delete copy.pendingSync
+  return copy
+}
+
+const getStore = async (storeName: string, mode: IDBTransactionMode): Promise<IDBObjectStore> => {
+  const database = await openDatabase()
+  return database.transaction(storeName, mode).objectStore(storeName)
+}
+
+/**
+ * Queue a round for upload to Firestore. Queuing the same round again replaces it.
+ * Fails without IndexedDB, so callers should check `isOfflineStoreAvailable` and save directly.
+ */
+export const queuePendingRound = async (userId: string, round: Round): Promise<void> => {
+  try {
+    const record: PendingRoundRecord = {
+      userId,
+      roundId: round.id,
+      round: withoutPendingSync(round),
+      queuedAt: new Date().toISOString(),
+    }
+    const store = await getStore(PENDING_ROUNDS_STORE, 'readwrite')
+    await requestToPromise(store.put(record))
+  } catch (error) {
+    console.error('Error queuing round locally:', error)
+    throw error
+  }
+}
+
+/**
+ * Load the rounds still waiting to be uploaded for a specific user, oldest first
+ */
+export const loadPendingRounds = async (userId: string): Promise<Round[]> => {
+  if (!isOfflineStoreAvailable()) {
+    return []
+  }
+
+  try {
+    const store = await getStore(PENDING_ROUNDS_STORE, 'readonly')
+    const records = await requestToPromise<PendingRoundRecord[]>(store.index('userId').getAll(userId))
+    return records
+      .sort((first, second) => first.queuedAt.localeCompare(second.queuedAt))
+      .map(record => ({ ...record.round, pendingSync: true }))
+  } catch (error) {
+    console.error('Error loading pending rounds:', error)
+    throw error
+  }
+}
+
+/**
+ * Remove a round from the upload queue once Firestore has it, or when it is deleted
+ */
+export const removePendingRound = async (userId: string, roundId: string): Promise<void> => {
+  if (!isOfflineStoreAvailable()) {
+    return
+  }
+
+  try {
+    const store = await getStore(PENDING_ROUNDS_STORE, 'readwrite')
+    await requestToPromise(store.delete([userId, roundId]))
+  } catch (error) {
+    console.error('Error removing pending round:', error)
+    throw error
+  }
+}
+
+/**
+ * Combine remote rounds with rounds that only exist locally, newest first.
+ * A remote copy always wins over a queued one with the same id.
+ */
+export const mergePendingRounds = <T extends RoundListItem>(remoteRounds: T[], pendingRounds: T[]): T[] => {
+  const remoteIds = new Set(remoteRounds.map(round => round.id))
+  const localOnly = pendingRounds.filter(round => !remoteIds.has(round.id))
+  return sortNewestFirst([...remoteRounds, ...localOnly])
+}
+
+/**
+ * Save the round being recorded on this device
+ */
+export const saveLocalDraft = async (userId: string, draft: RoundDraft): Promise<void> => {
+  if (!isOfflineStoreAvailable()) {
+    return
+  }
+
+  try {
+    const record: DraftRecord = { userId, draft }
+    const store = await getStore(DRAFTS_STORE, 'readwrite')
+    await requestToPromise(store.put(record))
+  } catch (error) {
+    console.error('Error saving draft locally:', error)
+    throw error
+  }
+}
+
+/**
+ * Load the round a user was recording on this device, if there is one
+ */
+export const loadLocalDraft = async (userId: string): Promise<RoundDraft | null> => {
+  if (!isOfflineStoreAvailable()) {
+    return null
+  }
+
+  try {
+    const store = await getStore(DRAFTS_STORE, 'readonly')
+    const record = await requestToPromise<DraftRecord | undefined>(store.get(userId))
+    return record?.draft ?? null
+  } catch (error) {
+    console.error('Error loading local draft:', error)
+    throw error
+  }
+}
+
+/**
+ * Delete the draft stored on this device
+ */
+export const deleteLocalDraft = async (userId: string): Promise<void> => {
+  if (!isOfflineStoreAvailable()) {
+    return
+  }
+
+  try {
+    const store = await getStore(DRAFTS_STORE, 'readwrite')
+    await requestToPromise(store.delete(userId))
+  } catch (error) {
+    console.error('Error deleting local draft:', error)
+    throw error
+  }
+}
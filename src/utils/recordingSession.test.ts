@@ -0,0 +1,132 @@
+import { describe, it, expect } from 'vitest'
+import type { Shot } from './types'
+import { createRecordingHistory, recordingReducer, type RecordingAction, type RecordingHistory } from './recordingSession'
+
+const shot: Shot = { x: 0, y: 0, score: 10, isX: true }
+
+const run = (actions: RecordingAction[], history: RecordingHistory = createRecordingHistory()) =>
+  actions.reduce(recordingReducer, history)
+
+describe('recording session', () => {
+  it('undoes and redoes placed shots', () => {
+    const shot2 = run([{ type: 'placeShot', shot }, { type: 'placeShot', shot }])
+    const undone = recordingReducer(shot2, { type: 'undo' })
+
+    expect(undone.present.ends[0].shots).toHaveLength(1)
+    expect(undone.present.ends[0].endScore).toBe(10)
+
+    const redone = recordingReducer(undone, { type: 'redo' })
+    expect(redone.present).toBe(shot2.present)
+  })
+
+  it('rescores a moved arrow and undoes the move', () => {
+    const moved = run([
+      { type: 'placeShot', shot },
+      { type: 'moveShot', shotIndex: 0, shot: { x: 0.5, y: 0, score: 5, isX: false } },
+    ])
+
+    expect(moved.present.ends[0].endScore).toBe(5)
+    expect(recordingReducer(moved, { type: 'undo' }).present.ends[0].shots).toEqual([shot])
+    expect(recordingReducer(moved, { type: 'moveShot', shotIndex: 3, shot })).toBe(moved)
+  })
+
+  it('tags and untags an arrow number without storing undefined', () => {
+    const tagged = run([
+      { type: 'placeShot', shot },
+      { type: 'setShotArrow', shotIndex: 0, arrowNumber: 4 },
+    ])
+    expect(tagged.present.ends[0].shots[0].arrowNumber).toBe(4)
+
+    const untagged = recordingReducer(tagged, { type: 'setShotArrow', shotIndex: 0, arrowNumber: null })
+    expect(untagged.present.ends[0].shots[0]).toEqual(shot)
+    expect('arrowNumber' in untagged.present.ends[0].shots[0]).toBe(false)
+  })
+
+  it('keeps the arrow number of a moved arrow', () => {
+    const moved = run([
+      { type: 'placeShot', shot },
+      { type: 'setShotArrow', shotIndex: 0, arrowNumber: 4 },
+      { type: 'moveShot', shotIndex: 0, shot: { x: 0.5, y: 0, score: 6 } },
+    ])
+    expect(moved.present.ends[0].shots[0]).toEqual({ x: 0.5, y: 0, score: 6, arrowNumber: 4 })
+  })
+
+  it('undoes a confirmed end', () => {
+    const confirmed = run([
+      { type: 'placeShot', shot },
+      { type: 'placeShot', shot },
+      { type: 'placeShot', shot },
+      { type: 'confirmEnd' },
+    ])
+    expect(confirmed.present.currentEndIndex).toBe(1)
+
+    expect(recordingReducer(confirmed, { type: 'undo' }).present.currentEndIndex).toBe(0)
+  })
+
+  it('starts a new undo step for typing after moving to another end', () => {
+    const history = run([
+      { type: 'setNotes', notes: 'a' },
+      { type: 'selectEnd', endIndex: 2 },
+      { type: 'setNotes', notes: 'ab' },
+    ])
+    expect(history.present).toMatchObject({ notes: 'ab', currentEndIndex: 2 })
+    expect(history.past).toHaveLength(2)
+
+    const undone = recordingReducer(history, { type: 'undo' })
+    expect(undone.present).toMatchObject({ notes: 'a', currentEndIndex: 2 })
+  })
+
+  it('brings back trailing ends when a smaller end count is undone', () => {
+    const history = run([
+      { type: 'setEndsPerRound', endsPerRound: 6 },
+      { type: 'selectEnd', endIndex: 5 },
+      { type: 'placeShot', shot },
+      { type: 'setEndsPerRound', endsPerRound: 2 },
+    ])
+    expect(history.present.ends).toHaveLength(2)
+
+    const undone = recordingReducer(history, { type: 'undo' })
+    expect(undone.present.ends).toHaveLength(6)
+    expect(undone.present.ends[5].shots).toEqual([shot])
+  })
+
+  it('treats a run of typing as one undo step', () => {
+    const history = run([
+      { type: 'placeShot', shot },
+      { type: 'setEndsPerRound', endsPerRound: 1 },
+      { type: 'setEndsPerRound', endsPerRound: 12 },
+      { type: 'setNotes', notes: 'W' },
+      { type: 'setNotes', notes: 'Windy' },
+    ])
+
+    // Passing through a single end on the way to 12 doesn't drop anything
+    expect(history.present.ends).toHaveLength(12)
+    expect(history.past.map(entry => entry.type)).toEqual(['placeShot', 'setEndsPerRound', 'setNotes'])
+    expect(recordingReducer(history, { type: 'undo' }).present.notes).toBe('')
+  })
+
+  it('drops the redo stack after a new action and skips actions that change nothing', () => {
+    const undone = run([{ type: 'placeShot', shot }, { type: 'undo' }])
+    expect(undone.future).toHaveLength(1)
+
+    const changed = recordingReducer(undone, { type: 'setFace', faceId: 'wa-80' })
+    expect(changed.future).toEqual([])
+    expect(recordingReducer(changed, { type: 'setFace', faceId: 'wa-80' })).toBe(changed)
+  })
+
+  it('keeps the setup and clears the history on reset', () => {
+    const history = run([
+      { type: 'setShotsPerEnd', shotsPerEnd: 6 },
+      { type: 'setSession', session: { venue: 'indoor' } },
+      { type: 'setEquipment', equipmentId: 'target-bow' },
+      { type: 'placeShot', shot },
+      { type: 'reset' },
+    ])
+
+    expect(history.present.shotsPerEnd).toBe(6)
+    expect(history.present.session).toEqual({ venue: 'indoor' })
+    expect(history.present.equipmentId).toBe('target-bow')
+    expect(history.present.ends.every(end => end.shots.length === 0)).toBe(true)
+    expect(history.past).toEqual([])
+  })
+})
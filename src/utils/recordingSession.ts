@@ -0,0 +1,298 @@
+/**
+ * State machine for recording a round. Every change goes through `recordingReducer`, which keeps an
+ * undo/redo history of the actions taken during the session.
+ */
+
+import type { RecordingState, RoundPresetId, RoundSegment, SessionDetails, Shot, TargetFaceId } from './types'
+import {
+  DEFAULT_ENDS_PER_ROUND,
+  DEFAULT_SHOTS_PER_END,
+  MAX_ENDS,
+  MAX_UNDO_STEPS,
+  MIN_ENDS,
+} from './constants'
+import { calculateEndPrecision, generateEndTemplate } from './helpers'
+import { getPresetSegments, getRoundPreset } from './roundPresets'
+import { DEFAULT_TARGET_FACE_ID } from './targetFaces'
+import { isSameSessionDetails } from './sessionDetails'
+
+export type RecordedAction =
+  | { type: 'placeShot'; shot: Shot }
+  // Correct an arrow already placed in the current end
+  | { type: 'moveShot'; shotIndex: number; shot: Shot }
+  // Tag an arrow in the current end with the archer's arrow number, or clear it with null
+  | { type: 'setShotArrow'; shotIndex: number; arrowNumber: number | null }
+  | { type: 'confirmEnd' }
+  | { type: 'setEndsPerRound'; endsPerRound: number }
+  | { type: 'setShotsPerEnd'; shotsPerEnd: number }
+  | { type: 'setFace'; faceId: TargetFaceId }
+  | { type: 'setPreset'; presetId: RoundPresetId | null }
+  | { type: 'setSegments'; segments: RoundSegment[] }
+  | { type: 'setNotes'; notes: string }
+  | { type: 'setSession'; session: SessionDetails }
+  | { type: 'setEquipment'; equipmentId: string | null }
+
+export type RecordingAction =
+  | RecordedAction
+  // Moving between ends is navigation, so it isn't an undo step
+  | { type: 'selectEnd'; endIndex: number }
+  | { type: 'undo' }
+  | { type: 'redo' }
+  // Start over from a saved draft or a fresh round; both clear the history
+  | { type: 'restore'; state: RecordingState }
+  | { type: 'reset' }
+
+type RecordedActionType = RecordedAction['type']
+
+type HistoryEntry = {
+  // The state on the other side of the action: before it in `past`, after it in `future`
+  state: RecordingState
+  type: RecordedActionType
+}
+
+export type RecordingHistory = {
+  past: HistoryEntry[]
+  present: RecordingState
+  future: HistoryEntry[]
+  // Set when the archer moves to another end, so the next keystroke starts a new undo step
+  isRunClosed?: boolean
+}
+
+// Typing into a field produces one action per keystroke; a run of them is undone as one step
+const COALESCED_ACTIONS = new Set<RecordedActionType>([
+  'setEndsPerRound',
+  'setShotsPerEnd',
+  'setNotes',
+  'setSession',
+])
+
+const ACTION_LABELS: Record<RecordedActionType, string> = {
+  placeShot: 'last shot',
+  moveShot: 'arrow move',
+  setShotArrow: 'arrow number',
+  confirmEnd: 'end confirmation',
+  setEndsPerRound: 'end count change',
+  setShotsPerEnd: 'arrows per end change',
+  setFace: 'target face change',
+  setPreset: 'round change',
+  setSegments: 'distance change',
+  setNotes: 'notes edit',
+  setSession: 'session details edit',
+  setEquipment: 'equipment change',
+}
+
+export const describeRecordedAction = (type: RecordedActionType): string => ACTION_LABELS[type]
+
+export const createRecordingState = (overrides: Partial<RecordingState> = {}): RecordingState => {
+  const endsPerRound = overrides.endsPerRound ?? DEFAULT_ENDS_PER_ROUND
+  return {
+    ends: Array.from({ length: endsPerRound }, generateEndTemplate),
+    currentEndIndex: 0,
+    notes: '',
+    endsPerRound,
+    shotsPerEnd: DEFAULT_SHOTS_PER_END,
+    faceId: DEFAULT_TARGET_FACE_ID,
+    presetId: null,
+    segments: [],
+    session: {},
+    equipmentId: null,
+    ...overrides,
+  }
+}
+
+export const createRecordingHistory = (state: RecordingState = createRecordingState()): RecordingHistory => ({
+  past: [],
+  present: state,
+  future: [],
+})
+
+const clampEndsPerRound = (value: number) => Math.min(MAX_ENDS, Math.max(MIN_ENDS, Math.floor(value)))
+
+/**
+ * Change the number of ends, keeping arrows already shot in the ends that remain
+ */
+const withEndsPerRound = (state: RecordingState, endsPerRound: number): RecordingState => ({
+  ...state,
+  endsPerRound,
+  ends: Array.from({ length: endsPerRound }, (_, index) => state.ends[index] ?? generateEndTemplate()),
+  currentEndIndex: Math.min(state.currentEndIndex, endsPerRound - 1),
+})
+
+const withSegments = (state: RecordingState, segments: RoundSegment[]): RecordingState => {
+  if (segments.length === 0) {
+    return { ...state, segments }
+  }
+
+  // The round's ends and default face follow its distances
+  const totalEnds = segments.reduce((total, segment) => total + segment.endCount, 0)
+  return withEndsPerRound({ ...state, segments, faceId: segments[0].faceId }, totalEnds)
+}
+
+const withCurrentEndShots = (state: RecordingState, shots: Shot[]): RecordingState => {
+  const ends = [...state.ends]
+  ends[state.currentEndIndex] = {
+    shots,
+    endScore: shots.reduce((total, shot) => total + shot.score, 0),
+    precision: calculateEndPrecision(shots),
+  }
+  return { ...state, ends }
+}
+
+const applyAction = (state: RecordingState, action: RecordedAction): RecordingState => {
+  switch (action.type) {
+    case 'placeShot': {
+      const end = state.ends[state.currentEndIndex]
+      if (!end || end.shots.length >= state.shotsPerEnd) {
+        return state
+      }
+
+      return withCurrentEndShots(state, [...end.shots, action.shot])
+    }
+    case 'moveShot': {
+      const end = state.ends[state.currentEndIndex]
+      if (!end || !end.shots[action.shotIndex]) {
+        return state
+      }
+
+      // The moved arrow is still the same numbered arrow
+      return withCurrentEndShots(
+        state,
+        end.shots.map((shot, index) =>
+          index === action.shotIndex
+            ? { ...action.shot, ...(shot.arrowNumber !== undefined && { arrowNumber: shot.arrowNumber }) }
+            : shot,
+        ),
+      )
+    }
+    case 'setShotArrow': {
+      const end = state.ends[state.currentEndIndex]
+      const target = end?.shots[action.shotIndex]
+      if (!target || target.arrowNumber === (action.arrowNumber ?? undefined)) {
+        return state
+      }
+
+      // Drop the key rather than storing undefined, which Firestore rejects in synced drafts
+      const tagged: Shot = { ...target }
+      if (action.arrowNumber === null) {
+        delete tagged.arrowNumber
+      } else {
+        tagged.arrowNumber = action.arrowNumber
+      }
+      return withCurrentEndShots(
+        state,
+        end.shots.map((shot, index) => (index === action.shotIndex ? tagged : shot)),
+      )
+    }
+    case 'confirmEnd': {
+      const end = state.ends[state.currentEndIndex]
+      if (!end || end.shots.length !== state.shotsPerEnd) {
+        return state
+      }
+
+      // Move to the next incomplete end, or simply the next end
+      const nextIncompleteIndex = state.ends.findIndex(
+        (candidate, index) => index > state.currentEndIndex && candidate.shots.length < state.shotsPerEnd,
+      )
+      if (nextIncompleteIndex !== -1) {
+        return { ...state, currentEndIndex: nextIncompleteIndex }
+      }
+      if (state.currentEndIndex < state.endsPerRound - 1) {
+        return { ...state, currentEndIndex: state.currentEndIndex + 1 }
+      }
+      return state
+    }
+    case 'setEndsPerRound':
+      return action.endsPerRound === state.endsPerRound ? state : withEndsPerRound(state, action.endsPerRound)
+    case 'setShotsPerEnd':
+      return action.shotsPerEnd === state.shotsPerEnd ? state : { ...state, shotsPerEnd: action.shotsPerEnd }
+    case 'setFace':
+      return action.faceId === state.faceId ? state : { ...state, faceId: action.faceId }
+    case 'setPreset': {
+      const preset = getRoundPreset(action.presetId)
+      if (!preset) {
+        // Presets may exceed the custom limits, so bring the ends back into range
+        return withEndsPerRound({ ...state, presetId: null, segments: [] }, clampEndsPerRound(state.endsPerRound))
+      }
+
+      return withSegments(
+        { ...state, presetId: preset.id, shotsPerEnd: preset.shotsPerEnd },
+        getPresetSegments(preset),
+      )
+    }
+    case 'setSegments':
+      return withSegments(state, action.segments)
+    case 'setNotes':
+      return action.notes === state.notes ? state : { ...state, notes: action.notes }
+    case 'setSession':
+      return isSameSessionDetails(action.session, state.session) ? state : { ...state, session: action.session }
+    case 'setEquipment':
+      return action.equipmentId === state.equipmentId ? state : { ...state, equipmentId: action.equipmentId }
+  }
+}
+
+const record = (history: RecordingHistory, action: RecordedAction): RecordingHistory => {
+  const previous = history.past[history.past.length - 1]
+  const continuesRun =
+    COALESCED_ACTIONS.has(action.type) &&
+    previous?.type === action.type &&
+    history.future.length === 0 &&
+    !history.isRunClosed
+
+  if (continuesRun) {
+    // Apply the run to the state before it began, so e.g. typing "1" then "12" ends never drops ends 2–12
+    return { ...history, present: applyAction(previous.state, action) }
+  }
+
+  const present = applyAction(history.present, action)
+  if (present === history.present) {
+    return history
+  }
+
+  return {
+    past: [...history.past, { state: history.present, type: action.type }].slice(-MAX_UNDO_STEPS),
+    present,
+    future: [],
+  }
+}
+
+export const recordingReducer = (history: RecordingHistory, action: RecordingAction): RecordingHistory => {
+  switch (action.type) {
+    case 'selectEnd':
+      // A run continues from the state before it began, which would undo this navigation
+      return { ...history, present: { ...history.present, currentEndIndex: action.endIndex }, isRunClosed: true }
+    case 'undo': {
+      const entry = history.past[history.past.length - 1]
+      if (!entry) {
+        return history
+      }
+      return {
+        past: history.past.slice(0, -1),
+        present: entry.state,
+        future: [...history.future, { state: history.present, type: entry.type }],
+      }
+    }
+    case 'redo': {
+      const entry = history.future[history.future.length - 1]
+      if (!entry) {
+        return history
+      }
+      return {
+        past: [...history.past, { state: history.present, type: entry.type }],
+        present: entry.state,
+        future: history.future.slice(0, -1),
+      }
+    }
+    case 'restore':
+      return createRecordingHistory(action.state)
+    case 'reset':
+      // Keep the round setup and session details for the next practice
+      return createRecordingHistory({
+        ...history.present,
+        ends: Array.from({ length: history.present.endsPerRound }, generateEndTemplate),
+        currentEndIndex: 0,
+        notes: '',
+      })
+    default:
+      return record(history, action)
+  }
+}
@@ -0,0 +1,65 @@
+import { describe, it, expect } from 'vitest'
+import type { Round } from './types'
+import { addShot, deleteShot, moveShot } from './roundEditing'
+
+const makeRound = (): Round => ({
+  id: 'round-1',
+  createdAt: '2026-05-01T10:00:00Z',
+  ends: [
+    {
+      shots: [
+        { x: 0, y: 0, score: 10, isX: true },
+        { x: 0.95, y: 0, score: 1 },
+      ],
+      endScore: 11,
+      precision: 0,
+    },
+    { shots: [{ x: 0, y: 0, score: 10, isX: true }], endScore: 10, precision: 0 },
+  ],
+  totalScore: 21,
+  faceId: 'wa-122',
+  shaftDiameterMm: 0,
+  xCount: 2,
+  tenCount: 2,
+})
+
+describe('saved round editing', () => {
+  it('re-scores a moved arrow and updates the end and round totals', () => {
+    const edited = moveShot(makeRound(), 0, 1, 0, 0)
+
+    expect(edited.ends[0].shots[1]).toMatchObject({ x: 0, y: 0, score: 10, isX: true })
+    expect(edited.ends[0].endScore).toBe(20)
+    expect(edited.totalScore).toBe(30)
+    expect(edited.xCount).toBe(3)
+    expect(edited.ends[1]).toEqual(makeRound().ends[1])
+  })
+
+  it('keeps the arrow number of a moved arrow', () => {
+    const round = makeRound()
+    round.ends[0].shots[1] = { ...round.ends[0].shots[1], arrowNumber: 7 }
+
+    const edited = moveShot(round, 0, 1, 0, 0)
+    expect(edited.ends[0].shots[1]).toMatchObject({ score: 10, arrowNumber: 7 })
+    expect('arrowNumber' in edited.ends[0].shots[0]).toBe(false)
+  })
+
+  it('adds and deletes arrows', () => {
+    const added = addShot(makeRound(), 1, 0.95, 0)
+    expect(added.ends[1].shots).toHaveLength(2)
+    expect(added.ends[1].endScore).toBe(11)
+    expect(added.totalScore).toBe(22)
+
+    const deleted = deleteShot(added, 0, 0)
+    expect(deleted.ends[0].shots).toEqual([{ x: 0.95, y: 0, score: 1 }])
+    expect(deleted.totalScore).toBe(12)
+    expect(deleted.xCount).toBe(1)
+    expect(deleted.tenCount).toBe(1)
+  })
+
+  it('ignores edits to arrows that do not exist', () => {
+    const round = makeRound()
+    expect(moveShot(round, 0, 5, 0, 0)).toBe(round)
+    expect(deleteShot(round, 3, 0)).toBe(round)
+    expect(addShot(round, 3, 0, 0)).toBe(round)
+  })
+})
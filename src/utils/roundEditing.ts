@@ -0,0 +1,76 @@
+/**
+ * Corrections to the arrows of a saved round. Each change re-scores against the face the end was
+ * shot on and recomputes the end and round totals.
+ */
+
+import type { Round, Shot } from './types'
+import { DEFAULT_SHAFT_DIAMETER_MM } from './constants'
+import { calculateEndPrecision, scoreShot } from './helpers'
+import { countRoundXsAndTens, getFaceForEnd } from './segments'
+
+const rescoreShot = (round: Round, endIndex: number, x: number, y: number): Shot =>
+  scoreShot(x, y, getFaceForEnd(round, endIndex), round.shaftDiameterMm ?? DEFAULT_SHAFT_DIAMETER_MM)
+
+const withEndShots = (round: Round, endIndex: number, shots: Shot[]): Round => {
+  const ends = round.ends.map((end, index) =>
+    index === endIndex
+      ? {
+          shots,
+          endScore: shots.reduce((total, shot) => total + shot.score, 0),
+          precision: calculateEndPrecision(shots),
+        }
+      : end,
+  )
+  const { xCount, tenCount } = countRoundXsAndTens({ ends, faceId: round.faceId, segments: round.segments })
+
+  return {
+    ...round,
+    ends,
+    totalScore: ends.reduce((total, end) => total + end.endScore, 0),
+    xCount,
+    tenCount,
+  }
+}
+
+export const moveShot = (round: Round, endIndex: number, shotIndex: number, x: number, y: number): Round => {
+  const shots = round.ends[endIndex]?.shots
+  if (!shots || !shots[shotIndex]) {
+    return round
+  }
+
+  return withEndShots(
+    round,
+    endIndex,
+    shots.map((shot, index) =>
+      index === shotIndex
+        ? {
+            ...rescoreShot(round, endIndex, x, y),
+            // Re-scoring keeps the arrow's number
+            ...(shot.arrowNumber !== undefined && { arrowNumber: shot.arrowNumber }),
+          }
+        : shot,
+    ),
+  )
+}
+
+export const addShot = (round: Round, endIndex: number, x: number, y: number): Round => {
+  const shots = round.ends[endIndex]?.shots
+  if (!shots) {
+    return round
+  }
+
+  return withEndShots(round, endIndex, [...shots, rescoreShot(round, endIndex, x, y)])
+}
+
+export const deleteShot = (round: Round, endIndex: number, shotIndex: number): Round => {
+  const shots = round.ends[endIndex]?.shots
+  if (!shots || !shots[shotIndex]) {
+    return round
+  }
+
+  return withEndShots(
+    round,
+    endIndex,
+    shots.filter((_, index) => index !== shotIndex),
+  )
+}
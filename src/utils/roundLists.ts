@@ -0,0 +1,65 @@
+/**
+ * Helpers for keeping lists of rounds (full or summarized) in step with paged and live loads.
+ */
+
+import type { Round, RoundSummary } from './types'
+
+export type RoundListItem = {
+  id: string
+  createdAt: string
+  pendingSync?: boolean
+}
+
+export type RoundsSnapshot<T extends RoundListItem = Round> = {
+  // The newest stored rounds, up to the page size, newest first
+  rounds: T[]
+  // Rounds deleted since the previous snapshot
+  removedIds: string[]
+  // True while any local write has not been acknowledged by the server
+  hasPendingWrites: boolean
+}
+
+export type RoundsPage<T extends RoundListItem = Round> = {
+  rounds: T[]
+  hasMore: boolean
+}
+
+export const sortNewestFirst = <T extends RoundListItem>(items: T[]): T[] =>
+  [...items].sort((first, second) => new Date(second.createdAt).getTime() - new Date(first.createdAt).getTime())
+
+/**
+ * Add or replace items by id, keeping everything else already loaded
+ */
+export const upsertRounds = <T extends RoundListItem>(current: T[], incoming: T[]): T[] => {
+  const incomingIds = new Set(incoming.map(item => item.id))
+  return sortNewestFirst([...current.filter(item => !incomingIds.has(item.id)), ...incoming])
+}
+
+/**
+ * Apply a live update: drop deleted rounds, then upsert the rounds in the live window
+ */
+export const applyRoundsUpdate = <T extends RoundListItem>(current: T[], incoming: T[], removedIds: string[]): T[] => {
+  const removed = new Set(removedIds)
+  return upsertRounds(
+    current.filter(item => !removed.has(item.id)),
+    incoming,
+  )
+}
+
+/**
+ * Summarize a round already held in memory, such as one that was just recorded
+ */
+export const summarizeRound = (round: Round): RoundSummary => ({
+  id: round.id,
+  createdAt: round.createdAt,
+  totalScore: round.totalScore,
+  endScores: round.ends.map(end => end.endScore),
+  faceId: round.faceId,
+  ...(round.presetId && { presetId: round.presetId }),
+  shotsPerEnd: round.shotsPerEnd,
+  xCount: round.xCount,
+  tenCount: round.tenCount,
+  notes: round.notes,
+  ...(round.session && { session: round.session }),
+  ...(round.pendingSync && { pendingSync: true }),
+})
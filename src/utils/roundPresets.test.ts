@@ -0,0 +1,27 @@
+import { describe, it, expect } from 'vitest'
+import { ROUND_PRESET_OPTIONS, formatPresetScore, getRoundPreset } from './roundPresets'
+import { TARGET_FACES } from './targetFaces'
+
+describe('round presets', () => {
+  it('has a max score matching the arrow count and face for every preset', () => {
+    ROUND_PRESET_OPTIONS.forEach(preset => {
+      const face = TARGET_FACES[preset.faceId]
+      const topScore = face.rings[face.rings.length - 1].score
+      expect(preset.ends * preset.shotsPerEnd * topScore).toBe(preset.maxScore)
+    })
+  })
+
+  it('describes the WA 70m round as 72 arrows', () => {
+    const preset = getRoundPreset('wa-70m')
+    expect(preset && preset.ends * preset.shotsPerEnd).toBe(72)
+  })
+
+  it('returns null for custom or unknown rounds', () => {
+    expect(getRoundPreset(null)).toBeNull()
+    expect(getRoundPreset('york')).toBeNull()
+  })
+
+  it('formats a score against the preset maximum', () => {
+    expect(formatPresetScore(getRoundPreset('wa-18m')!, 543)).toBe('WA 18m – 543/600')
+  })
+})
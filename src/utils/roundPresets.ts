@@ -0,0 +1,94 @@
+/**
+ * Catalogue of standard rounds an archer can select when recording.
+ * Each preset fixes the face, ends and arrows per end so scores are comparable.
+ */
+
+import type { RoundPreset, RoundPresetId, RoundSegment } from './types'
+
+export const ROUND_PRESETS: Record<RoundPresetId, RoundPreset> = {
+  'wa-70m': {
+    id: 'wa-70m',
+    name: 'WA 70m',
+    distance: 70,
+    distanceUnit: 'm',
+    faceId: 'wa-122',
+    ends: 12,
+    shotsPerEnd: 6,
+    maxScore: 720,
+  },
+  'wa-1440': {
+    id: 'wa-1440',
+    name: 'WA 1440',
+    distance: 90,
+    distanceUnit: 'm',
+    faceId: 'wa-122',
+    ends: 24,
+    shotsPerEnd: 6,
+    maxScore: 1440,
+    segments: [
+      { distance: 90, distanceUnit: 'm', faceId: 'wa-122', endCount: 6 },
+      { distance: 70, distanceUnit: 'm', faceId: 'wa-122', endCount: 6 },
+      { distance: 50, distanceUnit: 'm', faceId: 'wa-80', endCount: 6 },
+      { distance: 30, distanceUnit: 'm', faceId: 'wa-80', endCount: 6 },
+    ],
+  },
+  'wa-18m': {
+    id: 'wa-18m',
+    name: 'WA 18m',
+    distance: 18,
+    distanceUnit: 'm',
+    faceId: 'wa-40-triple',
+    ends: 20,
+    shotsPerEnd: 3,
+    maxScore: 600,
+  },
+  portsmouth: {
+    id: 'portsmouth',
+    name: 'Portsmouth',
+    distance: 20,
+    distanceUnit: 'yd',
+    faceId: 'wa-60',
+    ends: 20,
+    shotsPerEnd: 3,
+    maxScore: 600,
+  },
+  vegas: {
+    id: 'vegas',
+    name: 'Vegas',
+    distance: 18,
+    distanceUnit: 'm',
+    faceId: 'wa-40-triple',
+    ends: 10,
+    shotsPerEnd: 3,
+    maxScore: 300,
+  },
+  'nfaa-300': {
+    id: 'nfaa-300',
+    name: 'NFAA 300',
+    distance: 20,
+    distanceUnit: 'yd',
+    faceId: 'nfaa-5spot',
+    ends: 12,
+    shotsPerEnd: 5,
+    maxScore: 300,
+  },
+}
+
+export const ROUND_PRESET_OPTIONS: RoundPreset[] = Object.values(ROUND_PRESETS)
+
+export const getRoundPreset = (presetId?: string | null): RoundPreset | null =>
+  (presetId && presetId in ROUND_PRESETS ? ROUND_PRESETS[presetId as RoundPresetId] : null)
+
+/**
+ * Formats a score against a preset, e.g. "WA 18m – 543/600".
+ */
+export const formatPresetScore = (preset: RoundPreset, totalScore: number): string =>
+  `${preset.name} – ${totalScore}/${preset.maxScore}`
+
+/**
+ * Segments a preset is shot in; single-distance presets form one segment.
+ */
+export const getPresetSegments = (preset: RoundPreset): RoundSegment[] =>
+  preset.segments ?? [
+    { distance: preset.distance, distanceUnit: preset.distanceUnit, faceId: preset.faceId, endCount: preset.ends },
+  ]
@@ -0,0 +1,51 @@
+import type { EquipmentProfile, Round, RoundDraft, RoundSummary, SightMark, UserSettings } from './types'
+import type { RoundsPage, RoundsSnapshot } from './roundLists'
+
+export type Unsubscribe = () => void
+
+/**
+ * Storage for a user's rounds and what is kept alongside them: settings, equipment, sight marks
+ * and the round being recorded. The app talks to this interface rather than to Firestore
+ * directly, so the same screens can run against Firestore, the emulator or local storage.
+ */
+export interface RoundRepository {
+  save: (userId: string, round: Round) => Promise<void>
+  saveMany: (userId: string, rounds: Round[]) => Promise<void>
+  // Every round, newest first
+  list: (userId: string) => Promise<Round[]>
+  // The page of rounds shot before `afterCreatedAt`
+  listPage: (userId: string, afterCreatedAt: string, pageSize?: number) => Promise<RoundsPage>
+  listSummaryPage: (userId: string, afterCreatedAt: string, pageSize?: number) => Promise<RoundsPage<RoundSummary>>
+  // Keep the newest page of rounds live
+  subscribe: (
+    userId: string,
+    onChange: (snapshot: RoundsSnapshot) => void,
+    onError?: (error: Error) => void,
+    pageSize?: number,
+  ) => Unsubscribe
+  subscribeSummaries: (
+    userId: string,
+    onChange: (snapshot: RoundsSnapshot<RoundSummary>) => void,
+    onError?: (error: Error) => void,
+    pageSize?: number,
+  ) => Unsubscribe
+  updateNotes: (userId: string, roundId: string, notes: string) => Promise<void>
+  delete: (userId: string, roundId: string) => Promise<void>
+  // Settings never saved come back as their defaults
+  loadSettings: (userId: string) => Promise<UserSettings>
+  // Settings left out keep their stored values
+  saveSettings: (userId: string, settings: Partial<UserSettings>) => Promise<void>
+  // Equipment profiles, oldest first
+  listEquipment: (userId: string) => Promise<EquipmentProfile[]>
+  saveEquipment: (userId: string, profile: EquipmentProfile) => Promise<void>
+  deleteEquipment: (userId: string, profileId: string) => Promise<void>
+  // Sight marks, nearest distance first
+  listSightMarks: (userId: string) => Promise<SightMark[]>
+  saveSightMark: (userId: string, mark: SightMark) => Promise<void>
+  // `key` is the mark's distance, see `getSightMarkKey`
+  deleteSightMark: (userId: string, key: string) => Promise<void>
+  // The copy of the round being recorded that follows the archer between devices
+  loadDraft: (userId: string) => Promise<RoundDraft | null>
+  saveDraft: (userId: string, draft: RoundDraft) => Promise<void>
+  deleteDraft: (userId: string) => Promise<void>
+}
@@ -0,0 +1,83 @@
+import { describe, it, expect } from 'vitest'
+import type { End, Round } from './types'
+import { filterRoundsByDistance, getFaceForEnd, getRoundDistances, groupEndsBySegment, parseDistanceKey } from './segments'
+import { computeAggregateStats } from './aggregateStats'
+
+const makeEnd = (score: number): End => ({
+  shots: [
+    { x: 0, y: 0, score },
+    { x: 0, y: 0, score },
+    { x: 0, y: 0, score },
+  ],
+  endScore: score * 3,
+  precision: 0,
+})
+
+const makeRound = (overrides: Partial<Round> = {}): Round => {
+  const ends = [makeEnd(10), makeEnd(9), makeEnd(8)]
+  return {
+    id: 'round-1',
+    createdAt: '2026-01-01T10:00:00Z',
+    ends,
+    totalScore: ends.reduce((total, end) => total + end.endScore, 0),
+    faceId: 'wa-122',
+    segments: [
+      { distance: 50, distanceUnit: 'm', faceId: 'wa-122', endCount: 2 },
+      { distance: 30, distanceUnit: 'm', faceId: 'wa-80', endCount: 1 },
+    ],
+    ...overrides,
+  }
+}
+
+describe('round segments', () => {
+  it('groups ends by segment with subtotals', () => {
+    const groups = groupEndsBySegment(makeRound())
+    expect(groups.map(group => group.ends.length)).toEqual([2, 1])
+    expect(groups.map(group => group.subtotal)).toEqual([57, 24])
+    expect(groups[1].startIndex).toBe(2)
+    expect(groups[1].face.id).toBe('wa-80')
+  })
+
+  it('treats a round without segments as a single group', () => {
+    const groups = groupEndsBySegment(makeRound({ segments: undefined }))
+    expect(groups).toHaveLength(1)
+    expect(groups[0].segment).toBeNull()
+    expect(groups[0].subtotal).toBe(81)
+  })
+
+  it('picks the face for the segment an end belongs to', () => {
+    const round = makeRound()
+    expect(getFaceForEnd(round, 1).id).toBe('wa-122')
+    expect(getFaceForEnd(round, 2).id).toBe('wa-80')
+  })
+
+  it('lists distances and filters ends shot at one of them', () => {
+    const rounds = [makeRound(), makeRound({ id: 'round-2', segments: undefined })]
+    expect(getRoundDistances(rounds)).toEqual(['50m', '30m'])
+
+    const filtered = filterRoundsByDistance(rounds, '30m')
+    expect(filtered).toHaveLength(1)
+    expect(filtered[0].ends).toHaveLength(1)
+    expect(filtered[0].totalScore).toBe(24)
+    expect(filtered[0].faceId).toBe('wa-80')
+  })
+
+  it('counts the session distance of a round without segments', () => {
+    const indoor = makeRound({ id: 'round-3', segments: undefined, session: { distance: 18, distanceUnit: 'm' } })
+    expect(getRoundDistances([makeRound(), indoor])).toEqual(['50m', '30m', '18m'])
+
+    expect(filterRoundsByDistance([makeRound(), indoor], '18m')).toEqual([indoor])
+  })
+
+  it('computes aggregate stats for a single distance', () => {
+    const stats = computeAggregateStats([makeRound()], '50m')
+    expect(stats.shotCount).toBe(6)
+    expect(stats.tenCount).toBe(3)
+  })
+
+  it('parses distance keys back into a distance', () => {
+    expect(parseDistanceKey('70m')).toEqual({ distance: 70, distanceUnit: 'm' })
+    expect(parseDistanceKey('20yd')).toEqual({ distance: 20, distanceUnit: 'yd' })
+    expect(parseDistanceKey('far')).toBeNull()
+  })
+})
@@ -0,0 +1,166 @@
+/**
+ * Helpers for rounds shot over several distances.
+ * A round's `segments` partition its flat `ends` array in order.
+ */
+
+import type { DistanceUnit, End, Round, RoundSegment, TargetFace, TargetFaceId } from './types'
+import { getTargetFace } from './targetFaces'
+import { countXsAndTens } from './helpers'
+
+export type SegmentGroup = {
+  segment: RoundSegment | null
+  face: TargetFace
+  startIndex: number
+  ends: End[]
+  subtotal: number
+}
+
+type SegmentedRound = Pick<Round, 'ends' | 'faceId' | 'segments' | 'session'>
+
+export const formatDistance = (distance: number, unit: DistanceUnit): string => `${distance}${unit}`
+
+export const getSegmentKey = (segment: RoundSegment): string => formatDistance(segment.distance, segment.distanceUnit)
+
+/**
+ * Reads a distance back from its key, e.g. "70m" or "20yd"
+ */
+export const parseDistanceKey = (key: string): { distance: number; distanceUnit: DistanceUnit } | null => {
+  const match = /^(\d+(?:\.\d+)?)(m|yd)$/.exec(key)
+  return match ? { distance: Number(match[1]), distanceUnit: match[2] as DistanceUnit } : null
+}
+
+/**
+ * Splits a round's ends into their segments. Rounds without segments form a single
+ * group, and any ends beyond the declared segments stay with the last one.
+ */
+export const groupEndsBySegment = (round: SegmentedRound): SegmentGroup[] => {
+  const segments = round.segments ?? []
+  if (segments.length === 0) {
+    return [
+      {
+        segment: null,
+        face: getTargetFace(round.faceId),
+        startIndex: 0,
+        ends: round.ends,
+        subtotal: round.ends.reduce((total, end) => total + end.endScore, 0),
+      },
+    ]
+  }
+
+  let startIndex = 0
+  return segments.map((segment, segmentIndex) => {
+    const isLast = segmentIndex === segments.length - 1
+    const ends = isLast ? round.ends.slice(startIndex) : round.ends.slice(startIndex, startIndex + segment.endCount)
+    const group: SegmentGroup = {
+      segment,
+      face: getTargetFace(segment.faceId),
+      startIndex,
+      ends,
+      subtotal: ends.reduce((total, end) => total + end.endScore, 0),
+    }
+    startIndex += segment.endCount
+    return group
+  })
+}
+
+/**
+ * X and ten counts for a round, scoring each segment against its own face.
+ */
+export const countRoundXsAndTens = (round: SegmentedRound): { xCount: number; tenCount: number } =>
+  groupEndsBySegment(round).reduce(
+    (totals, group) => {
+      const counts = countXsAndTens(group.ends.flatMap(end => end.shots), group.face)
+      return {
+        xCount: totals.xCount + counts.xCount,
+        tenCount: totals.tenCount + counts.tenCount,
+      }
+    },
+    { xCount: 0, tenCount: 0 },
+  )
+
+/**
+ * Index of the segment an end belongs to, or -1 for rounds without segments.
+ */
+export const getSegmentIndexForEnd = (segments: RoundSegment[], endIndex: number): number => {
+  let endOfSegment = 0
+  for (let segmentIndex = 0; segmentIndex < segments.length; segmentIndex += 1) {
+    endOfSegment += segments[segmentIndex].endCount
+    if (endIndex < endOfSegment) {
+      return segmentIndex
+    }
+  }
+  return segments.length - 1
+}
+
+export const getFaceForEnd = (round: Pick<Round, 'faceId' | 'segments'>, endIndex: number): TargetFace => {
+  const segments = round.segments ?? []
+  const segmentIndex = getSegmentIndexForEnd(segments, endIndex)
+  return segmentIndex === -1 ? getTargetFace(round.faceId) : getTargetFace(segments[segmentIndex].faceId)
+}
+
+/**
+ * The faces a round was shot on, in the order they were shot.
+ */
+export const getRoundFaceIds = (round: Pick<Round, 'faceId' | 'segments'>): TargetFaceId[] =>
+  round.segments && round.segments.length > 0
+    ? [...new Set(round.segments.map(segment => getTargetFace(segment.faceId).id))]
+    : [getTargetFace(round.faceId).id]
+
+/**
+ * A round's distances as segments. A single-distance round recorded with a session distance
+ * counts as one segment covering every end.
+ */
+const getDistanceSegments = (round: SegmentedRound): RoundSegment[] => {
+  if (round.segments && round.segments.length > 0) {
+    return round.segments
+  }
+  if (round.session?.distance === undefined) {
+    return []
+  }
+  return [
+    {
+      distance: round.session.distance,
+      distanceUnit: round.session.distanceUnit ?? 'm',
+      faceId: getTargetFace(round.faceId).id,
+      endCount: round.ends.length,
+    },
+  ]
+}
+
+/**
+ * Distinct distances across rounds, in the order they were first shot.
+ */
+export const getRoundDistances = (rounds: SegmentedRound[]): string[] => {
+  const keys = rounds.flatMap(round => getDistanceSegments(round).map(getSegmentKey))
+  return [...new Set(keys)]
+}
+
+/**
+ * Keeps only the ends shot at the given distance. Rounds with no segment at that
+ * distance are dropped, including rounds recorded without a distance.
+ */
+export const filterRoundsByDistance = <T extends SegmentedRound>(rounds: T[], distanceKey: string): T[] =>
+  rounds.flatMap(round => {
+    if (!round.segments?.length) {
+      const [sessionSegment] = getDistanceSegments(round)
+      return sessionSegment && getSegmentKey(sessionSegment) === distanceKey ? [round] : []
+    }
+
+    const groups = groupEndsBySegment(round).filter(
+      group => group.segment !== null && getSegmentKey(group.segment) === distanceKey,
+    )
+    if (groups.length === 0) {
+      return []
+    }
+
+    const ends = groups.flatMap(group => group.ends)
+    return [
+      {
+        ...round,
+        ends,
+        faceId: groups[0].face.id,
+        segments: groups.map(group => ({ ...group.segment!, endCount: group.ends.length })),
+        totalScore: ends.reduce((total, end) => total + end.endScore, 0),
+      },
+    ]
+  })
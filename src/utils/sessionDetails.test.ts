@@ -0,0 +1,48 @@
+import { describe, it, expect } from 'vitest'
+import {
+  filterRoundsBySession,
+  formatSessionDetails,
+  getSessionLocations,
+  normalizeSessionDetails,
+  updateSessionDetails,
+} from './sessionDetails'
+
+describe('session details', () => {
+  it('keeps valid fields and drops the rest', () => {
+    expect(
+      normalizeSessionDetails({
+        distance: 18,
+        venue: 'indoor',
+        bowClass: 'crossbow',
+        location: '  Club range ',
+        wind: undefined,
+        temperatureC: 'warm',
+      }),
+    ).toEqual({ distance: 18, distanceUnit: 'm', venue: 'indoor', location: 'Club range' })
+    expect(normalizeSessionDetails(null)).toEqual({})
+  })
+
+  it('removes cleared fields instead of storing undefined', () => {
+    const updated = updateSessionDetails({ venue: 'outdoor', location: 'Park' }, { venue: undefined, location: '' })
+    expect(updated).toEqual({})
+    expect(Object.keys(updated)).toHaveLength(0)
+  })
+
+  it('formats details as short tags', () => {
+    expect(
+      formatSessionDetails({ distance: 20, distanceUnit: 'yd', venue: 'outdoor', bowClass: 'barebow', wind: 'light', temperatureC: 12 }),
+    ).toEqual(['20yd', 'Outdoor', 'Barebow', 'Light wind', '12°C'])
+  })
+
+  it('filters practices by venue, bow class and location', () => {
+    const rounds = [
+      { id: 'a', session: { venue: 'indoor' as const, bowClass: 'recurve' as const, location: 'Hall' } },
+      { id: 'b', session: { venue: 'outdoor' as const, bowClass: 'recurve' as const, location: 'Field' } },
+      { id: 'c' },
+    ]
+
+    expect(filterRoundsBySession(rounds, {}).map(round => round.id)).toEqual(['a', 'b', 'c'])
+    expect(filterRoundsBySession(rounds, { bowClass: 'recurve', venue: 'outdoor' }).map(round => round.id)).toEqual(['b'])
+    expect(getSessionLocations(rounds)).toEqual(['Field', 'Hall'])
+  })
+})
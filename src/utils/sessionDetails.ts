@@ -0,0 +1,150 @@
+/**
+ * Structured details about where and how a practice was shot, and filters over them.
+ */
+
+import type { BowClass, DistanceUnit, SessionDetails, ShootingVenue, WindCondition } from './types'
+import { formatDistance } from './segments'
+
+export const SHOOTING_VENUES: { value: ShootingVenue; label: string }[] = [
+  { value: 'indoor', label: 'Indoor' },
+  { value: 'outdoor', label: 'Outdoor' },
+]
+
+export const BOW_CLASSES: { value: BowClass; label: string }[] = [
+  { value: 'recurve', label: 'Recurve' },
+  { value: 'compound', label: 'Compound' },
+  { value: 'barebow', label: 'Barebow' },
+  { value: 'longbow', label: 'Longbow' },
+]
+
+export const WIND_CONDITIONS: { value: WindCondition; label: string }[] = [
+  { value: 'calm', label: 'Calm' },
+  { value: 'light', label: 'Light wind' },
+  { value: 'moderate', label: 'Moderate wind' },
+  { value: 'strong', label: 'Strong wind' },
+]
+
+const DISTANCE_UNITS: DistanceUnit[] = ['m', 'yd']
+
+const findOption = <T extends string>(options: { value: T }[], value: unknown): T | undefined =>
+  options.find(option => option.value === value)?.value
+
+const isFiniteNumber = (value: unknown): value is number => typeof value === 'number' && Number.isFinite(value)
+
+/**
+ * Keeps only the valid details from stored or drafted data. Missing fields are left out rather than
+ * set to undefined, which Firestore rejects.
+ */
+export const normalizeSessionDetails = (value: unknown): SessionDetails => {
+  if (!value || typeof value !== 'object') {
+    return {}
+  }
+
+  const raw = value as Record<string, unknown>
+  const details: SessionDetails = {}
+  if (isFiniteNumber(raw.distance) && raw.distance > 0) {
+    details.distance = raw.distance
+    details.distanceUnit = DISTANCE_UNITS.includes(raw.distanceUnit as DistanceUnit)
+      ? (raw.distanceUnit as DistanceUnit)
+      : 'm'
+  }
+  const venue = findOption(SHOOTING_VENUES, raw.venue)
+  if (venue) {
+    details.venue = venue
+  }
+  const bowClass = findOption(BOW_CLASSES, raw.bowClass)
+  if (bowClass) {
+    details.bowClass = bowClass
+  }
+  if (typeof raw.location === 'string' && raw.location.trim() !== '') {
+    details.location = raw.location.trim()
+  }
+  const wind = findOption(WIND_CONDITIONS, raw.wind)
+  if (wind) {
+    details.wind = wind
+  }
+  if (isFiniteNumber(raw.temperatureC)) {
+    details.temperatureC = raw.temperatureC
+  }
+  return details
+}
+
+export const hasSessionDetails = (details: SessionDetails | undefined): details is SessionDetails =>
+  details !== undefined && Object.keys(details).length > 0
+
+/**
+ * Applies edits from the form, dropping fields that were cleared. Text is kept as typed until the round is saved.
+ */
+export const updateSessionDetails = (details: SessionDetails, changes: Partial<SessionDetails>): SessionDetails => {
+  const updated: Record<string, unknown> = { ...details, ...changes }
+  Object.keys(updated).forEach(key => {
+    if (updated[key] === undefined || updated[key] === '') {
+      delete updated[key]
+    }
+  })
+  return updated as SessionDetails
+}
+
+export const isSameSessionDetails = (first: SessionDetails, second: SessionDetails): boolean => {
+  const keys = new Set([...Object.keys(first), ...Object.keys(second)] as (keyof SessionDetails)[])
+  return [...keys].every(key => first[key] === second[key])
+}
+
+const getLabel = <T extends string>(options: { value: T; label: string }[], value: T) =>
+  options.find(option => option.value === value)?.label ?? value
+
+/**
+ * Short labels for a practice's details, e.g. ["18m", "Indoor", "Recurve", "Club range", "Calm", "12°C"].
+ */
+export const formatSessionDetails = (details: SessionDetails | undefined): string[] => {
+  if (!details) {
+    return []
+  }
+
+  const tags: string[] = []
+  if (details.distance !== undefined) {
+    tags.push(formatDistance(details.distance, details.distanceUnit ?? 'm'))
+  }
+  if (details.venue) {
+    tags.push(getLabel(SHOOTING_VENUES, details.venue))
+  }
+  if (details.bowClass) {
+    tags.push(getLabel(BOW_CLASSES, details.bowClass))
+  }
+  if (details.location) {
+    tags.push(details.location)
+  }
+  if (details.wind) {
+    tags.push(getLabel(WIND_CONDITIONS, details.wind))
+  }
+  if (details.temperatureC !== undefined) {
+    tags.push(`${details.temperatureC}°C`)
+  }
+  return tags
+}
+
+// An empty filter matches every practice
+export type SessionFilters = {
+  venue?: ShootingVenue
+  bowClass?: BowClass
+  location?: string
+}
+
+/**
+ * Distinct locations across practices, sorted for a picker.
+ */
+export const getSessionLocations = (rounds: { session?: SessionDetails }[]): string[] =>
+  [...new Set(rounds.flatMap(round => (round.session?.location ? [round.session.location] : [])))].sort(
+    (first, second) => first.localeCompare(second),
+  )
+
+/**
+ * Keeps the practices matching every set filter. Practices recorded without a detail never match a filter on it.
+ */
+export const filterRoundsBySession = <T extends { session?: SessionDetails }>(rounds: T[], filters: SessionFilters): T[] =>
+  rounds.filter(
+    round =>
+      (!filters.venue || round.session?.venue === filters.venue) &&
+      (!filters.bowClass || round.session?.bowClass === filters.bowClass) &&
+      (!filters.location || round.session?.location === filters.location),
+  )
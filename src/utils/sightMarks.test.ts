@@ -0,0 +1,93 @@
+import { describe, it, expect } from 'vitest'
+import type { Round, SightMark, TargetFaceId } from './types'
+import {
+  computePointOfImpact,
+  computeSightAdjustment,
+  describeSightAdjustment,
+  normalizeSightMark,
+  recordSightMark,
+  removeSightMarkReading,
+} from './sightMarks'
+
+const makeRound = (shots: Round['ends'][number]['shots'], faceId: TargetFaceId = 'wa-122'): Round => ({
+  id: 'round-1',
+  createdAt: '2026-01-01T10:00:00Z',
+  ends: [{ shots, endScore: 0, precision: 0 }],
+  totalScore: 0,
+  faceId,
+})
+
+describe('sight adjustments', () => {
+  it('measures the mean point of impact in cm, ignoring score-only shots', () => {
+    const impact = computePointOfImpact([
+      makeRound([
+        { x: 0.1, y: -0.2, score: 9 },
+        { x: 0.3, y: -0.2, score: 9 },
+        { x: 0, y: 0, score: 7, isPositionless: true },
+      ]),
+    ])
+    expect(impact?.shotCount).toBe(2)
+    expect(impact?.xCm).toBeCloseTo(12.2)
+    // Screen y is flipped so high shots are positive
+    expect(impact?.yCm).toBeCloseTo(12.2)
+  })
+
+  it('returns null without plotted shots', () => {
+    expect(computePointOfImpact([makeRound([{ x: 0, y: 0, score: 5, isPositionless: true }])])).toBeNull()
+  })
+
+  it('moves the sight towards the group', () => {
+    // 10cm at 50m with an 80cm sight radius is 1.6mm of aperture travel
+    const adjustment = computeSightAdjustment({ xCm: -10, yCm: 5 }, 50, 80, 0.5)
+    expect(adjustment.windageMm).toBeCloseTo(-1.6)
+    expect(adjustment.elevationMm).toBeCloseTo(0.8)
+    expect(adjustment.windageClicks).toBe(-3)
+    expect(adjustment.elevationClicks).toBe(2)
+    expect(describeSightAdjustment(adjustment)).toBe('Move the sight 3 clicks left and 2 clicks up')
+  })
+
+  it('says when the group is centred', () => {
+    const adjustment = computeSightAdjustment({ xCm: 0.5, yCm: -0.5 }, 70, 85, 0.5)
+    expect(describeSightAdjustment(adjustment)).toBe('Your group is centred; leave the sight as it is')
+  })
+})
+
+describe('sight marks', () => {
+  it('adds readings to a distance in date order and keeps distances sorted', () => {
+    let marks: SightMark[] = recordSightMark([], 70, 'm', { date: '2026-03-02', elevation: 5.2, windage: 0.1 })
+    marks = recordSightMark(marks, 30, 'm', { date: '2026-03-01', elevation: 2.1, windage: 0, note: '  ' })
+    marks = recordSightMark(marks, 70, 'm', { date: '2026-03-01', elevation: 5, windage: 0, note: 'New string' })
+
+    expect(marks.map(mark => mark.distance)).toEqual([30, 70])
+    expect(marks[0].history[0]).not.toHaveProperty('note')
+    expect(marks[1].history.map(reading => reading.elevation)).toEqual([5, 5.2])
+    expect(marks[1].history[0].note).toBe('New string')
+  })
+
+  it('drops a distance once its last reading is removed', () => {
+    const marks = recordSightMark([], 18, 'm', { date: '2026-03-01', elevation: 1, windage: 0 })
+    expect(removeSightMarkReading(marks, '18m', marks[0].history[0].id)).toEqual([])
+  })
+
+  it('rebuilds stored marks and skips invalid readings', () => {
+    expect(normalizeSightMark({ distance: 0, history: [] })).toBeNull()
+    expect(
+      normalizeSightMark({
+        distance: 60,
+        distanceUnit: 'yd',
+        history: [
+          { id: 'b', date: '2026-02-01', elevation: 4, windage: 1, note: '' },
+          { id: 'a', date: '2026-01-01', elevation: 3.5, windage: 1 },
+          { id: 'c', date: '2026-01-15', elevation: 'high', windage: 1 },
+        ],
+      }),
+    ).toEqual({
+      distance: 60,
+      distanceUnit: 'yd',
+      history: [
+        { id: 'a', date: '2026-01-01', elevation: 3.5, windage: 1 },
+        { id: 'b', date: '2026-02-01', elevation: 4, windage: 1 },
+      ],
+    })
+  })
+})
@@ -0,0 +1,189 @@
+/**
+ * Sight adjustments from a group's mean point of impact, and the archer's table of sight marks.
+ *
+ * The aperture follows the arrow: a group that lands high and right is centred by moving the
+ * sight up and right, by the offset on the face scaled down by sight radius over distance.
+ */
+
+import type { DistanceUnit, Round, SightMark, SightMarkReading } from './types'
+import { formatDistance, getFaceForEnd } from './segments'
+
+export type PointOfImpact = {
+  // Right of centre, in cm on the face
+  xCm: number
+  // Above centre, in cm on the face
+  yCm: number
+  shotCount: number
+}
+
+export type SightAdjustment = {
+  // Aperture travel; right and up are positive
+  windageMm: number
+  elevationMm: number
+  windageClicks: number
+  elevationClicks: number
+}
+
+const METRES_PER_YARD = 0.9144
+
+export const toMetres = (distance: number, unit: DistanceUnit): number =>
+  unit === 'yd' ? distance * METRES_PER_YARD : distance
+
+/**
+ * Mean point of impact of the plotted shots, measured on the face each end was shot at so
+ * rounds on different face sizes can be combined.
+ */
+export const computePointOfImpact = (rounds: Round[]): PointOfImpact | null => {
+  const offsets = rounds.flatMap(round =>
+    round.ends.flatMap((end, endIndex) => {
+      const radiusCm = getFaceForEnd(round, endIndex).diameterCm / 2
+      return end.shots
+        .filter(shot => !shot.isPositionless)
+        // Screen y grows downwards
+        .map(shot => ({ xCm: shot.x * radiusCm, yCm: -shot.y * radiusCm }))
+    }),
+  )
+  if (offsets.length === 0) {
+    return null
+  }
+
+  return {
+    xCm: offsets.reduce((total, offset) => total + offset.xCm, 0) / offsets.length,
+    yCm: offsets.reduce((total, offset) => total + offset.yCm, 0) / offsets.length,
+    shotCount: offsets.length,
+  }
+}
+
+/**
+ * The sight move that brings the mean point of impact to the centre.
+ */
+export const computeSightAdjustment = (
+  impact: Pick<PointOfImpact, 'xCm' | 'yCm'>,
+  distanceMetres: number,
+  sightRadiusCm: number,
+  clickMm: number,
+): SightAdjustment => {
+  // Offset on the face scaled from the target's distance to the aperture's, in mm
+  const scale = (sightRadiusCm / (distanceMetres * 100)) * 10
+  const windageMm = impact.xCm * scale
+  const elevationMm = impact.yCm * scale
+  return {
+    windageMm,
+    elevationMm,
+    windageClicks: clickMm > 0 ? Math.round(windageMm / clickMm) : 0,
+    elevationClicks: clickMm > 0 ? Math.round(elevationMm / clickMm) : 0,
+  }
+}
+
+const describeClicks = (clicks: number, positive: string, negative: string): string | null => {
+  if (clicks === 0) {
+    return null
+  }
+  const count = Math.abs(clicks)
+  return `${count} ${count === 1 ? 'click' : 'clicks'} ${clicks > 0 ? positive : negative}`
+}
+
+/**
+ * e.g. "Move the sight 3 clicks right and 2 clicks up"
+ */
+export const describeSightAdjustment = (adjustment: SightAdjustment): string => {
+  const moves = [
+    describeClicks(adjustment.windageClicks, 'right', 'left'),
+    describeClicks(adjustment.elevationClicks, 'up', 'down'),
+  ].filter((move): move is string => move !== null)
+  return moves.length > 0 ? `Move the sight ${moves.join(' and ')}` : 'Your group is centred; leave the sight as it is'
+}
+
+export const getSightMarkKey = (mark: Pick<SightMark, 'distance' | 'distanceUnit'>): string =>
+  formatDistance(mark.distance, mark.distanceUnit)
+
+export const getCurrentSightMark = (mark: SightMark): SightMarkReading | undefined =>
+  mark.history[mark.history.length - 1]
+
+/**
+ * Sort marks by distance for the table, nearest first
+ */
+export const sortSightMarks = (marks: SightMark[]): SightMark[] =>
+  [...marks].sort(
+    (first, second) => toMetres(first.distance, first.distanceUnit) - toMetres(second.distance, second.distanceUnit),
+  )
+
+/**
+ * Add a reading to the mark for its distance, starting a new mark if the distance is new.
+ */
+export const recordSightMark = (
+  marks: SightMark[],
+  distance: number,
+  distanceUnit: DistanceUnit,
+  reading: Omit<SightMarkReading, 'id'>,
+): SightMark[] => {
+  const key = formatDistance(distance, distanceUnit)
+  const note = reading.note?.trim()
+  const entry: SightMarkReading = {
+    id: crypto.randomUUID(),
+    date: reading.date,
+    elevation: reading.elevation,
+    windage: reading.windage,
+    ...(note ? { note } : {}),
+  }
+  const existing = marks.find(mark => getSightMarkKey(mark) === key)
+  const updated: SightMark = existing
+    ? {
+        ...existing,
+        history: [...existing.history, entry].sort((first, second) => first.date.localeCompare(second.date)),
+      }
+    : { distance, distanceUnit, history: [entry] }
+  return sortSightMarks([...marks.filter(mark => getSightMarkKey(mark) !== key), updated])
+}
+
+/**
+ * Remove a reading entered by mistake. A distance left without readings is dropped.
+ */
+export const removeSightMarkReading = (marks: SightMark[], key: string, readingId: string): SightMark[] =>
+  marks.flatMap(mark => {
+    if (getSightMarkKey(mark) !== key) {
+      return [mark]
+    }
+    const history = mark.history.filter(reading => reading.id !== readingId)
+    return history.length > 0 ? [{ ...mark, history }] : []
+  })
+
+const isFiniteNumber = (value: unknown): value is number => typeof value === 'number' && Number.isFinite(value)
+
+/**
+ * Rebuild a sight mark from stored data, or null if it has no usable distance
+ */
+export const normalizeSightMark = (value: unknown): SightMark | null => {
+  if (!value || typeof value !== 'object') {
+    return null
+  }
+  const raw = value as Record<string, unknown>
+  if (!isFiniteNumber(raw.distance) || raw.distance <= 0) {
+    return null
+  }
+
+  const history = (Array.isArray(raw.history) ? raw.history : []).flatMap((entry: unknown): SightMarkReading[] => {
+    const reading = (entry && typeof entry === 'object' ? entry : {}) as Record<string, unknown>
+    if (typeof reading.id !== 'string' || typeof reading.date !== 'string') {
+      return []
+    }
+    if (!isFiniteNumber(reading.elevation) || !isFiniteNumber(reading.windage)) {
+      return []
+    }
+    return [
+      {
+        id: reading.id,
+        date: reading.date,
+        elevation: reading.elevation,
+        windage: reading.windage,
+        ...(typeof reading.note === 'string' && reading.note !== '' && { note: reading.note }),
+      },
+    ]
+  })
+
+  return {
+    distance: raw.distance,
+    distanceUnit: raw.distanceUnit === 'yd' ? 'yd' : 'm',
+    history: history.sort((first, second) => first.date.localeCompare(second.date)),
+  }
+}
@@ -0,0 +1,79 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest'
+import type { Round } from './types'
+import { loadPendingRounds, mergePendingRounds, removePendingRound } from './offlineStore'
+import { markRoundsSynced, syncPendingRounds } from './syncQueue'
+
+const saveRound = vi.fn<(userId: string, round: Round) => Promise<void>>(async () => {})
+
+vi.mock('./offlineStore', async importOriginal => ({
+  ...(await importOriginal<typeof import('./offlineStore')>()),
+  loadPendingRounds: vi.fn(async () => []),
+  removePendingRound: vi.fn(async () => {}),
+}))
+
+const makeRound = (id: string, createdAt: string, overrides: Partial<Round> = {}): Round => ({
+  id,
+  createdAt,
+  ends: [],
+  totalScore: 0,
+  ...overrides,
+})
+
+describe('pending round sync', () => {
+  beforeEach(() => {
+    vi.clearAllMocks()
+  })
+
+  it('uploads queued rounds without the pending flag and clears them from the queue', async () => {
+    vi.mocked(loadPendingRounds).mockResolvedValueOnce([
+      makeRound('a', '2026-03-01T10:00:00Z', { pendingSync: true }),
+      makeRound('b', '2026-03-02T10:00:00Z', { pendingSync: true }),
+    ])
+
+    const syncedIds = await syncPendingRounds('user-1', saveRound)
+
+    expect(syncedIds).toEqual(['a', 'b'])
+    expect(saveRound).toHaveBeenCalledWith('user-1', makeRound('a', '2026-03-01T10:00:00Z'))
+    expect(removePendingRound).toHaveBeenCalledTimes(2)
+  })
+
+  it('stops at the first failed upload and keeps the rest queued', async () => {
+    vi.spyOn(console, 'error').mockImplementation(() => {})
+    vi.mocked(loadPendingRounds).mockResolvedValueOnce([
+      makeRound('a', '2026-03-01T10:00:00Z', { pendingSync: true }),
+      makeRound('b', '2026-03-02T10:00:00Z', { pendingSync: true }),
+    ])
+    saveRound.mockRejectedValueOnce(new Error('offline'))
+
+    const syncedIds = await syncPendingRounds('user-1', saveRound)
+
+    expect(syncedIds).toEqual([])
+    expect(saveRound).toHaveBeenCalledTimes(1)
+    expect(removePendingRound).not.toHaveBeenCalled()
+  })
+
+  it('clears the pending flag only on synced rounds', () => {
+    const rounds = [
+      makeRound('a', '2026-03-01T10:00:00Z', { pendingSync: true }),
+      makeRound('b', '2026-03-02T10:00:00Z', { pendingSync: true }),
+    ]
+
+    const updated = markRoundsSynced(rounds, ['a'])
+
+    expect(updated[0].pendingSync).toBeUndefined()
+    expect(updated[1].pendingSync).toBe(true)
+  })
+
+  it('merges local-only rounds into the remote list newest first', () => {
+    const remote = [makeRound('a', '2026-03-03T10:00:00Z'), makeRound('b', '2026-03-01T10:00:00Z')]
+    const pending = [
+      makeRound('b', '2026-03-01T10:00:00Z', { pendingSync: true }),
+      makeRound('c', '2026-03-02T10:00:00Z', { pendingSync: true }),
+    ]
+
+    const merged = mergePendingRounds(remote, pending)
+
+    expect(merged.map(round => round.id)).toEqual(['a', 'c', 'b'])
+    expect(merged.find(round => round.id === 'b')?.pendingSync).toBeUndefined()
+  })
+})
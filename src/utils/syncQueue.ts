@@ -0,0 +1,54 @@
+import type { RoundListItem } from './roundLists'
+import type { Round } from './types'
+import { loadPendingRounds, removePendingRound, withoutPendingSync } from './offlineStore'
+
+type SaveRound = (userId: string, round: Round) => Promise<void>
+
+const activeSyncs = new Map<string, Promise<string[]>>()
+
+const uploadPendingRounds = async (userId: string, saveRound: SaveRound): Promise<string[]> => {
+  const pendingRounds = await loadPendingRounds(userId)
+  const syncedIds: string[] = []
+
+  for (const round of pendingRounds) {
+    try {
+      await saveRound(userId, withoutPendingSync(round))
+    } catch (error) {
+      // Most likely still offline, so leave the rest of the queue for the next attempt
+      console.error('Failed to sync pending round:', error)
+      break
+    }
+
+    await removePendingRound(userId, round.id)
+    syncedIds.push(round.id)
+  }
+
+  return syncedIds
+}
+
+/**
+ * Upload every queued round for a user with `saveRound` and return the ids that were saved.
+ * Overlapping calls for the same user share a single pass over the queue.
+ */
+export const syncPendingRounds = (userId: string, saveRound: SaveRound): Promise<string[]> => {
+  const activeSync = activeSyncs.get(userId)
+  if (activeSync) {
+    return activeSync
+  }
+
+  const sync = uploadPendingRounds(userId, saveRound).finally(() => activeSyncs.delete(userId))
+  activeSyncs.set(userId, sync)
+  return sync
+}
+
+/**
+ * Clear the pending flag on rounds that have just been synced
+ */
+export const markRoundsSynced = <T extends RoundListItem>(rounds: T[], syncedIds: string[]): T[] => {
+  if (syncedIds.length === 0) {
+    return rounds
+  }
+
+  const synced = new Set(syncedIds)
+  return rounds.map(round => (synced.has(round.id) ? withoutPendingSync(round) : round))
+}
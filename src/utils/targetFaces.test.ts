@@ -0,0 +1,132 @@
+import { describe, it, expect } from 'vitest'
+import {
+  calculateEndPrecision,
+  calculateScore,
+  countXsAndTens,
+  createScoreOnlyShot,
+  formatShotValue,
+  isXShot,
+  scoreShot,
+} from './helpers'
+import { TARGET_FACES, getScoreValues, getSharedTargetFace, getTargetFace } from './targetFaces'
+
+describe('calculateScore with target faces', () => {
+  it('scores the 80cm 6-ring face from 10 down to 5', () => {
+    const face = TARGET_FACES['wa-80-6ring']
+    expect(calculateScore(0, 0, face)).toBe(10)
+    expect(calculateScore(0.2, 0, face)).toBe(9)
+    expect(calculateScore(0.9, 0, face)).toBe(5)
+    expect(calculateScore(1.01, 0, face)).toBe(face.missValue)
+  })
+
+  it('scores the 40cm triple spot from 10 down to 6', () => {
+    const face = TARGET_FACES['wa-40-triple']
+    expect(calculateScore(0.1, 0, face)).toBe(10)
+    expect(calculateScore(0.5, 0, face)).toBe(8)
+    expect(calculateScore(0.95, 0, face)).toBe(6)
+  })
+
+  it('scores the NFAA 5-spot as 5 in the white and 4 in the blue', () => {
+    const face = TARGET_FACES['nfaa-5spot']
+    expect(calculateScore(0.3, 0, face)).toBe(5)
+    expect(calculateScore(0.7, 0, face)).toBe(4)
+  })
+
+  it('sizes the NFAA 5-spot to a single spot, with a 4cm white', () => {
+    const face = TARGET_FACES['nfaa-5spot']
+    expect(face.diameterCm).toBe(8)
+    expect(face.diameterCm * face.rings[1].radius).toBe(4)
+  })
+
+  it('scores the field face 5-4-3', () => {
+    const face = TARGET_FACES.field
+    expect(calculateScore(0.2, 0, face)).toBe(5)
+    expect(calculateScore(0.5, 0, face)).toBe(4)
+    expect(calculateScore(0.8, 0, face)).toBe(3)
+  })
+
+  it('gives a shot on a ring line the outer ring score', () => {
+    expect(calculateScore(0.5, 0, TARGET_FACES['nfaa-5spot'])).toBe(4)
+  })
+})
+
+describe('getTargetFace', () => {
+  it('falls back to the WA 122cm face for unknown or missing ids', () => {
+    expect(getTargetFace(undefined).id).toBe('wa-122')
+    expect(getTargetFace('not-a-face').id).toBe('wa-122')
+  })
+
+  it('returns the shared face only when every round uses it', () => {
+    expect(getSharedTargetFace([{ faceId: 'field' }, { faceId: 'field' }]).id).toBe('field')
+    expect(getSharedTargetFace([{ faceId: 'field' }, { faceId: 'wa-80-6ring' }]).id).toBe('wa-122')
+  })
+})
+
+describe('X ring tracking', () => {
+  it('flags shots inside the inner ten as X', () => {
+    expect(isXShot(0.04, 0)).toBe(true)
+    expect(isXShot(0.06, 0)).toBe(false)
+    expect(isXShot(0.2, 0, TARGET_FACES['nfaa-5spot'])).toBe(true)
+  })
+
+  it('counts X shots as tens as well', () => {
+    const shots = [
+      { x: 0, y: 0, score: 10, isX: true },
+      { x: 0.08, y: 0, score: 10 },
+      { x: 0.15, y: 0, score: 9 },
+    ]
+    expect(countXsAndTens(shots)).toEqual({ xCount: 1, tenCount: 2 })
+  })
+
+  it('counts the top ring of non-WA faces as tens', () => {
+    const shots = [{ x: 0.3, y: 0, score: 5 }, { x: 0.7, y: 0, score: 4 }]
+    expect(countXsAndTens(shots, TARGET_FACES['nfaa-5spot']).tenCount).toBe(1)
+  })
+
+  it('formats X, miss and numeric shot values', () => {
+    expect(formatShotValue({ x: 0, y: 0, score: 10, isX: true })).toBe('X')
+    expect(formatShotValue({ x: 2, y: 0, score: 0 })).toBe('M')
+    expect(formatShotValue({ x: 0.15, y: 0, score: 9 })).toBe('9')
+  })
+})
+
+describe('line-cutter scoring', () => {
+  // 6mm shaft on the 122cm face is roughly 0.005 normalized units of radius
+  const shaftDiameterMm = 6
+
+  it('scores the higher ring when the shaft touches the line', () => {
+    expect(calculateScore(0.103, 0)).toBe(9)
+    expect(calculateScore(0.103, 0, TARGET_FACES['wa-122'], shaftDiameterMm)).toBe(10)
+  })
+
+  it('keeps the lower ring when the shaft is clear of the line', () => {
+    expect(calculateScore(0.12, 0, TARGET_FACES['wa-122'], shaftDiameterMm)).toBe(9)
+  })
+
+  it('scores a shaft cutting the outer line instead of a miss', () => {
+    expect(calculateScore(1.003, 0, TARGET_FACES['wa-122'], shaftDiameterMm)).toBe(1)
+  })
+
+  it('applies the same rule to the X ring', () => {
+    expect(scoreShot(0.053, 0, TARGET_FACES['wa-122'], shaftDiameterMm).isX).toBe(true)
+    expect(scoreShot(0.053, 0).isX).toBe(false)
+  })
+})
+
+describe('score-only entry', () => {
+  it('offers X, each ring and a miss for the face', () => {
+    expect(getScoreValues(TARGET_FACES['wa-122']).map(value => value.label).join(' ')).toBe('X 10 9 8 7 6 5 4 3 2 1 M')
+    expect(getScoreValues(TARGET_FACES['nfaa-5spot'])).toEqual([
+      { label: 'X', score: 5, isX: true },
+      { label: '5', score: 5, isX: false },
+      { label: '4', score: 4, isX: false },
+      { label: 'M', score: 0, isX: false },
+    ])
+  })
+
+  it('leaves score-only shots out of end precision', () => {
+    const shots = [scoreShot(0.1, 0), scoreShot(0.3, 0), createScoreOnlyShot(10, true)]
+    expect(calculateEndPrecision(shots)).toBeCloseTo(1)
+    expect(formatShotValue(shots[2])).toBe('X')
+  })
+})
@@ -0,0 +1,147 @@
+/**
+ * Catalogue of supported target faces.
+ * Ring radii are normalized so the outer edge of the scoring area is 1.
+ */
+
+import type { TargetFace, TargetFaceId, TargetRing } from './types'
+
+const GOLD = '#e6d100'
+const RED = '#e4442c'
+const BLUE = '#23a0d6'
+const BLACK = '#484239'
+const WHITE = '#d3c5b3'
+const NFAA_BLUE = '#1f4e9c'
+const NFAA_WHITE = '#f1f1ec'
+const FIELD_BLACK = '#2b2824'
+
+/**
+ * Builds evenly spaced rings from the highest score down to the lowest,
+ * returned outermost first.
+ */
+const buildRings = (highScore: number, lowScore: number, colorFor: (score: number) => string): TargetRing[] => {
+  const ringCount = highScore - lowScore + 1
+  return Array.from({ length: ringCount }, (_, index) => {
+    const score = lowScore + index
+    return {
+      radius: (ringCount - index) / ringCount,
+      score,
+      color: colorFor(score),
+    }
+  })
+}
+
+const waColor = (score: number): string => {
+  if (score >= 9) return GOLD
+  if (score >= 7) return RED
+  if (score >= 5) return BLUE
+  if (score >= 3) return BLACK
+  return WHITE
+}
+
+export const TARGET_FACES: Record<TargetFaceId, TargetFace> = {
+  'wa-122': {
+    id: 'wa-122',
+    name: 'WA 122cm (10-ring)',
+    rings: buildRings(10, 1, waColor),
+    xRingRadius: 0.05,
+    missValue: 0,
+    diameterCm: 122,
+  },
+  'wa-80': {
+    id: 'wa-80',
+    name: 'WA 80cm (10-ring)',
+    rings: buildRings(10, 1, waColor),
+    xRingRadius: 0.05,
+    missValue: 0,
+    diameterCm: 80,
+  },
+  'wa-80-6ring': {
+    id: 'wa-80-6ring',
+    name: 'WA 80cm (6-ring)',
+    rings: buildRings(10, 5, waColor),
+    xRingRadius: 1 / 12,
+    missValue: 0,
+    diameterCm: 48,
+  },
+  'wa-60': {
+    id: 'wa-60',
+    name: 'WA 60cm (10-ring)',
+    rings: buildRings(10, 1, waColor),
+    xRingRadius: 0.05,
+    missValue: 0,
+    diameterCm: 60,
+  },
+  'wa-40-triple': {
+    id: 'wa-40-triple',
+    name: 'WA 40cm triple spot',
+    rings: buildRings(10, 6, waColor),
+    xRingRadius: 0.1,
+    missValue: 0,
+    diameterCm: 20,
+  },
+  'nfaa-5spot': {
+    id: 'nfaa-5spot',
+    name: 'NFAA 5-spot',
+    rings: [
+      { radius: 1, score: 4, color: NFAA_BLUE },
+      { radius: 0.5, score: 5, color: NFAA_WHITE },
+    ],
+    xRingRadius: 0.25,
+    missValue: 0,
+    // One spot: the 4-ring is 8cm across
+    diameterCm: 8,
+  },
+  field: {
+    id: 'field',
+    name: 'NFAA field',
+    rings: [
+      { radius: 1, score: 3, color: FIELD_BLACK },
+      { radius: 2 / 3, score: 4, color: FIELD_BLACK },
+      { radius: 1 / 3, score: 5, color: NFAA_WHITE },
+    ],
+    xRingRadius: 1 / 6,
+    missValue: 0,
+    diameterCm: 50,
+  },
+}
+
+export const DEFAULT_TARGET_FACE_ID: TargetFaceId = 'wa-122'
+
+export const DEFAULT_TARGET_FACE = TARGET_FACES[DEFAULT_TARGET_FACE_ID]
+
+export const TARGET_FACE_OPTIONS: TargetFace[] = Object.values(TARGET_FACES)
+
+/**
+ * Looks up a face by id, falling back to the WA 122cm face for rounds
+ * recorded before faces were stored.
+ */
+export const getTargetFace = (faceId?: string | null): TargetFace =>
+  (faceId && faceId in TARGET_FACES ? TARGET_FACES[faceId as TargetFaceId] : DEFAULT_TARGET_FACE)
+
+/**
+ * Returns the face shared by every round, or the default face when the rounds mix faces.
+ */
+export const getSharedTargetFace = (rounds: Array<{ faceId?: TargetFaceId }>): TargetFace => {
+  const faceIds = new Set(rounds.map(round => round.faceId ?? DEFAULT_TARGET_FACE_ID))
+  return faceIds.size === 1 ? getTargetFace([...faceIds][0]) : DEFAULT_TARGET_FACE
+}
+
+/**
+ * Score of the innermost ring, e.g. 10 on WA faces and 5 on NFAA faces.
+ */
+export const getTopRingScore = (face: TargetFace): number => face.rings[face.rings.length - 1].score
+
+export type ScoreValue = {
+  label: string
+  score: number
+  isX: boolean
+}
+
+/**
+ * Every score a face allows, from X down to a miss, for entering scores without positions.
+ */
+export const getScoreValues = (face: TargetFace): ScoreValue[] => [
+  { label: 'X', score: getTopRingScore(face), isX: true },
+  ...[...face.rings].reverse().map(ring => ({ label: String(ring.score), score: ring.score, isX: false })),
+  { label: 'M', score: face.missValue, isX: false },
+]
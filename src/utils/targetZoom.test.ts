@@ -0,0 +1,33 @@
+import { describe, it, expect } from 'vitest'
+import { clampTargetView, DEFAULT_TARGET_VIEW, zoomTargetView } from './targetZoom'
+import { getTargetPosition } from './helpers'
+import { MAX_TARGET_ZOOM } from './constants'
+
+// A 200px wrapper, so the face edge is 70px from its centre at (100, 100)
+const rect = { left: 0, top: 0, width: 200, height: 200 } as DOMRect
+
+describe('target zoom', () => {
+  it('keeps the point under the pinch in place', () => {
+    const view = zoomTargetView(DEFAULT_TARGET_VIEW, 2, { x: 0.5, y: 0 })
+
+    expect(view).toEqual({ scale: 2, x: -0.5, y: 0 })
+    // The pinch point still maps onto the same spot on the face
+    expect(getTargetPosition(135, 100, rect, view)).toEqual({ x: 0.5, y: 0 })
+  })
+
+  it('pans with the fingers while zooming', () => {
+    const view = zoomTargetView({ scale: 2, x: 0, y: 0 }, 2, { x: 0, y: 0 }, { x: 0.5, y: -0.25 })
+
+    expect(view).toEqual({ scale: 2, x: 0.5, y: -0.25 })
+    expect(getTargetPosition(135, 82.5, rect, view)).toEqual({ x: 0, y: 0 })
+  })
+
+  it('clamps the zoom and keeps the face on screen', () => {
+    expect(clampTargetView({ scale: 0.5, x: 1, y: 0.5 })).toEqual(DEFAULT_TARGET_VIEW)
+    expect(clampTargetView({ scale: 20, x: 20, y: 0 })).toEqual({
+      scale: MAX_TARGET_ZOOM,
+      x: MAX_TARGET_ZOOM - 1,
+      y: 0,
+    })
+  })
+})
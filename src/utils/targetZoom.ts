@@ -0,0 +1,44 @@
+/**
+ * Pinch-zoom and pan for the recording target. Views are kept in face coordinates, so the
+ * face drawn at `scale` with its centre at (`x`, `y`) maps back onto scores at any zoom level.
+ */
+
+import type { TargetView } from './types'
+import { MAX_TARGET_ZOOM } from './constants'
+
+type Point = { x: number; y: number }
+
+export const DEFAULT_TARGET_VIEW: TargetView = { scale: 1, x: 0, y: 0 }
+
+const clamp = (value: number, min: number, max: number) => Math.min(max, Math.max(min, value))
+
+/**
+ * Keeps the zoom within range and the face covering the area it fills when not zoomed,
+ * so panning can't lose the target off screen.
+ */
+export const clampTargetView = (view: TargetView): TargetView => {
+  const scale = clamp(view.scale, 1, MAX_TARGET_ZOOM)
+  const limit = scale - 1
+  return { scale, x: clamp(view.x, -limit, limit), y: clamp(view.y, -limit, limit) }
+}
+
+/**
+ * Zooms to `scale`, keeping the face point that was under `anchor` under `nextAnchor`.
+ * Both anchors are positions over the unzoomed target; a pinch passes the midpoint of the
+ * two fingers before and after they moved, which pans as well as zooms.
+ */
+export const zoomTargetView = (
+  view: TargetView,
+  scale: number,
+  anchor: Point,
+  nextAnchor: Point = anchor,
+): TargetView => {
+  const nextScale = clamp(scale, 1, MAX_TARGET_ZOOM)
+  const faceX = (anchor.x - view.x) / view.scale
+  const faceY = (anchor.y - view.y) / view.scale
+  return clampTargetView({
+    scale: nextScale,
+    x: nextAnchor.x - faceX * nextScale,
+    y: nextAnchor.y - faceY * nextScale,
+  })
+}
@@ -1,9 +1,17 @@
 export type View = 'home' | 'record' | 'stats' | 'profile'
 
+// How arrows are recorded: placed on the target, or typed in as scores without positions
+export type ScoreEntryMode = 'target' | 'keypad'
+
 export type Shot = {
   x: number
   y: number
   score: number
+  isX?: boolean
+  // Entered as a score only, e.g. from a scoresheet; x and y are not a real position
+  isPositionless?: boolean
+  // Which of the archer's numbered arrows was shot, when tagged
+  arrowNumber?: number
 }
 
 export type End = {
@@ -12,26 +20,235 @@ export type End = {
   precision: number
 }
 
+export type TargetFaceId = 'wa-122' | 'wa-80' | 'wa-80-6ring' | 'wa-60' | 'wa-40-triple' | 'nfaa-5spot' | 'field'
+
+export type TargetRing = {
+  // Outer edge of the ring as a fraction of the face radius (0-1)
+  radius: number
+  score: number
+  color: string
+}
+
+export type TargetFace = {
+  id: TargetFaceId
+  name: string
+  // Ordered from the outermost ring to the innermost ring
+  rings: TargetRing[]
+  xRingRadius: number
+  missValue: number
+  // Physical diameter of the scoring area, used to scale the arrow shaft for line cutters
+  diameterCm: number
+}
+
+// Zoom and pan of the recording target, in face coordinates where the face edge is 1
+export type TargetView = {
+  scale: number
+  // Offset of the face centre from the middle of the target
+  x: number
+  y: number
+}
+
+export type RoundPresetId = 'wa-70m' | 'wa-1440' | 'wa-18m' | 'portsmouth' | 'vegas' | 'nfaa-300'
+
+export type DistanceUnit = 'm' | 'yd'
+
+// A block of consecutive ends shot at one distance on one face
+export type RoundSegment = {
+  distance: number
+  distanceUnit: DistanceUnit
+  faceId: TargetFaceId
+  endCount: number
+}
+
+export type ShootingVenue = 'indoor' | 'outdoor'
+
+export type BowClass = 'recurve' | 'compound' | 'barebow' | 'longbow'
+
+export type WindCondition = 'calm' | 'light' | 'moderate' | 'strong'
+
+// Where and how a practice was shot; every field is optional
+export type SessionDetails = {
+  // Rounds shot over several distances record them in `segments` instead
+  distance?: number
+  distanceUnit?: DistanceUnit
+  venue?: ShootingVenue
+  bowClass?: BowClass
+  location?: string
+  wind?: WindCondition
+  temperatureC?: number
+}
+
+// A dated change to a bow or arrow setup, e.g. "Brace height to 22.5cm"
+export type TuningChange = {
+  id: string
+  // Calendar date of the change, YYYY-MM-DD
+  date: string
+  description: string
+}
+
+// A named bow and arrow setup; new rounds are recorded against the selected one
+export type EquipmentProfile = {
+  id: string
+  name: string
+  bowClass?: BowClass
+  // Free text, e.g. riser, limbs and sight
+  bow?: string
+  // Free text, e.g. shaft model, spine and points
+  arrows?: string
+  drawWeightLbs?: number
+  braceHeightMm?: number
+  createdAt: string
+  // Oldest change first
+  tuningLog: TuningChange[]
+}
+
+export type RoundPreset = {
+  id: RoundPresetId
+  name: string
+  distance: number
+  distanceUnit: DistanceUnit
+  faceId: TargetFaceId
+  ends: number
+  shotsPerEnd: number
+  maxScore: number
+  // Multi-distance rounds list their distances in shooting order
+  segments?: RoundSegment[]
+}
+
 export type Round = {
   id: string
   createdAt: string
   ends: End[]
   totalScore: number
+  faceId?: TargetFaceId
+  presetId?: RoundPresetId
+  segments?: RoundSegment[]
+  shotsPerEnd?: number
+  shaftDiameterMm?: number
+  xCount?: number
+  tenCount?: number
+  notes?: string
+  session?: SessionDetails
+  // The equipment profile the round was shot with
+  equipmentId?: string
+  // When the arrows were last corrected after the round was saved
+  editedAt?: string
+  // Set while the round only exists on this device and is waiting to upload
+  pendingSync?: boolean
+}
+
+// What the home list shows, read from a stored round without hydrating its shots
+export type RoundSummary = {
+  id: string
+  createdAt: string
+  totalScore: number
+  endScores: number[]
+  faceId?: TargetFaceId
+  presetId?: RoundPresetId
+  shotsPerEnd?: number
+  xCount?: number
+  tenCount?: number
   notes?: string
+  session?: SessionDetails
+  pendingSync?: boolean
+}
+
+// Version 1 documents keyed ends and shots by `end01`/`shot1` strings
+export type StoredRoundV1 = {
+  schemaVersion?: 1
+  id: string
+  createdAt: string
+  totalScore: number
+  faceId?: TargetFaceId
+  presetId?: RoundPresetId
+  segments?: RoundSegment[]
+  shotsPerEnd?: number
+  shaftDiameterMm?: number
+  xCount?: number
+  tenCount?: number
+  endScores?: number[]
+  round?: Record<string, Record<string, StoredShot | number>>
+  notes?: string
+}
+
+export type StoredEnd = {
+  shots: StoredShot[]
 }
 
 export type StoredRound = {
+  schemaVersion: 2
   id: string
   createdAt: string
   totalScore: number
-  round: Record<string, Record<string, StoredShot | number>>
+  faceId?: TargetFaceId
+  presetId?: RoundPresetId
+  segments?: RoundSegment[]
+  shotsPerEnd?: number
+  shaftDiameterMm?: number
+  xCount?: number
+  tenCount?: number
+  // Summary projection so lists can skip reading shots; missing on older documents
+  endScores?: number[]
+  ends: StoredEnd[]
   notes?: string
+  session?: SessionDetails
+  equipmentId?: string
+  editedAt?: string
 }
 
+// Shots without a recorded position leave out `x` and `y` rather than storing a fake centre
 export type StoredShot = {
   x?: number
   y?: number
   score: number
+  isX?: boolean
+  arrowNumber?: number
+}
+
+// The round being recorded and its setup
+export type RecordingState = {
+  ends: End[]
+  currentEndIndex: number
+  notes: string
+  endsPerRound: number
+  shotsPerEnd: number
+  faceId: TargetFaceId
+  presetId: RoundPresetId | null
+  segments: RoundSegment[]
+  session: SessionDetails
+  equipmentId: string | null
+}
+
+// The round under construction, saved as it is shot so it survives reloads
+export type RoundDraft = RecordingState & {
+  updatedAt: string
+}
+
+export type UserSettings = {
+  arrowShaftDiameterMm: number
+  // Arrows in the archer's numbered set, 1 to arrowCount; 0 when arrows aren't numbered
+  arrowCount: number
+  // Distance from the eye to the sight aperture
+  sightRadiusCm: number
+  // How far one click moves the aperture
+  sightClickMm: number
+}
+
+// A sight setting read off the archer's own scale
+export type SightMarkReading = {
+  id: string
+  // Calendar date the mark was set, YYYY-MM-DD
+  date: string
+  elevation: number
+  windage: number
+  note?: string
+}
+
+// The sight marks used at one distance, oldest first; the last is the current mark
+export type SightMark = {
+  distance: number
+  distanceUnit: DistanceUnit
+  history: SightMarkReading[]
 }
 
 export type AggregateStats = {
@@ -40,4 +257,6 @@ export type AggregateStats = {
   missedShots: number
   averagePrecision: number
   shotCount: number
+  xCount: number
+  tenCount: number
 }
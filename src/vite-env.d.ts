@@ -1 +1,12 @@
 /// <reference types="vite/client" />
+
+interface ImportMetaEnv {
+  // "local" keeps rounds in this browser instead of Firestore (demo mode)
+  readonly VITE_ROUND_STORE?: 'firestore' | 'local'
+  readonly VITE_FIRESTORE_EMULATOR_HOST?: string
+  readonly VITE_AUTH_EMULATOR_URL?: string
+}
+
+interface ImportMeta {
+  readonly env: ImportMetaEnv
+}